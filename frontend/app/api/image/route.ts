@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageProxyError, getProxiedImage } from "@/lib/imageProxy";
+
+export const runtime = "nodejs";
+
+// GET /api/image?url=<http(s), ipfs:// or ar:// URI>&w=<width>
+// Serves an NFT image through the proxy so pages never hotlink arbitrary hosts
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get("url");
+  const width = Number(request.nextUrl.searchParams.get("w") ?? 0);
+
+  if (!url || url.length > 2048) {
+    return NextResponse.json({ error: "Missing or invalid url" }, { status: 400 });
+  }
+  if (!Number.isInteger(width) || width < 0 || width > 4096) {
+    return NextResponse.json({ error: "Invalid width" }, { status: 400 });
+  }
+
+  try {
+    const image = await getProxiedImage(url, width || undefined);
+    return new NextResponse(new Uint8Array(image.body), {
+      headers: {
+        "Content-Type": image.contentType,
+        "Content-Length": String(image.body.length),
+        "Cache-Control": image.immutable
+          ? "public, max-age=31536000, immutable"
+          : "public, max-age=3600, stale-while-revalidate=86400",
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "default-src 'none'; sandbox",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImageProxyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Image proxy error:", error);
+    return NextResponse.json({ error: "Failed to load image" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LOCAL_UPLOADS_ENABLED, readLocalUpload } from "@/lib/localUploads";
+
+export const runtime = "nodejs";
+
+// GET /api/uploads/<id>
+// Serves a file stored by the local uploader
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const file = LOCAL_UPLOADS_ENABLED ? await readLocalUpload(id) : null;
+  if (!file) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(file.body), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Length": String(file.body.length),
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+      // Uploaded HTML must not run with the app's origin
+      "Content-Security-Policy": "sandbox allow-scripts",
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LOCAL_UPLOADS_ENABLED, LocalUploadError, saveLocalUpload } from "@/lib/localUploads";
+
+export const runtime = "nodejs";
+
+// POST /api/uploads with the raw file as the body and its Content-Type
+// Local stand-in for Irys, only available with NEXT_PUBLIC_UPLOADER=local
+export async function POST(request: NextRequest) {
+  if (!LOCAL_UPLOADS_ENABLED) {
+    return NextResponse.json({ error: "Local uploads are disabled" }, { status: 404 });
+  }
+
+  try {
+    const body = Buffer.from(await request.arrayBuffer());
+    const id = await saveLocalUpload(body, request.headers.get("content-type") ?? "");
+    return NextResponse.json({ uri: `/api/uploads/${id}` });
+  } catch (error) {
+    if (error instanceof LocalUploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Local upload error:", error);
+    return NextResponse.json({ error: "Failed to store upload" }, { status: 500 });
+  }
+}
@@ -0,0 +1,330 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Badge, Button, Card, CardContent, Input, Skeleton } from "@/components/retroui";
+import { MediaRenderer, NFTCard, NFTGrid, NFTImage, RarityBadge } from "@/components/nft";
+import { KnownNFT, useCollection } from "@/hooks/useCollections";
+import { formatSol, truncateAddress } from "@/lib/constants";
+import { RarityScore, computeRarity } from "@/lib/rarity";
+import { ArrowLeft, ArrowUpDown, BadgeCheck, ExternalLink, Search } from "lucide-react";
+
+type StatusFilter = "all" | "listed" | "unlisted";
+type SortOption = "price-low" | "price-high" | "name" | "rarest";
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "listed", label: "Listed" },
+  { value: "unlisted", label: "Not Listed" },
+];
+
+export default function CollectionPage() {
+  const params = useParams();
+  const router = useRouter();
+  const address = params.address as string;
+  const { collection, items, stats, indexed, loading, salesLoading, error, refetch } =
+    useCollection(address);
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [sortBy, setSortBy] = useState<SortOption>("price-low");
+
+  // Ranks are final only when every item is known
+  const rarity = useMemo(
+    () =>
+      computeRarity(
+        items.map((item) => ({ mint: item.mint, attributes: item.metadata.attributes })),
+        indexed
+      ),
+    [items, indexed]
+  );
+
+  // Filter and sort items; unlisted items sort after listed ones by price
+  const filteredItems = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    const result = items.filter((item) => {
+      if (status === "listed" && !item.listing) return false;
+      if (status === "unlisted" && item.listing) return false;
+      return (
+        !query ||
+        item.metadata.name.toLowerCase().includes(query) ||
+        item.mint.toLowerCase().includes(query)
+      );
+    });
+
+    const price = (item: KnownNFT) => item.listing?.account.price.toNumber();
+    switch (sortBy) {
+      case "rarest":
+        result.sort(
+          (a, b) => (rarity.get(a.mint)?.rank ?? Infinity) - (rarity.get(b.mint)?.rank ?? Infinity)
+        );
+        break;
+      case "name":
+        result.sort((a, b) =>
+          a.metadata.name.localeCompare(b.metadata.name, undefined, { numeric: true })
+        );
+        break;
+      case "price-high":
+        result.sort((a, b) => (price(b) ?? -1) - (price(a) ?? -1));
+        break;
+      case "price-low":
+      default:
+        result.sort((a, b) => (price(a) ?? Infinity) - (price(b) ?? Infinity));
+        break;
+    }
+    return result;
+  }, [items, searchQuery, status, sortBy, rarity]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Card className="max-w-md w-full mx-4">
+          <CardContent className="text-center py-12">
+            <div className="text-6xl mb-4">🗂️</div>
+            <h2 className="font-head text-2xl font-bold mb-2">Collection Not Found</h2>
+            <p className="text-muted-foreground mb-6">{error}</p>
+            <div className="flex justify-center">
+              <Button onClick={() => router.push("/explore")}>Explore NFTs</Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      {/* Banner */}
+      <section className="relative border-b-2 border-border bg-card overflow-hidden">
+        {collection && (
+          <div className="absolute inset-0 opacity-20 blur-sm">
+            <NFTImage src={collection.image} alt="" fill className="object-cover" sizes="100vw" />
+          </div>
+        )}
+        <div className="relative container mx-auto px-4 py-10">
+          <Link
+            href="/explore"
+            className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span className="text-sm font-medium">Back to Explore</span>
+          </Link>
+
+          <div className="flex flex-col md:flex-row gap-6 md:items-end">
+            <div className="relative w-32 h-32 shrink-0 border-2 border-border bg-muted overflow-hidden shadow-md">
+              {collection ? (
+                <MediaRenderer metadata={collection} className="object-cover" sizes="128px" />
+              ) : (
+                <Skeleton className="w-full h-full" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              {collection ? (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <h1 className="font-head text-3xl md:text-4xl font-bold">
+                      {collection.name || "Unnamed Collection"}
+                    </h1>
+                    <Badge variant="success" className="gap-1">
+                      <BadgeCheck className="w-3 h-3" />
+                      Verified collection
+                    </Badge>
+                  </div>
+                  {collection.description && (
+                    <p className="text-muted-foreground max-w-3xl mb-3">
+                      {collection.description}
+                    </p>
+                  )}
+                  <a
+                    href={`https://explorer.solana.com/address/${address}?cluster=devnet`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 font-mono text-sm text-muted-foreground hover:text-foreground"
+                  >
+                    {truncateAddress(address, 6)}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                </>
+              ) : (
+                <div className="space-y-3">
+                  <Skeleton className="h-10 w-64" />
+                  <Skeleton className="h-4 w-96 max-w-full" />
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 mt-8">
+            <StatCard label="Items" value={stats.items} loading={loading} />
+            <StatCard label="Listed" value={stats.listed} loading={loading} />
+            <StatCard
+              label="Floor Price"
+              value={stats.floor ? `${formatSol(stats.floor.toNumber())} SOL` : "—"}
+              loading={loading}
+            />
+            <StatCard
+              label="Total Volume"
+              value={`${formatSol(stats.volume.toNumber())} SOL`}
+              hint={`${stats.sales} ${stats.sales === 1 ? "sale" : "sales"}`}
+              loading={loading || salesLoading}
+            />
+            <StatCard label="Owners" value={stats.owners} loading={loading} />
+          </div>
+        </div>
+      </section>
+
+      {/* Filters */}
+      <section className="border-b-2 border-border sticky top-24 z-30 bg-background">
+        <div className="container mx-auto px-4 py-4 flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+            <Input
+              placeholder="Search items by name or address..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+              aria-label="Search items"
+            />
+          </div>
+          <div className="flex gap-2">
+            {STATUS_FILTERS.map((option) => (
+              <Button
+                key={option.value}
+                variant={status === option.value ? "default" : "outline"}
+                onClick={() => setStatus(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <div className="relative">
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as SortOption)}
+                className="appearance-none h-full px-4 py-2 pr-10 bg-background border-2 border-border cursor-pointer font-head text-sm"
+                aria-label="Sort items by"
+              >
+                <option value="price-low">Price: Low to High</option>
+                <option value="price-high">Price: High to Low</option>
+                <option value="name">Name</option>
+                <option value="rarest">Rarest First</option>
+              </select>
+              <ArrowUpDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 pointer-events-none" />
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Items */}
+      <section className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <p className="text-muted-foreground">
+            {loading ? (
+              "Loading..."
+            ) : (
+              <>
+                <span className="font-bold text-foreground">{filteredItems.length}</span>{" "}
+                {filteredItems.length === 1 ? "item" : "items"}
+              </>
+            )}
+          </p>
+          <Button variant="ghost" onClick={refetch} disabled={loading}>
+            Refresh
+          </Button>
+        </div>
+        {!loading && !indexed && (
+          <p className="text-sm text-muted-foreground mb-6">
+            This RPC has no asset index, so only listed items and those in your wallet are shown.
+            Point NEXT_PUBLIC_RPC_ENDPOINT at an RPC with the DAS API to see every item.
+          </p>
+        )}
+
+        <NFTGrid
+          loading={loading}
+          isEmpty={!loading && filteredItems.length === 0}
+          emptyMessage={
+            items.length > 0
+              ? "No items match your filters."
+              : "No items of this collection were found."
+          }
+        >
+          {filteredItems.map((item) =>
+            item.listing ? (
+              <NFTCard
+                key={item.mint}
+                listing={item.listing}
+                rarity={rarity.get(item.mint)}
+                onBuy={() => router.push(`/nft/${item.mint}`)}
+              />
+            ) : (
+              <UnlistedItemCard key={item.mint} item={item} rarity={rarity.get(item.mint)} />
+            )
+          )}
+        </NFTGrid>
+      </section>
+    </div>
+  );
+}
+
+// Helper Components
+
+function StatCard({
+  label,
+  value,
+  hint,
+  loading,
+}: {
+  label: string;
+  value: string | number;
+  hint?: string;
+  loading?: boolean;
+}) {
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <p className="text-sm text-muted-foreground mb-1">{label}</p>
+        {loading ? (
+          <Skeleton className="h-8 w-16" />
+        ) : (
+          <>
+            <p className="font-head text-2xl font-bold">{value}</p>
+            {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Items that are not for sale have no marketplace page; they link to the
+// explorer instead
+function UnlistedItemCard({ item, rarity }: { item: KnownNFT; rarity?: RarityScore }) {
+  const explorerUrl = `https://explorer.solana.com/address/${item.mint}?cluster=devnet`;
+  return (
+    <Card className="overflow-hidden group">
+      <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
+        <div className="relative aspect-square overflow-hidden bg-muted">
+          <MediaRenderer
+            metadata={item.metadata}
+            className="object-cover transition-transform duration-300 group-hover:scale-105"
+            sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
+          />
+          {rarity && <RarityBadge rarity={rarity} className="absolute top-2 left-2" />}
+        </div>
+      </a>
+      <CardContent className="space-y-3">
+        <h3 className="font-head font-bold truncate">
+          {item.metadata.name || `NFT #${item.mint.slice(0, 6)}`}
+        </h3>
+        <p className="text-xs text-muted-foreground">
+          Owner: {item.owner ? truncateAddress(item.owner) : "—"}
+        </p>
+        <div className="pt-2 border-t-2 border-border">
+          <p className="text-xs text-muted-foreground">Price</p>
+          <p className="font-head font-bold text-lg text-muted-foreground">Not listed</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,24 +2,58 @@
 
 import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import { Button, Input, Card, CardContent, Badge } from "@/components/retroui";
+import Link from "next/link";
+import { Button, Input, Card, CardContent, Badge, Modal } from "@/components/retroui";
 import { NFTCard, NFTGrid } from "@/components/nft";
+import { useExploreSearch, useSavedSearches } from "@/hooks/useExploreSearch";
 import { useListings } from "@/hooks/useListings";
-import { Search, SlidersHorizontal, ArrowUpDown, X } from "lucide-react";
-
-type SortOption = "recent" | "price-low" | "price-high";
+import { useMarketplace } from "@/hooks/useMarketplace";
+import { useRarity } from "@/hooks/useRarity";
+import { truncateAddress } from "@/lib/constants";
+import { matchesTraits, toggleTraitValue, traitFacets } from "@/lib/attributes";
+import { collectionOf, groupByCollection } from "@/lib/collections";
+import {
+  DEFAULT_EXPLORE_SEARCH,
+  EXPLORE_PAGE_SIZE,
+  SORT_OPTIONS,
+  SortOption,
+  hasActiveFilters as isFiltered,
+  parseExploreSearch,
+} from "@/lib/exploreSearch";
+import { ListingWithMetadata } from "@/lib/program";
+import { cn } from "@/lib/utils";
+import {
+  Search,
+  SlidersHorizontal,
+  ArrowUpDown,
+  X,
+  BadgeCheck,
+  ExternalLink,
+  Bookmark,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
 
 export default function ExplorePage() {
   const router = useRouter();
   const { listings, loading, error, refetch } = useListings();
-  
-  const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState<SortOption>("recent");
-  const [showFilters, setShowFilters] = useState(false);
-  const [priceRange, setPriceRange] = useState({ min: "", max: "" });
+  const { marketplace } = useMarketplace();
+  const { rarity } = useRarity(listings);
+  // Filters, sort and page live in the URL
+  const { search, update, setText, endTyping, replaceSearch } = useExploreSearch();
+  const { searches: savedSearches, canSave, saveSearch, deleteSearch } = useSavedSearches();
+  const [saving, setSaving] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const { query: searchQuery, sort: sortBy, collection: collectionKey, traits: traitFilter } = search;
 
-  // Filter and sort listings
-  const filteredListings = useMemo(() => {
+  // Collections among the listings, for the collection facet
+  const collections = useMemo(
+    () => groupByCollection(listings, (listing) => listing.metadata),
+    [listings]
+  );
+
+  // Listings passing every filter but the trait facets
+  const baseListings = useMemo(() => {
     let result = [...listings];
 
     // Search filter
@@ -32,16 +66,55 @@ export default function ExplorePage() {
       });
     }
 
+    // Collection facet
+    if (collectionKey) {
+      result = result.filter((listing) => collectionOf(listing.metadata)?.key === collectionKey);
+    }
+
     // Price range filter
-    if (priceRange.min) {
-      const minLamports = parseFloat(priceRange.min) * 1e9;
+    if (search.minPrice) {
+      const minLamports = parseFloat(search.minPrice) * 1e9;
       result = result.filter((l) => l.account.price.toNumber() >= minLamports);
     }
-    if (priceRange.max) {
-      const maxLamports = parseFloat(priceRange.max) * 1e9;
+    if (search.maxPrice) {
+      const maxLamports = parseFloat(search.maxPrice) * 1e9;
       result = result.filter((l) => l.account.price.toNumber() <= maxLamports);
     }
 
+    // Rarity rank range filter; unranked NFTs are left out
+    if (search.minRank || search.maxRank) {
+      const minRank = parseInt(search.minRank) || 1;
+      const maxRank = parseInt(search.maxRank) || Infinity;
+      result = result.filter((listing) => {
+        const rank = rarity.get(listing.account.nftMint.toBase58())?.rank;
+        return rank !== undefined && rank >= minRank && rank <= maxRank;
+      });
+    }
+
+    return result;
+  }, [
+    listings,
+    searchQuery,
+    search.minPrice,
+    search.maxPrice,
+    search.minRank,
+    search.maxRank,
+    collectionKey,
+    rarity,
+  ]);
+
+  // Trait values among those listings, counted against the other selections
+  const facets = useMemo(
+    () => traitFacets(baseListings, (listing) => listing.metadata?.attributes, traitFilter),
+    [baseListings, traitFilter]
+  );
+
+  // Apply the trait facets and sort
+  const filteredListings = useMemo(() => {
+    const result = baseListings.filter((listing) =>
+      matchesTraits(listing.metadata?.attributes, traitFilter)
+    );
+
     // Sort
     switch (sortBy) {
       case "price-low":
@@ -50,26 +123,66 @@ export default function ExplorePage() {
       case "price-high":
         result.sort((a, b) => b.account.price.toNumber() - a.account.price.toNumber());
         break;
-      case "recent":
+      case "rarest": {
+        // Unranked NFTs go last
+        const rank = (listing: ListingWithMetadata) =>
+          rarity.get(listing.account.nftMint.toBase58())?.rank ?? Infinity;
+        result.sort((a, b) => rank(a) - rank(b));
+        break;
+      }
+      case "oldest": {
+        // Listings from before times were recorded go last
+        const listedAt = (listing: ListingWithMetadata) =>
+          listing.account.createdAt.toNumber() || Infinity;
+        result.sort((a, b) => listedAt(a) - listedAt(b));
+        break;
+      }
+      case "repriced":
+        result.sort(
+          (a, b) => b.account.priceUpdatedAt.toNumber() - a.account.priceUpdatedAt.toNumber()
+        );
+        break;
+      case "newest":
       default:
-        // Keep original order (newest first)
+        result.sort((a, b) => b.account.createdAt.toNumber() - a.account.createdAt.toNumber());
         break;
     }
 
     return result;
-  }, [listings, searchQuery, sortBy, priceRange]);
+  }, [baseListings, traitFilter, sortBy, rarity]);
+
+  // Selected trait values with their labels; facets list every selected value
+  const selectedTraits = facets.flatMap((facet) =>
+    facet.values
+      .filter((option) => traitFilter[facet.traitType]?.includes(option.value))
+      .map((option) => ({ traitType: facet.traitType, ...option }))
+  );
+
+  // The requested page, moved back within range if the results shrank
+  const pageCount = Math.max(1, Math.ceil(filteredListings.length / EXPLORE_PAGE_SIZE));
+  const page = Math.min(search.page, pageCount);
+  const pageListings = filteredListings.slice(
+    (page - 1) * EXPLORE_PAGE_SIZE,
+    page * EXPLORE_PAGE_SIZE
+  );
 
   const handleBuy = (mintAddress: string) => {
     router.push(`/nft/${mintAddress}`);
   };
 
   const clearFilters = () => {
-    setSearchQuery("");
-    setPriceRange({ min: "", max: "" });
-    setSortBy("recent");
+    replaceSearch(DEFAULT_EXPLORE_SEARCH);
   };
 
-  const hasActiveFilters = searchQuery || priceRange.min || priceRange.max || sortBy !== "recent";
+  const hasActiveFilters = isFiltered(search);
+
+  const handleSaveSearch = () => {
+    const name = saveName.trim();
+    if (!name) return;
+    saveSearch(name, search);
+    setSaving(false);
+    setSaveName("");
+  };
 
   return (
     <div className="min-h-screen">
@@ -82,6 +195,14 @@ export default function ExplorePage() {
           <p className="text-muted-foreground text-lg">
             Discover unique digital collectibles listed on PixelMart
           </p>
+          {marketplace && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              <Badge variant="outline">
+                Marketplace {truncateAddress(marketplace.marketplacePDA.toString())}
+              </Badge>
+              <Badge variant="outline">{marketplace.feePercent}% fee</Badge>
+            </div>
+          )}
         </div>
       </section>
 
@@ -95,7 +216,8 @@ export default function ExplorePage() {
               <Input
                 placeholder="Search by name or address..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => setText("query", e.target.value)}
+                onBlur={endTyping}
                 className="pl-10"
                 aria-label="Search NFTs"
               />
@@ -106,27 +228,41 @@ export default function ExplorePage() {
               <div className="relative">
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as SortOption)}
+                  onChange={(e) => update({ sort: e.target.value as SortOption })}
                   className="appearance-none px-4 py-2 pr-10 bg-background border-2 border-border cursor-pointer font-head text-sm"
                   aria-label="Sort NFTs by"
                   title="Sort NFTs"
                 >
-                  <option value="recent">Recently Listed</option>
-                  <option value="price-low">Price: Low to High</option>
-                  <option value="price-high">Price: High to Low</option>
+                  {Object.entries(SORT_OPTIONS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
                 </select>
                 <ArrowUpDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 pointer-events-none" />
               </div>
 
               <Button
-                variant={showFilters ? "default" : "outline"}
-                onClick={() => setShowFilters(!showFilters)}
+                variant={search.filters ? "default" : "outline"}
+                onClick={() => update({ filters: !search.filters })}
                 className="gap-2"
               >
                 <SlidersHorizontal className="w-4 h-4" />
                 <span className="hidden sm:inline">Filters</span>
               </Button>
 
+              {hasActiveFilters && canSave && (
+                <Button
+                  variant="outline"
+                  onClick={() => setSaving(true)}
+                  className="gap-2"
+                  title="Save this search"
+                >
+                  <Bookmark className="w-4 h-4" />
+                  <span className="hidden sm:inline">Save</span>
+                </Button>
+              )}
+
               {hasActiveFilters && (
                 <Button variant="ghost" onClick={clearFilters} className="gap-2">
                   <X className="w-4 h-4" />
@@ -137,17 +273,50 @@ export default function ExplorePage() {
           </div>
 
           {/* Expanded Filters */}
-          {showFilters && (
+          {search.filters && (
             <div className="mt-4 p-4 border-2 border-border bg-card">
+              {/* Saved searches of the connected wallet */}
+              {savedSearches.length > 0 && (
+                <div className="mb-4">
+                  <p className="font-head text-sm font-medium mb-2">Saved Searches</p>
+                  <div className="flex flex-wrap gap-2">
+                    {savedSearches.map((saved) => (
+                      <div
+                        key={saved.name}
+                        className="flex items-center border-2 border-border text-sm"
+                      >
+                        <button
+                          type="button"
+                          onClick={() => replaceSearch(parseExploreSearch(saved.search))}
+                          className="flex items-center gap-1 px-3 py-1"
+                          title={`Saved ${new Date(saved.savedAt).toLocaleDateString()}`}
+                        >
+                          <Bookmark className="w-3 h-3" />
+                          {saved.name}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => deleteSearch(saved.name)}
+                          className="px-2 py-1 border-l-2 border-border hover:bg-accent"
+                          aria-label={`Delete saved search ${saved.name}`}
+                          title="Delete saved search"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                 <Input
                   label="Min Price (SOL)"
                   type="number"
                   placeholder="0"
-                  value={priceRange.min}
-                  onChange={(e) =>
-                    setPriceRange({ ...priceRange, min: e.target.value })
-                  }
+                  value={search.minPrice}
+                  onChange={(e) => setText("minPrice", e.target.value)}
+                  onBlur={endTyping}
                   min="0"
                   step="0.1"
                 />
@@ -155,14 +324,143 @@ export default function ExplorePage() {
                   label="Max Price (SOL)"
                   type="number"
                   placeholder="1000"
-                  value={priceRange.max}
-                  onChange={(e) =>
-                    setPriceRange({ ...priceRange, max: e.target.value })
-                  }
+                  value={search.maxPrice}
+                  onChange={(e) => setText("maxPrice", e.target.value)}
+                  onBlur={endTyping}
                   min="0"
                   step="0.1"
                 />
+                <Input
+                  label="Min Rarity Rank"
+                  type="number"
+                  placeholder="1"
+                  value={search.minRank}
+                  onChange={(e) => setText("minRank", e.target.value)}
+                  onBlur={endTyping}
+                  min="1"
+                  step="1"
+                />
+                <Input
+                  label="Max Rarity Rank"
+                  type="number"
+                  placeholder="100"
+                  value={search.maxRank}
+                  onChange={(e) => setText("maxRank", e.target.value)}
+                  onBlur={endTyping}
+                  min="1"
+                  step="1"
+                />
               </div>
+
+              {/* Collection facet */}
+              {collections.length > 0 && (
+                <div className="mt-4">
+                  <p className="font-head text-sm font-medium mb-2">Collection</p>
+                  <div className="flex flex-wrap gap-2">
+                    {collections.map((collection) => (
+                      <div
+                        key={collection.key}
+                        className={cn(
+                          "flex items-center border-2 border-border text-sm",
+                          collectionKey === collection.key && "bg-primary"
+                        )}
+                      >
+                        <button
+                          type="button"
+                          onClick={() =>
+                            update({
+                              collection: collectionKey === collection.key ? null : collection.key,
+                            })
+                          }
+                          aria-pressed={collectionKey === collection.key}
+                          className="flex items-center gap-1 px-3 py-1"
+                          title={collection.verified ? "Verified collection" : "Unverified collection name"}
+                        >
+                          {collection.verified && <BadgeCheck className="w-3 h-3" />}
+                          {collection.name}
+                          <span className="text-muted-foreground">({collection.items.length})</span>
+                        </button>
+                        {collection.address && (
+                          <Link
+                            href={`/collection/${collection.address}`}
+                            className="px-2 py-1 border-l-2 border-border hover:bg-accent"
+                            aria-label={`Open ${collection.name}`}
+                            title="Open collection page"
+                          >
+                            <ExternalLink className="w-3 h-3" />
+                          </Link>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Trait facets: OR within a trait, AND across traits */}
+              {facets.length > 0 && (
+                <div className="mt-4">
+                  <p className="font-head text-sm font-medium mb-2">Traits</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                    {facets.map((facet) => (
+                      <details key={facet.traitType} className="border-2 border-border">
+                        <summary className="flex items-center justify-between gap-2 px-3 py-2 cursor-pointer font-head text-sm">
+                          <span className="truncate">{facet.traitType}</span>
+                          {facet.selected > 0 && <Badge>{facet.selected}</Badge>}
+                        </summary>
+                        <div className="flex flex-wrap gap-2 px-3 pb-3 max-h-48 overflow-y-auto">
+                          {facet.values.map((option) => {
+                            const active = traitFilter[facet.traitType]?.includes(option.value);
+                            return (
+                              <button
+                                key={option.value}
+                                type="button"
+                                onClick={() =>
+                                  update({
+                                    traits: toggleTraitValue(
+                                      traitFilter,
+                                      facet.traitType,
+                                      option.value
+                                    ),
+                                  })
+                                }
+                                disabled={!active && option.count === 0}
+                                aria-pressed={active}
+                                className={cn(
+                                  "px-2 py-1 border-2 border-border text-sm disabled:opacity-50",
+                                  active && "bg-primary"
+                                )}
+                              >
+                                {option.label}{" "}
+                                <span className="text-muted-foreground">({option.count})</span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </details>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Selected traits, removable while the panel is closed */}
+          {selectedTraits.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {selectedTraits.map(({ traitType, value, label }) => (
+                <button
+                  key={`${traitType}:${value}`}
+                  type="button"
+                  onClick={() =>
+                    update({ traits: toggleTraitValue(traitFilter, traitType, value) })
+                  }
+                  className="flex items-center gap-1 px-2 py-1 border-2 border-border bg-primary text-sm"
+                  aria-label={`Remove ${traitType}: ${value}`}
+                >
+                  {traitType}: {label}
+                  <X className="w-3 h-3" />
+                </button>
+              ))}
             </div>
           )}
         </div>
@@ -215,15 +513,99 @@ export default function ExplorePage() {
               : "No NFTs are currently listed. Check back later!"
           }
         >
-          {filteredListings.map((listing) => (
+          {pageListings.map((listing) => (
             <NFTCard
               key={listing.publicKey.toString()}
               listing={listing}
+              rarity={rarity.get(listing.account.nftMint.toBase58())}
               onBuy={() => handleBuy(listing.account.nftMint.toString())}
             />
           ))}
         </NFTGrid>
+
+        {!loading && pageCount > 1 && (
+          <Pagination
+            page={page}
+            pageCount={pageCount}
+            onChange={(next) => {
+              update({ page: next });
+              window.scrollTo({ top: 0 });
+            }}
+          />
+        )}
       </section>
+
+      {/* Save Search */}
+      <Modal isOpen={saving} onClose={() => setSaving(false)} title="Save Search">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSaveSearch();
+          }}
+          className="space-y-4"
+        >
+          <Input
+            label="Name"
+            placeholder="e.g. Rare blue backgrounds under 2 SOL"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            maxLength={60}
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">
+            Saved searches are kept in this browser for the connected wallet. Saving under an
+            existing name replaces it.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setSaving(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!saveName.trim()}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </Modal>
     </div>
   );
 }
+
+// Helper Components
+
+function Pagination({
+  page,
+  pageCount,
+  onChange,
+}: {
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+}) {
+  return (
+    <nav className="flex items-center justify-center gap-4 mt-8" aria-label="Pagination">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange(page - 1)}
+        disabled={page <= 1}
+        className="gap-1"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        Previous
+      </Button>
+      <span className="font-head text-sm">
+        Page {page} of {pageCount}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange(page + 1)}
+        disabled={page >= pageCount}
+        className="gap-1"
+      >
+        Next
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+    </nav>
+  );
+}
@@ -3,10 +3,10 @@
 import { useState, useEffect, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import Image from "next/image";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useWalletModal } from "@solana/wallet-adapter-react-ui";
 import { PublicKey } from "@solana/web3.js";
+import { BN } from "@coral-xyz/anchor";
 import {
   Button,
   Card,
@@ -18,11 +18,16 @@ import {
   Skeleton,
   TransactionModal,
 } from "@/components/retroui";
-import { useProgram } from "@/hooks/useProgram";
+import { NFTImage } from "@/components/nft";
+import { usePixelMartClient } from "@/hooks/useProgram";
 import { useNFTs } from "@/hooks/useNFTs";
-import { useListings } from "@/hooks/useListings";
-import { listNft, getMarketplace } from "@/lib/program";
-import { truncateAddress } from "@/lib/constants";
+import { useListing } from "@/hooks/useListings";
+import { useMarketplace } from "@/hooks/useMarketplace";
+import { useRoyaltyInfo } from "@/hooks/useRoyalties";
+import { computeSaleBreakdown } from "@/lib/program";
+import { TransactionPreview } from "@/lib/client";
+import { TransactionStage } from "@/lib/transactionManager";
+import { formatSolFixed, truncateAddress } from "@/lib/constants";
 import {
   ArrowLeft,
   ArrowRight,
@@ -33,26 +38,32 @@ import {
   Check,
 } from "lucide-react";
 
-type TransactionState = "idle" | "pending" | "success" | "error";
+type TransactionState = "idle" | "review" | "pending" | "success" | "error";
 
 export default function ListNFTPage() {
   const params = useParams();
   const router = useRouter();
   const mintAddress = params.mintAddress as string;
   
-  const { publicKey, connected } = useWallet();
+  const { connected } = useWallet();
   const { setVisible } = useWalletModal();
-  const program = useProgram();
+  const client = usePixelMartClient();
   
   const { nfts, loading: nftsLoading } = useNFTs();
-  const { listings } = useListings();
+  const { listing } = useListing(mintAddress);
+  const { marketplace, error: marketplaceError } = useMarketplace();
+  const feePercent = marketplace?.feePercent ?? 2; // Default fee
+  const { royalty } = useRoyaltyInfo(mintAddress);
+  const royaltyPercent = (royalty?.sellerFeeBasisPoints ?? 0) / 100;
 
   const [price, setPrice] = useState("");
   const [priceError, setPriceError] = useState("");
-  const [feePercent, setFeePercent] = useState(2); // Default fee
   const [txState, setTxState] = useState<TransactionState>("idle");
   const [txMessage, setTxMessage] = useState("");
   const [txSignature, setTxSignature] = useState("");
+  const [txError, setTxError] = useState<unknown>(null);
+  const [preview, setPreview] = useState<TransactionPreview | null>(null);
+  const [txStage, setTxStage] = useState<TransactionStage | null>(null);
 
   // Find the NFT in user's wallet
   const nft = useMemo(() => {
@@ -60,26 +71,8 @@ export default function ListNFTPage() {
   }, [nfts, mintAddress]);
 
   // Check if already listed
-  const isAlreadyListed = useMemo(() => {
-    return listings.some((l) => l.account.nftMint.toString() === mintAddress);
-  }, [listings, mintAddress]);
+  const isAlreadyListed = listing?.account.isActive ?? false;
 
-  // Fetch marketplace fee on mount
-  useEffect(() => {
-    const fetchFee = async () => {
-      if (program && publicKey) {
-        try {
-          const marketplace = await getMarketplace(program, publicKey);
-          if (marketplace) {
-            setFeePercent(marketplace.feePercent);
-          }
-        } catch (err) {
-          console.error("Failed to fetch marketplace:", err);
-        }
-      }
-    };
-    fetchFee();
-  }, [program, publicKey]);
 
   // Price validation
   useEffect(() => {
@@ -100,21 +93,41 @@ export default function ListNFTPage() {
   }, [price]);
 
   const numPrice = parseFloat(price) || 0;
-  const feeAmount = numPrice * (feePercent / 100);
-  const sellerReceives = numPrice - feeAmount;
+  const priceLamports = Math.floor(numPrice * 1e9);
+  const breakdown = computeSaleBreakdown(
+    new BN(priceLamports),
+    marketplace?.feeBps ?? feePercent * 100,
+    royalty
+  );
+
+  // Simulate the listing and let the seller review rent and fees before the
+  // wallet prompt opens
+  const reviewListing = async () => {
+    if (!client || !nft || !price || priceError) return;
+
+    setPreview(null);
+    setTxState("review");
+
+    try {
+      setPreview(await client.previewListNft(new PublicKey(mintAddress), priceLamports));
+    } catch (err: unknown) {
+      console.error("Preview error:", err);
+      setTxState("error");
+      setTxError(err);
+    }
+  };
 
   const handleList = async () => {
-    if (!program || !nft || !price || priceError) return;
+    if (!client || !nft || !price || priceError) return;
 
     setTxState("pending");
     setTxMessage("Creating listing...");
 
     try {
-      const priceLamports = Math.floor(parseFloat(price) * 1e9);
-      const signature = await listNft(
-        program,
+      const signature = await client.listNft(
         new PublicKey(mintAddress),
-        priceLamports
+        priceLamports,
+        { onStage: setTxStage }
       );
       setTxSignature(signature);
       setTxState("success");
@@ -122,9 +135,7 @@ export default function ListNFTPage() {
     } catch (err: unknown) {
       console.error("List error:", err);
       setTxState("error");
-      setTxMessage(
-        err instanceof Error ? err.message : "Failed to list NFT"
-      );
+      setTxError(err);
     }
   };
 
@@ -135,6 +146,9 @@ export default function ListNFTPage() {
       setTxState("idle");
       setTxMessage("");
       setTxSignature("");
+      setTxError(null);
+      setPreview(null);
+      setTxStage(null);
     }
   };
 
@@ -277,7 +291,7 @@ export default function ListNFTPage() {
               <Card className="overflow-hidden">
                 <div className="relative aspect-square bg-muted">
                   {nft.image ? (
-                    <Image
+                    <NFTImage
                       src={nft.image}
                       alt={nft.name || "NFT"}
                       fill
@@ -377,17 +391,42 @@ export default function ListNFTPage() {
                     <span className="text-muted-foreground">
                       Marketplace Fee ({feePercent}%)
                     </span>
-                    <span className="text-destructive">-{feeAmount.toFixed(4)} SOL</span>
+                    <span className="text-destructive">
+                      -{formatSolFixed(breakdown.marketplaceFee)} SOL
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Creator Royalties ({royaltyPercent}%)
+                    </span>
+                    <span className="text-destructive">
+                      -{formatSolFixed(breakdown.royalties)} SOL
+                    </span>
                   </div>
                   <div className="border-t-2 border-border pt-3 flex justify-between">
                     <span className="font-medium">You'll Receive</span>
                     <span className="font-bold text-green-600 text-lg">
-                      {sellerReceives.toFixed(4)} SOL
+                      {formatSolFixed(breakdown.sellerProceeds)} SOL
                     </span>
                   </div>
+                  {marketplace && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Marketplace</span>
+                      <span className="font-mono">
+                        {truncateAddress(marketplace.marketplacePDA.toString())}
+                      </span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
+              {marketplaceError && (
+                <div className="flex gap-3 p-4 bg-red-50 border-2 border-red-200 text-sm text-red-600">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                  <p>{marketplaceError}</p>
+                </div>
+              )}
+
               {/* Warning */}
               <div className="flex gap-3 p-4 bg-yellow-500/10 border-2 border-yellow-500/30">
                 <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
@@ -406,8 +445,8 @@ export default function ListNFTPage() {
               <Button
                 size="lg"
                 className="w-full gap-2"
-                onClick={handleList}
-                disabled={!price || !!priceError || !program}
+                onClick={reviewListing}
+                disabled={!price || !!priceError || !client}
               >
                 List NFT for Sale
                 <ArrowRight className="w-5 h-5" />
@@ -427,10 +466,14 @@ export default function ListNFTPage() {
             ? "Creating Listing..."
             : txState === "success"
             ? "Listed Successfully!"
-            : "Listing Failed"
+            : undefined
         }
         message={txMessage}
         signature={txSignature}
+        error={txError}
+        preview={preview}
+        onConfirm={handleList}
+        stage={txStage}
       />
     </div>
   );
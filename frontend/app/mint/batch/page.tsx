@@ -0,0 +1,482 @@
+"use client";
+
+import { use, useEffect, useMemo, useRef, useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useWalletModal } from "@solana/wallet-adapter-react-ui";
+import Link from "next/link";
+import { BatchItem, useBatchMint } from "@/hooks/useBatchMint";
+import { useMyCollections } from "@/hooks/useCollections";
+import {
+  BatchRowStatus,
+  UPLOAD_CHUNK_SIZE,
+  batchId,
+  parseManifest,
+  validateBatch,
+} from "@/lib/batchMint";
+import { royaltyPercentToBasisPoints, validateRoyaltyPercent } from "@/lib/creators";
+import { MAX_SYMBOL_LENGTH } from "@/lib/mint";
+import { cn } from "@/lib/utils";
+import { Badge, Button, Card, CardContent, Input } from "@/components/retroui";
+import {
+  ArrowLeft,
+  ExternalLink,
+  FileText,
+  FolderOpen,
+  Pause,
+  Play,
+  Upload,
+  Wallet,
+} from "lucide-react";
+
+const STATUS_LABELS: Record<BatchRowStatus, string> = {
+  pending: "Pending",
+  uploaded: "Uploaded",
+  minting: "Minting",
+  minted: "Minted",
+};
+
+const ACTIVITY_LABELS = {
+  funding: "Funding storage",
+  uploading: "Uploading",
+  minting: "Minting",
+};
+
+function isManifestFile(file: File): boolean {
+  return /\.(csv|json)$/i.test(file.name);
+}
+
+// /mint/batch?collection=<mint> preselects the collection to mint into
+export default function BatchMintPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ collection?: string }>;
+}) {
+  const params = use(searchParams);
+  const { connected, publicKey } = useWallet();
+  const { setVisible } = useWalletModal();
+  const { collections: myCollections } = useMyCollections();
+  const { progress, running, pausing, activity, error, loadBatch, runBatch, pauseBatch } =
+    useBatchMint();
+
+  const [manifest, setManifest] = useState<{ name: string; text: string } | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [defaultSymbol, setDefaultSymbol] = useState("");
+  const [royaltyPercent, setRoyaltyPercent] = useState("5");
+  const [targetCollection, setTargetCollection] = useState(params.collection ?? "");
+  const [dragging, setDragging] = useState(false);
+  const filesRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  const target = myCollections.find((c) => c.mint === targetCollection);
+
+  // Saved progress belongs to the wallet and the collection minted into
+  useEffect(() => {
+    if (publicKey) {
+      loadBatch(batchId(targetCollection || undefined));
+    }
+  }, [publicKey, targetCollection, loadBatch]);
+
+  const parsed = useMemo(
+    () => (manifest ? parseManifest(manifest.text, manifest.name) : null),
+    [manifest]
+  );
+  const rows = useMemo(
+    () =>
+      parsed
+        ? validateBatch(
+            parsed.rows.map((row) => ({ ...row, symbol: row.symbol || defaultSymbol.trim() })),
+            files
+          )
+        : [],
+    [parsed, files, defaultSymbol]
+  );
+
+  const royaltyError = validateRoyaltyPercent(royaltyPercent);
+  const items = useMemo(
+    (): BatchItem[] =>
+      rows.flatMap(({ row, image, animation, sellerFeeBasisPoints, problems }) =>
+        image && problems.length === 0
+          ? [
+              {
+                key: row.key,
+                metadata: {
+                  name: row.name,
+                  symbol: row.symbol,
+                  description: row.description,
+                  image,
+                  animation,
+                  attributes: row.attributes,
+                  sellerFeeBasisPoints:
+                    sellerFeeBasisPoints ?? royaltyPercentToBasisPoints(royaltyPercent),
+                  collection: target && { mint: target.mint, name: target.metadata.name },
+                },
+              },
+            ]
+          : []
+      ),
+    [rows, royaltyPercent, target]
+  );
+
+  const invalidCount = rows.length - items.length;
+  const mintedCount = items.filter((item) => progress?.rows[item.key]?.status === "minted").length;
+  const startedCount = items.filter((item) => progress?.rows[item.key]).length;
+  const remaining = items.length - mintedCount;
+
+  // Picked files are added to those already picked; a CSV or JSON file among
+  // them becomes the manifest
+  const addFiles = async (picked: FileList | null) => {
+    if (!picked) return;
+    const list = Array.from(picked);
+    const manifestFile = list.find(isManifestFile);
+    if (manifestFile) {
+      setManifest({ name: manifestFile.name, text: await manifestFile.text() });
+    }
+    const media = list.filter((file) => !isManifestFile(file));
+    setFiles((prev) => {
+      const names = new Set(media.map((file) => file.name.toLowerCase()));
+      return [...prev.filter((file) => !names.has(file.name.toLowerCase())), ...media];
+    });
+  };
+
+  const handleStart = () => {
+    if (royaltyError || (targetCollection && !target)) return;
+    runBatch(items);
+  };
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-6 py-8">
+        {/* Back Button */}
+        <Link
+          href="/mint"
+          className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span className="text-sm font-medium">Back to Mint</span>
+        </Link>
+
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <Badge variant="secondary" className="mb-4">
+              Batch Mint
+            </Badge>
+            <h1 className="font-head text-3xl font-bold mb-2">Mint a Drop</h1>
+            <p className="text-muted-foreground">
+              Mint up to hundreds of NFTs from a CSV or JSON manifest and their image files.
+              Progress is saved, so a paused or interrupted batch picks up where it stopped.
+            </p>
+          </div>
+
+          {!connected ? (
+            /* Connect Wallet Prompt */
+            <Card>
+              <CardContent className="text-center py-12">
+                <div className="w-16 h-16 mx-auto mb-4 bg-accent flex items-center justify-center border-2 border-border">
+                  <Wallet className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <h2 className="font-head text-xl font-bold mb-2">
+                  Connect Your Wallet
+                </h2>
+                <p className="text-muted-foreground mb-6 max-w-sm mx-auto">
+                  Connect your Solana wallet to start minting NFTs.
+                </p>
+                <div className="flex justify-center">
+                  <Button
+                    onClick={() => setVisible(true)}
+                    className="h-10 px-6 flex items-center gap-2"
+                  >
+                    <Wallet className="w-4 h-4" />
+                    <span>Connect Wallet</span>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              {/* Files */}
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  <div
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      if (!running) setDragging(true);
+                    }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setDragging(false);
+                      if (!running) addFiles(e.dataTransfer.files);
+                    }}
+                    className={cn(
+                      "flex flex-col items-center justify-center gap-3 p-6 border-2 border-dashed border-border bg-background text-center transition-colors",
+                      dragging && "border-primary bg-accent"
+                    )}
+                  >
+                    <Upload className="w-6 h-6 text-muted-foreground" />
+                    <p className="text-sm font-medium">
+                      Drop the manifest and image files here
+                    </p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => filesRef.current?.click()}
+                        disabled={running}
+                        className="flex items-center gap-1"
+                      >
+                        <FileText className="w-4 h-4" />
+                        Choose Files
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => folderRef.current?.click()}
+                        disabled={running}
+                        className="flex items-center gap-1"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                        Choose Folder
+                      </Button>
+                    </div>
+                    <input
+                      ref={filesRef}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        addFiles(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                    <input
+                      // Not in React's input attributes; picks a whole directory
+                      ref={(el) => {
+                        folderRef.current = el;
+                        el?.setAttribute("webkitdirectory", "");
+                      }}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        addFiles(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                    <span>
+                      <span className="text-muted-foreground">Manifest: </span>
+                      {manifest ? manifest.name : "none yet"}
+                    </span>
+                    <span>
+                      <span className="text-muted-foreground">Media files: </span>
+                      {files.length}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    CSV columns: name, image, and optionally symbol, description, animation and
+                    royalty (percent); any other column becomes a trait. JSON: an array of objects
+                    with the same fields and Metaplex-style attributes. Images are matched by file
+                    name.
+                  </p>
+                  {parsed?.errors.map((message) => (
+                    <p key={message} className="text-sm text-red-600">
+                      {message}
+                    </p>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {/* Batch settings */}
+              <Card>
+                <CardContent className="p-6 grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2">
+                    <label className="font-head text-sm font-medium">Collection</label>
+                    <select
+                      value={targetCollection}
+                      onChange={(e) => setTargetCollection(e.target.value)}
+                      disabled={running}
+                      className="w-full h-10 px-3 border-2 border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="">No collection</option>
+                      {targetCollection && !target && (
+                        <option value={targetCollection}>Loading collection…</option>
+                      )}
+                      {myCollections.map((collection) => (
+                        <option key={collection.mint} value={collection.mint}>
+                          {collection.metadata.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="font-head text-sm font-medium">Default symbol</label>
+                    <Input
+                      value={defaultSymbol}
+                      onChange={(e) => setDefaultSymbol(e.target.value)}
+                      placeholder="e.g. PIXEL"
+                      maxLength={MAX_SYMBOL_LENGTH}
+                      disabled={running}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="font-head text-sm font-medium">Default royalty</label>
+                    <div className="relative">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.01}
+                        value={royaltyPercent}
+                        onChange={(e) => setRoyaltyPercent(e.target.value)}
+                        disabled={running}
+                        className="pr-7"
+                      />
+                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                        %
+                      </span>
+                    </div>
+                    {royaltyError && <p className="text-xs text-red-600">{royaltyError}</p>}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Rows */}
+              {rows.length > 0 && (
+                <Card>
+                  <CardContent className="p-6 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div className="text-sm space-x-4">
+                        <span>
+                          <strong>{mintedCount}</strong> of {items.length} minted
+                        </span>
+                        {invalidCount > 0 && (
+                          <span className="text-red-600">
+                            {invalidCount} {invalidCount === 1 ? "row" : "rows"} skipped
+                          </span>
+                        )}
+                        {activity && (
+                          <span className="text-muted-foreground">
+                            {ACTIVITY_LABELS[activity.phase]} {activity.keys.length}{" "}
+                            {activity.keys.length === 1 ? "NFT" : "NFTs"}…
+                          </span>
+                        )}
+                      </div>
+                      {running ? (
+                        <Button
+                          variant="outline"
+                          onClick={pauseBatch}
+                          disabled={pausing}
+                          className="flex items-center gap-2"
+                        >
+                          <Pause className="w-4 h-4" />
+                          {pausing ? "Pausing…" : "Pause"}
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={handleStart}
+                          disabled={
+                            remaining === 0 || !!royaltyError || (!!targetCollection && !target)
+                          }
+                          className="flex items-center gap-2"
+                        >
+                          <Play className="w-4 h-4" />
+                          {startedCount > 0 && remaining > 0
+                            ? `Resume (${remaining} left)`
+                            : `Mint ${remaining} ${remaining === 1 ? "NFT" : "NFTs"}`}
+                        </Button>
+                      )}
+                    </div>
+
+                    {/* Progress bar */}
+                    <div className="h-3 border-2 border-border bg-background">
+                      <div
+                        className="h-full bg-primary transition-all"
+                        style={{
+                          width: `${items.length ? (mintedCount / items.length) * 100 : 0}%`,
+                        }}
+                      />
+                    </div>
+
+                    {error && (
+                      <div className="p-3 bg-red-50 border-2 border-red-500 text-red-700 text-sm">
+                        {error}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Files are uploaded {UPLOAD_CHUNK_SIZE} NFTs at a time, with one storage
+                      top-up per chunk when needed, and your wallet approves each NFT&apos;s
+                      transaction. Rows with problems are skipped; fix the manifest and run it
+                      again to mint them without minting the others twice.
+                    </p>
+
+                    {/* Per-row log */}
+                    <div className="max-h-[32rem] overflow-auto border-2 border-border">
+                      <table className="w-full text-sm">
+                        <thead className="bg-accent sticky top-0">
+                          <tr className="text-left">
+                            <th className="p-2 font-head">#</th>
+                            <th className="p-2 font-head">Name</th>
+                            <th className="p-2 font-head">Image</th>
+                            <th className="p-2 font-head">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {rows.map(({ row, problems }) => {
+                            const state = progress?.rows[row.key];
+                            const active = activity?.keys.includes(row.key);
+                            return (
+                              <tr key={`${row.line}:${row.key}`} className="border-t border-border align-top">
+                                <td className="p-2 text-muted-foreground">{row.line}</td>
+                                <td className="p-2 font-medium">{row.name || "—"}</td>
+                                <td className="p-2 font-mono text-xs break-all">{row.image || "—"}</td>
+                                <td className="p-2">
+                                  {problems.length > 0 ? (
+                                    <span className="text-red-600">{problems.join("; ")}</span>
+                                  ) : (
+                                    <div className="space-y-1">
+                                      <Badge
+                                        variant={state?.status === "minted" ? "success" : "outline"}
+                                        className="text-xs"
+                                      >
+                                        {active && activity
+                                          ? ACTIVITY_LABELS[activity.phase]
+                                          : STATUS_LABELS[state?.status ?? "pending"]}
+                                      </Badge>
+                                      {state?.status === "minted" && state.mint && (
+                                        <a
+                                          href={`https://explorer.solana.com/address/${state.mint}?cluster=devnet`}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          className="flex items-center gap-1 text-xs underline"
+                                        >
+                                          Explorer
+                                          <ExternalLink className="w-3 h-3" />
+                                        </a>
+                                      )}
+                                      {state?.error && state.status !== "minted" && (
+                                        <p className="text-xs text-red-600">{state.error}</p>
+                                      )}
+                                    </div>
+                                  )}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
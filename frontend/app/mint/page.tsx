@@ -1,28 +1,121 @@
 "use client";
 
-import { useState } from "react";
+import { use, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useWalletModal } from "@solana/wallet-adapter-react-ui";
-import { useMintNFT } from "@/hooks/useMintNFT";
-import { Button, Card, CardContent, Input, Badge } from "@/components/retroui";
-import { Wallet, Sparkles, ArrowLeft, ExternalLink } from "lucide-react";
+import { amountToString } from "@metaplex-foundation/umi";
+import { NFTMetadata, useMintNFT } from "@/hooks/useMintNFT";
+import { useKnownCollections, useMyCollections } from "@/hooks/useCollections";
+import {
+  AttributeDraft,
+  collectTraits,
+  toMetadataAttributes,
+  validateAttributes,
+} from "@/lib/attributes";
+import {
+  CreatorDraft,
+  royaltyPercentToBasisPoints,
+  toCreatorSplits,
+  validateCreators,
+  validateRoyaltyPercent,
+} from "@/lib/creators";
+import { UPLOADER, UploadQuote } from "@/lib/uploader";
+import { Button, Card, CardContent, Input, Badge, Modal, TransactionModal } from "@/components/retroui";
+import { AttributeEditor, CreatorSplitEditor, MediaDropzone } from "@/components/nft";
+import { Wallet, Sparkles, ArrowLeft, ExternalLink, Layers } from "lucide-react";
 import Link from "next/link";
 
-export default function MintPage() {
+type MintKind = "nft" | "collection";
+
+// /mint?type=collection opens the collection form; /mint?collection=<mint>
+// preselects the collection to mint into
+export default function MintPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string; collection?: string }>;
+}) {
+  const params = use(searchParams);
   const router = useRouter();
   const { connected, publicKey } = useWallet();
   const { setVisible } = useWalletModal();
-  const { mintNFT, loading, error, setError } = useMintNFT();
+  const { mintNFT, estimateUpload, loading, error, stage, phase, setError } = useMintNFT();
 
+  const [kind, setKind] = useState<MintKind>(params.type === "collection" ? "collection" : "nft");
+  const [targetCollection, setTargetCollection] = useState(params.collection ?? "");
+  const [mintedKind, setMintedKind] = useState<MintKind>("nft");
   const [formData, setFormData] = useState({
     name: "",
     symbol: "",
     description: "",
-    imageUrl: "",
   });
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [mediaFile, setMediaFile] = useState<File | null>(null);
+  const [attributes, setAttributes] = useState<AttributeDraft[]>([]);
+  const [suggestionCollection, setSuggestionCollection] = useState("");
+  const [royaltyPercent, setRoyaltyPercent] = useState("5");
+  // Null until edited: the connected wallet with the full share
+  const [creators, setCreators] = useState<CreatorDraft[] | null>(null);
+  const [quote, setQuote] = useState<UploadQuote | null>(null);
+  const [fundingQuote, setFundingQuote] = useState<UploadQuote | null>(null);
   const [mintedAddress, setMintedAddress] = useState<string | null>(null);
 
+  // Collections the wallet can mint verified items into
+  const { collections: myCollections, refetch: refetchMyCollections } = useMyCollections();
+  const target = myCollections.find((c) => c.mint === targetCollection);
+  const isCollection = kind === "collection";
+
+  // Trait suggestions come from the NFTs of a collection the creator picks,
+  // by default the one being minted into
+  const { collections } = useKnownCollections();
+  const suggestionKey = suggestionCollection || (isCollection ? "" : targetCollection);
+  const traitSuggestions = useMemo(() => {
+    const collection = collections.find((c) => c.key === suggestionKey);
+    return collection ? collectTraits(collection.items.map((item) => item.metadata)) : [];
+  }, [collections, suggestionKey]);
+
+  const creatorRows = creators ?? [{ address: publicKey?.toString() ?? "", share: "100" }];
+
+  const metadata: NFTMetadata | null = imageFile
+    ? {
+        name: formData.name,
+        symbol: formData.symbol,
+        description: formData.description,
+        image: imageFile,
+        sellerFeeBasisPoints: royaltyPercentToBasisPoints(royaltyPercent),
+        creators: toCreatorSplits(creatorRows),
+        ...(isCollection
+          ? { isCollection: true }
+          : {
+              animation: mediaFile ?? undefined,
+              attributes: toMetadataAttributes(attributes),
+              collection: target && { mint: target.mint, name: target.metadata.name },
+            }),
+      }
+    : null;
+
+  // Estimate the storage cost whenever the files change
+  useEffect(() => {
+    if (!connected || !imageFile) return;
+    let cancelled = false;
+    // Names barely change the price; it is dominated by the files
+    estimateUpload({
+      name: "",
+      symbol: "",
+      description: "",
+      image: imageFile,
+      animation: (!isCollection && mediaFile) || undefined,
+    })
+      .then((result) => !cancelled && setQuote(result))
+      .catch((err) => {
+        console.error("Error estimating upload cost:", err);
+        if (!cancelled) setQuote(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connected, imageFile, mediaFile, isCollection, estimateUpload]);
+
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -31,31 +124,72 @@ export default function MintPage() {
   };
 
   const handleMint = async () => {
-    if (!formData.name || !formData.symbol || !formData.imageUrl) {
+    if (!formData.name || !formData.symbol || !metadata) {
       setError("Please fill in all required fields");
       return;
     }
+    if (!isCollection && targetCollection && !target) {
+      setError("You can only mint into collections your wallet is the update authority of");
+      return;
+    }
+    const validationError =
+      (isCollection ? null : validateAttributes(attributes)) ||
+      validateRoyaltyPercent(royaltyPercent) ||
+      validateCreators(creatorRows);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
 
-    const mintAddress = await mintNFT({
-      name: formData.name,
-      symbol: formData.symbol,
-      description: formData.description,
-      image: formData.imageUrl,
-    });
+    // Ask before funding Irys; the upload itself would top up silently
+    try {
+      const latest = await estimateUpload(metadata);
+      setQuote(latest);
+      if (latest.shortfall.basisPoints > 0) {
+        setFundingQuote(latest);
+        return;
+      }
+    } catch (err) {
+      console.error("Error estimating upload cost:", err);
+      setError("Could not estimate the storage cost. Please try again.");
+      return;
+    }
+
+    await mint(metadata);
+  };
 
+  const mint = async (nft: NFTMetadata) => {
+    setFundingQuote(null);
+    const mintAddress = await mintNFT(nft);
     if (mintAddress) {
+      setMintedKind(nft.isCollection ? "collection" : "nft");
       setMintedAddress(mintAddress);
+      // Pick up the new collection, or the new item count
+      refetchMyCollections();
     }
   };
 
+  // Switch to the item form with the just-created collection selected
+  const handleMintIntoCollection = () => {
+    const collection = mintedAddress;
+    handleMintAnother();
+    setKind("nft");
+    setTargetCollection(collection ?? "");
+  };
+
   const handleMintAnother = () => {
     setMintedAddress(null);
     setFormData({
       name: "",
       symbol: "",
       description: "",
-      imageUrl: "",
     });
+    setImageFile(null);
+    setMediaFile(null);
+    setAttributes([]);
+    setRoyaltyPercent("5");
+    setCreators(null);
+    setQuote(null);
   };
 
   return (
@@ -74,11 +208,15 @@ export default function MintPage() {
           {/* Header */}
           <div className="text-center mb-8">
             <Badge variant="secondary" className="mb-4">
-              Create NFT
+              {isCollection ? "Create Collection" : "Create NFT"}
             </Badge>
-            <h1 className="font-head text-3xl font-bold mb-2">Mint Your NFT</h1>
+            <h1 className="font-head text-3xl font-bold mb-2">
+              {isCollection ? "Create a Collection" : "Mint Your NFT"}
+            </h1>
             <p className="text-muted-foreground">
-              Create a new NFT on the Solana blockchain. Once minted, you can list it for sale on PixelMart.
+              {isCollection
+                ? "A collection NFT groups the NFTs minted into it. Items are verified by your wallet as the collection authority."
+                : "Create a new NFT on the Solana blockchain. Once minted, you can list it for sale on PixelMart."}
             </p>
           </div>
 
@@ -112,10 +250,12 @@ export default function MintPage() {
               <CardContent className="text-center py-12">
                 <div className="text-6xl mb-4">🎉</div>
                 <h2 className="font-head text-2xl font-bold mb-2 text-green-600">
-                  NFT Minted Successfully!
+                  {mintedKind === "collection" ? "Collection Created!" : "NFT Minted Successfully!"}
                 </h2>
                 <p className="text-muted-foreground mb-6">
-                  Your NFT has been created on the Solana blockchain.
+                  {mintedKind === "collection"
+                    ? "Your collection NFT has been created. Mint items into it to group them."
+                    : "Your NFT has been created on the Solana blockchain."}
                 </p>
                 
                 <div className="bg-accent p-4 border-2 border-border mb-6 max-w-md mx-auto">
@@ -124,6 +264,15 @@ export default function MintPage() {
                 </div>
 
                 <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+                  {mintedKind === "collection" && (
+                    <Button
+                      onClick={handleMintIntoCollection}
+                      className="h-10 px-6 flex items-center gap-2"
+                    >
+                      <Layers className="w-4 h-4" />
+                      <span>Mint Into Collection</span>
+                    </Button>
+                  )}
                   <Link href={`/list/${mintedAddress}`}>
                     <Button className="h-10 px-6 flex items-center gap-2">
                       <span>List for Sale</span>
@@ -144,37 +293,97 @@ export default function MintPage() {
             /* Mint Form */
             <Card>
               <CardContent className="p-6 space-y-6">
-                {/* Image URL */}
+                {/* What to mint */}
+                <div className="grid grid-cols-2 gap-2">
+                  {(["nft", "collection"] as const).map((option) => (
+                    <Button
+                      key={option}
+                      type="button"
+                      variant={kind === option ? "default" : "outline"}
+                      onClick={() => setKind(option)}
+                      disabled={loading}
+                    >
+                      {option === "nft" ? "NFT" : "Collection"}
+                    </Button>
+                  ))}
+                </div>
+
+                {/* Collection to mint into */}
+                {!isCollection && (
+                  <div className="space-y-2">
+                    <label className="font-head text-sm font-medium">
+                      Collection
+                    </label>
+                    <select
+                      value={targetCollection}
+                      onChange={(e) => setTargetCollection(e.target.value)}
+                      disabled={loading}
+                      className="w-full h-10 px-3 border-2 border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="">No collection</option>
+                      {targetCollection && !target && (
+                        <option value={targetCollection}>Loading collection…</option>
+                      )}
+                      {myCollections.map((collection) => (
+                        <option key={collection.mint} value={collection.mint}>
+                          {collection.metadata.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      {myCollections.length > 0
+                        ? "The item is verified into the collection in the same transaction"
+                        : "Create a collection first to group your NFTs"}
+                    </p>
+                  </div>
+                )}
+
+                {!isCollection && (
+                  <p className="text-sm text-muted-foreground">
+                    Minting a whole drop?{" "}
+                    <Link
+                      href={targetCollection ? `/mint/batch?collection=${targetCollection}` : "/mint/batch"}
+                      className="underline hover:text-foreground"
+                    >
+                      Batch mint from a CSV or JSON manifest
+                    </Link>
+                  </p>
+                )}
+
+                {/* Image */}
                 <div className="space-y-2">
                   <label className="font-head text-sm font-medium">
-                    Image URL <span className="text-red-500">*</span>
+                    Image <span className="text-red-500">*</span>
                   </label>
-                  <Input
-                    name="imageUrl"
-                    value={formData.imageUrl}
-                    onChange={handleInputChange}
-                    placeholder="https://arweave.net/... or IPFS URL"
-                    className="w-full"
+                  <MediaDropzone
+                    file={imageFile}
+                    onChange={setImageFile}
+                    categories={["image"]}
+                    disabled={loading}
                   />
                   <p className="text-xs text-muted-foreground">
-                    Enter a URL to your NFT image (Arweave, IPFS, or any public URL)
+                    {isCollection
+                      ? "The collection's cover image"
+                      : "The NFT's image, and the cover for any media below"}
                   </p>
                 </div>
 
-                {/* Image Preview */}
-                {formData.imageUrl && (
-                  <div className="border-2 border-border p-2 bg-accent">
-                    <div className="aspect-square max-w-[200px] mx-auto bg-background border-2 border-border overflow-hidden">
-                      <img
-                        src={formData.imageUrl}
-                        alt="Preview"
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          (e.target as HTMLImageElement).src = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='200' height='200'%3E%3Crect fill='%23f0f0f0' width='200' height='200'/%3E%3Ctext x='50%25' y='50%25' dominant-baseline='middle' text-anchor='middle' fill='%23999'%3EInvalid URL%3C/text%3E%3C/svg%3E";
-                        }}
-                      />
-                    </div>
-                  </div>
+                {/* Media */}
+                {!isCollection && (
+                <div className="space-y-2">
+                  <label className="font-head text-sm font-medium">
+                    Media
+                  </label>
+                  <MediaDropzone
+                    file={mediaFile}
+                    onChange={setMediaFile}
+                    categories={["video", "audio", "html", "vr"]}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Optional video, audio, HTML or 3D model shown in place of the image on the NFT page
+                  </p>
+                </div>
                 )}
 
                 {/* Name */}
@@ -224,6 +433,74 @@ export default function MintPage() {
                   />
                 </div>
 
+                {/* Attributes */}
+                {!isCollection && (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <label className="font-head text-sm font-medium">
+                      Attributes
+                    </label>
+                    {collections.length > 0 && (
+                      <select
+                        value={suggestionKey}
+                        onChange={(e) => setSuggestionCollection(e.target.value)}
+                        aria-label="Suggest traits from collection"
+                        className="h-8 px-2 text-xs border-2 border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        <option value="">Suggest traits from…</option>
+                        {collections.map((collection) => (
+                          <option key={collection.key} value={collection.key}>
+                            {collection.name}
+                            {collection.verified ? " ✓" : ""} ({collection.items.length})
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  <AttributeEditor
+                    value={attributes}
+                    onChange={setAttributes}
+                    suggestions={traitSuggestions}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Traits such as Background or Level. Boosts show as +N; dates are stored as timestamps.
+                  </p>
+                </div>
+                )}
+
+                {/* Royalties */}
+                <div className="space-y-2">
+                  <label className="font-head text-sm font-medium">
+                    Royalties
+                  </label>
+                  <div className="relative w-32">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.01}
+                      value={royaltyPercent}
+                      onChange={(e) => setRoyaltyPercent(e.target.value)}
+                      disabled={loading}
+                      aria-label="Royalty percentage"
+                      className="pr-7"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                      %
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Paid on every secondary sale and split between the creators below
+                  </p>
+                  <CreatorSplitEditor
+                    value={creatorRows}
+                    onChange={setCreators}
+                    signer={publicKey?.toString()}
+                    disabled={loading}
+                  />
+                </div>
+
                 {/* Error Display */}
                 {error && (
                   <div className="bg-red-50 border-2 border-red-200 p-3 text-red-600 text-sm">
@@ -236,16 +513,23 @@ export default function MintPage() {
                   <h4 className="font-head text-sm font-bold mb-2">ℹ️ Minting Info</h4>
                   <ul className="text-xs text-muted-foreground space-y-1">
                     <li>• Minting creates an NFT on Solana (costs ~0.01 SOL)</li>
+                    <li>
+                      • {UPLOADER === "local"
+                        ? "Files are stored by the local dev server (free)"
+                        : quote
+                          ? `Arweave storage via Irys costs ~${amountToString(quote.price, 6)} SOL`
+                          : "Files are stored permanently on Arweave via Irys"}
+                    </li>
                     <li>• Make sure you have enough SOL for transaction fees</li>
                     <li>• For devnet testing, get free SOL from faucet.solana.com</li>
-                    <li>• 5% royalty is set on secondary sales</li>
+                    <li>• {Number(royaltyPercent) || 0}% royalty is set on secondary sales</li>
                   </ul>
                 </div>
 
                 {/* Mint Button */}
                 <Button
                   onClick={handleMint}
-                  disabled={loading || !formData.name || !formData.symbol || !formData.imageUrl}
+                  disabled={loading || !formData.name || !formData.symbol || !imageFile}
                   className="w-full h-12 text-base flex items-center justify-center gap-2"
                 >
                   {loading ? (
@@ -256,7 +540,7 @@ export default function MintPage() {
                   ) : (
                     <>
                       <Sparkles className="w-5 h-5" />
-                      <span>Mint NFT</span>
+                      <span>{isCollection ? "Create Collection" : "Mint NFT"}</span>
                     </>
                   )}
                 </Button>
@@ -276,20 +560,69 @@ export default function MintPage() {
               >
                 NFT Generator
               </a>
-              {" "}or upload to{" "}
-              <a
-                href="https://nft.storage/"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-primary hover:underline"
-              >
-                NFT.Storage
-              </a>
-              {" "}for free IPFS hosting.
+              .
             </p>
           </div>
         </div>
       </div>
+
+      {/* Funding prompt: Irys needs a balance before it accepts the upload */}
+      <Modal
+        isOpen={!!fundingQuote}
+        onClose={() => setFundingQuote(null)}
+        title="Fund Storage"
+      >
+        {fundingQuote && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Files are stored on Arweave through Irys, which is paid from a prepaid balance.
+              Your wallet will be asked to approve a transfer to top it up before uploading.
+            </p>
+            <div className="bg-accent p-3 border-2 border-border text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Storage cost</span>
+                <span className="font-mono">{amountToString(fundingQuote.price, 6)} SOL</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Irys balance</span>
+                <span className="font-mono">
+                  {fundingQuote.balance ? amountToString(fundingQuote.balance, 6) : "0"} SOL
+                </span>
+              </div>
+              <div className="flex justify-between font-bold">
+                <span>To fund</span>
+                <span className="font-mono">{amountToString(fundingQuote.shortfall, 6)} SOL</span>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setFundingQuote(null)}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={() => metadata && mint(metadata)}>
+                Fund &amp; Mint
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Mint progress; the page shows the result once the mint lands */}
+      <TransactionModal
+        isOpen={loading}
+        onClose={() => {}}
+        status="pending"
+        title="Minting NFT..."
+        message={
+          stage
+            ? undefined
+            : phase === "funding"
+              ? "Approve the storage funding in your wallet..."
+              : UPLOADER === "local"
+                ? "Uploading files..."
+                : "Uploading files to Arweave..."
+        }
+        stage={stage}
+      />
     </div>
   );
 }
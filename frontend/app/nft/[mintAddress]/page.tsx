@@ -3,7 +3,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import Image from "next/image";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { PublicKey } from "@solana/web3.js";
 import {
@@ -16,10 +15,23 @@ import {
   Skeleton,
   TransactionModal,
 } from "@/components/retroui";
-import { useProgram } from "@/hooks/useProgram";
-import { useListing } from "@/hooks/useListings";
-import { buyNft, cancelListing } from "@/lib/program";
-import { formatSol, truncateAddress } from "@/lib/constants";
+import { MediaRenderer, RarityBadge } from "@/components/nft";
+import { usePixelMartClient } from "@/hooks/useProgram";
+import { useListing, useListings } from "@/hooks/useListings";
+import { useMarketplace } from "@/hooks/useMarketplace";
+import { useRarity } from "@/hooks/useRarity";
+import { useVerifyCreator } from "@/hooks/useRoyalties";
+import { PriceChangedError, TransactionPreview } from "@/lib/client";
+import { computeSaleBreakdown, royaltyInfoFromMetadata } from "@/lib/program";
+import { TransactionStage } from "@/lib/transactionManager";
+import { formatSol, formatSolFixed, truncateAddress } from "@/lib/constants";
+import {
+  ATTRIBUTE_VALUE_TYPES,
+  NFTAttribute,
+  attributeValueType,
+  formatAttributeValue,
+} from "@/lib/attributes";
+import { cn } from "@/lib/utils";
 import {
   ArrowLeft,
   ExternalLink,
@@ -30,9 +42,12 @@ import {
   XCircle,
   User,
   Hash,
+  Store,
+  Layers,
+  BadgeCheck,
 } from "lucide-react";
 
-type TransactionState = "idle" | "pending" | "success" | "error";
+type TransactionState = "idle" | "review" | "pending" | "success" | "error";
 
 export default function NFTDetailPage() {
   const params = useParams();
@@ -40,18 +55,32 @@ export default function NFTDetailPage() {
   const mintAddress = params.mintAddress as string;
   
   const { publicKey, connected } = useWallet();
-  const program = useProgram();
+  const client = usePixelMartClient();
   const { listing, loading, error, refetch } = useListing(mintAddress);
+  const { marketplace } = useMarketplace();
+  const verifyCreator = useVerifyCreator();
+  // Ranked within the collection, or among its listings without an index
+  const { listings } = useListings();
+  const { rarity: rarityByMint } = useRarity(listings);
+  const rarity = rarityByMint.get(mintAddress);
 
   const [txState, setTxState] = useState<TransactionState>("idle");
   const [txMessage, setTxMessage] = useState("");
   const [txSignature, setTxSignature] = useState("");
+  const [txError, setTxError] = useState<unknown>(null);
+  const [preview, setPreview] = useState<TransactionPreview | null>(null);
+  const [pendingAction, setPendingAction] = useState<"buy" | "cancel" | null>(null);
+  const [txStage, setTxStage] = useState<TransactionStage | null>(null);
   const [copied, setCopied] = useState<string | null>(null);
 
   const isOwner = listing && publicKey?.equals(listing.account.seller);
-  const price = listing ? listing.account.price.toNumber() / 1e9 : 0;
+  const royalty = royaltyInfoFromMetadata(listing?.metadata);
+  const onChainCollection = listing?.metadata?.onChainCollection;
   const feePercent = listing?.account.feePercent ?? 2; // Default 2%
-  const sellerReceives = price * (1 - feePercent / 100);
+  const breakdown = listing
+    ? computeSaleBreakdown(listing.account.price, marketplace?.feeBps ?? feePercent * 100, royalty)
+    : null;
+  const royaltyPercent = (royalty?.sellerFeeBasisPoints ?? 0) / 100;
 
   const copyToClipboard = useCallback((text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -59,14 +88,53 @@ export default function NFTDetailPage() {
     setTimeout(() => setCopied(null), 2000);
   }, []);
 
+  // Simulate the transaction and let the user review its costs before the
+  // wallet prompt opens
+  const reviewTransaction = async (action: "buy" | "cancel") => {
+    if (!client || !listing) return;
+
+    setPendingAction(action);
+    setPreview(null);
+    setTxState("review");
+
+    try {
+      const mint = new PublicKey(mintAddress);
+      setPreview(
+        action === "buy"
+          ? await client.previewBuyNft(mint, listing.account.price)
+          : await client.previewCancelListing(mint)
+      );
+    } catch (err: unknown) {
+      console.error("Preview error:", err);
+      setTxState("error");
+      setTxError(err);
+      if (err instanceof PriceChangedError) {
+        refetch();
+      }
+    }
+  };
+
+  const confirmTransaction = () => {
+    if (pendingAction === "buy") {
+      handleBuy();
+    } else if (pendingAction === "cancel") {
+      handleCancel();
+    }
+  };
+
   const handleBuy = async () => {
-    if (!program || !listing) return;
+    if (!client || !listing) return;
 
     setTxState("pending");
     setTxMessage("Processing purchase...");
 
     try {
-      const signature = await buyNft(program, new PublicKey(mintAddress));
+      // Pass the displayed price so a repriced listing fails instead of charging more
+      const signature = await client.buyNft(
+        new PublicKey(mintAddress),
+        listing.account.price,
+        { onStage: setTxStage }
+      );
       setTxSignature(signature);
       setTxState("success");
       setTxMessage("NFT purchased successfully!");
@@ -78,20 +146,24 @@ export default function NFTDetailPage() {
     } catch (err: unknown) {
       console.error("Buy error:", err);
       setTxState("error");
-      setTxMessage(
-        err instanceof Error ? err.message : "Transaction failed"
-      );
+      setTxError(err);
+      if (err instanceof PriceChangedError) {
+        // Show the new price behind the modal so the buyer can review it
+        refetch();
+      }
     }
   };
 
   const handleCancel = async () => {
-    if (!program || !listing) return;
+    if (!client || !listing) return;
 
     setTxState("pending");
     setTxMessage("Cancelling listing...");
 
     try {
-      const signature = await cancelListing(program, new PublicKey(mintAddress));
+      const signature = await client.cancelListing(new PublicKey(mintAddress), {
+        onStage: setTxStage,
+      });
       setTxSignature(signature);
       setTxState("success");
       setTxMessage("Listing cancelled successfully!");
@@ -103,9 +175,27 @@ export default function NFTDetailPage() {
     } catch (err: unknown) {
       console.error("Cancel error:", err);
       setTxState("error");
-      setTxMessage(
-        err instanceof Error ? err.message : "Transaction failed"
-      );
+      setTxError(err);
+    }
+  };
+
+  // Co-creators sign the metadata themselves after the mint
+  const handleVerifyCreator = async () => {
+    setTxState("pending");
+    setTxMessage("Verifying you as a creator...");
+
+    try {
+      const signature = await verifyCreator(new PublicKey(mintAddress), {
+        onStage: setTxStage,
+      });
+      setTxSignature(signature);
+      setTxState("success");
+      setTxMessage("You are now a verified creator of this NFT.");
+      refetch();
+    } catch (err: unknown) {
+      console.error("Verify creator error:", err);
+      setTxState("error");
+      setTxError(err);
     }
   };
 
@@ -113,6 +203,10 @@ export default function NFTDetailPage() {
     setTxState("idle");
     setTxMessage("");
     setTxSignature("");
+    setTxError(null);
+    setPreview(null);
+    setPendingAction(null);
+    setTxStage(null);
   };
 
   if (loading) {
@@ -166,15 +260,14 @@ export default function NFTDetailPage() {
       {/* Main Content */}
       <section className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12">
-          {/* Left: Image */}
+          {/* Left: Media */}
           <div className="space-y-4">
             <Card className="overflow-hidden">
               <div className="relative aspect-square bg-muted">
-                {listing.metadata?.image ? (
-                  <Image
-                    src={listing.metadata.image}
-                    alt={listing.metadata.name || "NFT"}
-                    fill
+                {listing.metadata?.image || listing.metadata?.animationUrl ? (
+                  <MediaRenderer
+                    metadata={listing.metadata}
+                    variant="full"
                     className="object-cover"
                     sizes="(max-width: 1024px) 100vw, 50vw"
                     priority
@@ -194,22 +287,28 @@ export default function NFTDetailPage() {
             {listing.metadata?.attributes && listing.metadata.attributes.length > 0 && (
               <Card>
                 <CardHeader>
-                  <CardTitle>Attributes</CardTitle>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle>Attributes</CardTitle>
+                    {rarity && <RarityBadge rarity={rarity} size="md" />}
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
                     {listing.metadata.attributes.map((attr, i) => (
-                      <div
+                      <AttributeTile
                         key={i}
-                        className="p-3 border-2 border-border bg-muted/50 text-center"
-                      >
-                        <p className="text-xs text-muted-foreground uppercase tracking-wide">
-                          {attr.trait_type}
-                        </p>
-                        <p className="font-bold truncate">{attr.value}</p>
-                      </div>
+                        attribute={attr}
+                        share={rarity?.traitShares[attr.trait_type]}
+                      />
                     ))}
                   </div>
+                  {rarity && (
+                    <p className="text-xs text-muted-foreground mt-4">
+                      Rarity rank {rarity.rank} of {rarity.total}
+                      {rarity.complete ? "" : " listed items"} · score{" "}
+                      {rarity.score.toFixed(1)} · statistical rank {rarity.statisticalRank}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -254,7 +353,7 @@ export default function NFTDetailPage() {
                     variant="destructive"
                     className="w-full gap-2"
                     size="lg"
-                    onClick={handleCancel}
+                    onClick={() => reviewTransaction("cancel")}
                   >
                     <XCircle className="w-5 h-5" />
                     Cancel Listing
@@ -263,7 +362,7 @@ export default function NFTDetailPage() {
                   <Button
                     className="w-full gap-2"
                     size="lg"
-                    onClick={handleBuy}
+                    onClick={() => reviewTransaction("buy")}
                   >
                     <ShoppingCart className="w-5 h-5" />
                     Buy Now
@@ -286,17 +385,108 @@ export default function NFTDetailPage() {
                   <span className="text-muted-foreground">
                     Marketplace Fee ({feePercent}%)
                   </span>
-                  <span>{(price * feePercent / 100).toFixed(4)} SOL</span>
+                  <span>{formatSolFixed(breakdown?.marketplaceFee)} SOL</span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Creator Royalties ({royaltyPercent}%)
+                  </span>
+                  <span>{formatSolFixed(breakdown?.royalties)} SOL</span>
+                </div>
+                {breakdown?.creatorPayouts.map((payout) => (
+                  <div
+                    key={payout.address.toString()}
+                    className="flex justify-between text-sm pl-4"
+                  >
+                    <span className="text-muted-foreground font-mono">
+                      {truncateAddress(payout.address.toString())}
+                    </span>
+                    <span>{formatSolFixed(payout.amount)} SOL</span>
+                  </div>
+                ))}
                 <div className="border-t-2 border-border pt-3 flex justify-between">
                   <span className="text-muted-foreground">Seller Receives</span>
                   <span className="font-bold text-green-600">
-                    {sellerReceives.toFixed(4)} SOL
+                    {formatSolFixed(breakdown?.sellerProceeds)} SOL
                   </span>
                 </div>
               </CardContent>
             </Card>
 
+            {/* Creators & Collection */}
+            {(royalty || onChainCollection) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Creators & Collection</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {royalty && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Creator Royalty</span>
+                      <span className="font-bold">{royaltyPercent}%</span>
+                    </div>
+                  )}
+                  {royalty?.creators.map((creator) => {
+                    const address = creator.address.toString();
+                    return (
+                      <div key={address} className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => copyToClipboard(address, address)}
+                            className="flex items-center gap-2 font-mono text-sm hover:text-primary transition-colors"
+                            title={address}
+                          >
+                            {truncateAddress(address)}
+                            {copied === address ? (
+                              <Check className="w-4 h-4 text-green-600" />
+                            ) : (
+                              <Copy className="w-4 h-4" />
+                            )}
+                          </button>
+                          <VerifiedBadge verified={creator.verified} />
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {!creator.verified && publicKey?.equals(creator.address) && (
+                            <Button size="sm" onClick={handleVerifyCreator}>
+                              Verify
+                            </Button>
+                          )}
+                          <span className="text-sm">{creator.share}% share</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {onChainCollection && (
+                    <div className="border-t-2 border-border pt-4 space-y-2">
+                      <DetailRow
+                        icon={<Layers className="w-4 h-4" />}
+                        label={listing.metadata?.collection?.name ?? "Collection"}
+                        value={truncateAddress(onChainCollection.address.toString())}
+                        fullValue={onChainCollection.address.toString()}
+                        copied={copied === "collection"}
+                        onCopy={() =>
+                          copyToClipboard(onChainCollection.address.toString(), "collection")
+                        }
+                      />
+                      <div className="flex items-center justify-between gap-4">
+                        {onChainCollection.verified ? (
+                          <Link
+                            href={`/collection/${onChainCollection.address.toString()}`}
+                            className="text-sm underline hover:text-primary"
+                          >
+                            View collection
+                          </Link>
+                        ) : (
+                          <span />
+                        )}
+                        <VerifiedBadge verified={onChainCollection.verified} />
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Details */}
             <Card>
               <CardHeader>
@@ -321,6 +511,51 @@ export default function NFTDetailPage() {
                     copyToClipboard(listing.account.seller.toString(), "seller")
                   }
                 />
+                {listing.metadata?.updateAuthority && (
+                  <DetailRow
+                    icon={<User className="w-4 h-4" />}
+                    label="Update Authority"
+                    value={truncateAddress(listing.metadata.updateAuthority.toString())}
+                    fullValue={listing.metadata.updateAuthority.toString()}
+                    copied={copied === "authority"}
+                    onCopy={() =>
+                      copyToClipboard(listing.metadata!.updateAuthority!.toString(), "authority")
+                    }
+                  />
+                )}
+                {listing.metadata?.tokenStandard && (
+                  <InfoRow label="Token Standard" value={listing.metadata.tokenStandard} />
+                )}
+                {listing.metadata?.isMutable !== undefined && (
+                  <InfoRow
+                    label="Metadata"
+                    value={listing.metadata.isMutable ? "Mutable" : "Immutable"}
+                  />
+                )}
+                {listing.metadata?.primarySaleHappened !== undefined && (
+                  <InfoRow
+                    label="Primary Sale"
+                    value={listing.metadata.primarySaleHappened ? "Completed" : "Not yet"}
+                  />
+                )}
+                {listing.metadata?.uses && (
+                  <InfoRow
+                    label={`Uses (${listing.metadata.uses.useMethod})`}
+                    value={`${listing.metadata.uses.remaining} / ${listing.metadata.uses.total}`}
+                  />
+                )}
+                {marketplace && (
+                  <DetailRow
+                    icon={<Store className="w-4 h-4" />}
+                    label="Marketplace"
+                    value={truncateAddress(marketplace.marketplacePDA.toString())}
+                    fullValue={marketplace.marketplacePDA.toString()}
+                    copied={copied === "marketplace"}
+                    onCopy={() =>
+                      copyToClipboard(marketplace.marketplacePDA.toString(), "marketplace")
+                    }
+                  />
+                )}
                 <DetailRow
                   icon={<ExternalLink className="w-4 h-4" />}
                   label="View on Explorer"
@@ -343,10 +578,14 @@ export default function NFTDetailPage() {
             ? "Processing..."
             : txState === "success"
             ? "Success!"
-            : "Transaction Failed"
+            : undefined
         }
         message={txMessage}
         signature={txSignature}
+        error={txError}
+        preview={preview}
+        onConfirm={confirmTransaction}
+        stage={txStage}
       />
     </div>
   );
@@ -405,6 +644,68 @@ function DetailRow({
   );
 }
 
+function InfoRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-sm font-medium">{value}</span>
+    </div>
+  );
+}
+
+// One attribute, shown according to its display type: boosts in green,
+// dates formatted and bounded numbers with a bar. The share is the fraction
+// of the collection with the same value.
+function AttributeTile({ attribute, share }: { attribute: NFTAttribute; share?: number }) {
+  const type = attributeValueType(attribute);
+  const { value, max_value } = attribute;
+  const fraction =
+    typeof value === "number" && max_value ? Math.min(Math.max(value / max_value, 0), 1) : null;
+
+  return (
+    <div className="p-3 border-2 border-border bg-muted/50 text-center">
+      <p className="text-xs text-muted-foreground uppercase tracking-wide truncate">
+        {attribute.trait_type}
+      </p>
+      <p
+        className={cn("font-bold truncate", type === "boost" && "text-green-600")}
+        title={String(value)}
+      >
+        {formatAttributeValue(attribute)}
+      </p>
+      {fraction !== null && (
+        <div className="h-1.5 mt-2 bg-background border border-border">
+          <div className="h-full bg-primary" style={{ width: `${fraction * 100}%` }} />
+        </div>
+      )}
+      {type !== "string" && (
+        <p className="text-[10px] text-muted-foreground mt-1">{ATTRIBUTE_VALUE_TYPES[type]}</p>
+      )}
+      {share !== undefined && (
+        <p className="text-[10px] text-muted-foreground mt-1">
+          {formatShare(share)} have this
+        </p>
+      )}
+    </div>
+  );
+}
+
+function formatShare(share: number): string {
+  const percent = share * 100;
+  return `${percent < 1 ? percent.toFixed(1) : Math.round(percent)}%`;
+}
+
+function VerifiedBadge({ verified }: { verified: boolean }) {
+  return verified ? (
+    <Badge variant="outline" className="gap-1">
+      <BadgeCheck className="w-3 h-3" />
+      Verified
+    </Badge>
+  ) : (
+    <Badge variant="secondary">Unverified</Badge>
+  );
+}
+
 function LoadingSkeleton() {
   return (
     <div className="min-h-screen">
@@ -2,7 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import Image from "next/image";
+import Link from "next/link";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useWalletModal } from "@solana/wallet-adapter-react-ui";
 import {
@@ -18,9 +18,12 @@ import {
   TabsContent,
   Skeleton,
 } from "@/components/retroui";
-import { NFTGrid, NFTCard } from "@/components/nft";
-import { useListings } from "@/hooks/useListings";
+import { NFTGrid, NFTCard, MediaRenderer, NFTImage } from "@/components/nft";
+import { useSellerListings } from "@/hooks/useListings";
 import { useNFTs } from "@/hooks/useNFTs";
+import { KnownNFT, useMyCollections } from "@/hooks/useCollections";
+import { NFTAttribute, formatAttributeValue } from "@/lib/attributes";
+import { MetadataFile } from "@/lib/media";
 import { truncateAddress, formatSol } from "@/lib/constants";
 import {
   Wallet,
@@ -30,6 +33,8 @@ import {
   Image as ImageIcon,
   Tag,
   RefreshCw,
+  Layers,
+  Plus,
 } from "lucide-react";
 
 export default function ProfilePage() {
@@ -40,15 +45,18 @@ export default function ProfilePage() {
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState("owned");
 
-  // Fetch all listings and user's owned NFTs
-  const { listings, loading: listingsLoading, refetch: refetchListings } = useListings();
+  // Fetch the user's listings and owned NFTs
+  const {
+    listings: myListings,
+    loading: listingsLoading,
+    refetch: refetchListings,
+  } = useSellerListings(publicKey?.toString() ?? null);
   const { nfts, loading: nftsLoading, refetch: refetchNFTs } = useNFTs();
-
-  // Filter listings to show only user's listings
-  const myListings = useMemo(() => {
-    if (!publicKey) return [];
-    return listings.filter((l) => l.account.seller.equals(publicKey));
-  }, [listings, publicKey]);
+  const {
+    collections: myCollections,
+    loading: collectionsLoading,
+    refetch: refetchCollections,
+  } = useMyCollections();
 
   // Filter owned NFTs to exclude those already listed
   const listedMints = useMemo(() => {
@@ -70,6 +78,7 @@ export default function ProfilePage() {
   const handleRefresh = () => {
     refetchListings();
     refetchNFTs();
+    refetchCollections();
   };
 
   // Not connected state
@@ -201,6 +210,10 @@ export default function ProfilePage() {
               <Tag className="w-4 h-4" />
               Listed ({myListings.length})
             </TabsTrigger>
+            <TabsTrigger value="collections" className="gap-2">
+              <Layers className="w-4 h-4" />
+              Collections ({myCollections.length})
+            </TabsTrigger>
           </TabsList>
 
           {/* Owned NFTs Tab */}
@@ -265,6 +278,46 @@ export default function ProfilePage() {
               </NFTGrid>
             )}
           </TabsContent>
+
+          {/* My Collections Tab */}
+          <TabsContent value="collections">
+            {collectionsLoading ? (
+              <NFTGrid loading={true} />
+            ) : myCollections.length === 0 ? (
+              <EmptyState
+                icon="🗂️"
+                title="No Collections"
+                description="Create a collection NFT, then mint items into it to group them."
+                action={
+                  <Button onClick={() => router.push("/mint?type=collection")}>
+                    Create Collection
+                  </Button>
+                }
+              />
+            ) : (
+              <div className="space-y-4">
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push("/mint?type=collection")}
+                    className="gap-2"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Create Collection
+                  </Button>
+                </div>
+                <NFTGrid>
+                  {myCollections.map((collection) => (
+                    <CollectionCard
+                      key={collection.mint}
+                      collection={collection}
+                      onMint={() => router.push(`/mint?collection=${collection.mint}`)}
+                    />
+                  ))}
+                </NFTGrid>
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </section>
     </div>
@@ -332,9 +385,12 @@ function OwnedNFTCard({
     mint: string;
     name?: string;
     image?: string;
+    animationUrl?: string;
+    files?: MetadataFile[];
+    category?: string;
     description?: string;
     symbol?: string;
-    attributes?: Array<{ trait_type: string; value: string }>;
+    attributes?: NFTAttribute[];
     collection?: { name: string; family?: string };
   };
   onList: () => void;
@@ -343,11 +399,8 @@ function OwnedNFTCard({
     <Card className="overflow-hidden group hover:border-primary transition-colors">
       <div className="relative aspect-square bg-muted">
         {nft.image ? (
-          <Image
-            src={nft.image}
-            alt={nft.name || "NFT"}
-            fill
-            loading="eager"
+          <MediaRenderer
+            metadata={nft}
             className="object-cover"
             sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
           />
@@ -394,7 +447,7 @@ function OwnedNFTCard({
             <div className="flex flex-wrap gap-1">
               {nft.attributes.slice(0, 4).map((attr, index) => (
                 <Badge key={index} variant="outline" className="text-xs">
-                  {attr.trait_type}: {attr.value}
+                  {attr.trait_type}: {formatAttributeValue(attr)}
                 </Badge>
               ))}
               {nft.attributes.length > 4 && (
@@ -427,3 +480,91 @@ function OwnedNFTCard({
     </Card>
   );
 }
+
+function CollectionCard({
+  collection,
+  onMint,
+}: {
+  collection: KnownNFT & { size: number | null; items: KnownNFT[] };
+  onMint: () => void;
+}) {
+  // Unsized collections only count the items the app has seen
+  const count = collection.size ?? collection.items.length;
+
+  return (
+    <Card className="overflow-hidden hover:border-primary transition-colors">
+      <div className="relative aspect-square bg-muted">
+        <NFTImage
+          src={collection.metadata.image}
+          alt={collection.metadata.name}
+          fill
+          className="object-cover"
+          sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
+        />
+      </div>
+      <CardContent className="pt-4 pb-4 space-y-3">
+        <div>
+          <Link href={`/collection/${collection.mint}`}>
+            <h3 className="font-head font-bold truncate hover:text-primary transition-colors">
+              {collection.metadata.name || "Unnamed Collection"}
+            </h3>
+          </Link>
+          <p className="text-xs text-muted-foreground">
+            {count} {count === 1 ? "item" : "items"}
+            {collection.metadata.symbol && ` · ${collection.metadata.symbol}`}
+          </p>
+        </div>
+
+        {/* Items */}
+        {collection.items.length > 0 ? (
+          <div className="grid grid-cols-4 gap-1">
+            {collection.items.slice(0, 8).map((item) => (
+              <a
+                key={item.mint}
+                // Only listed NFTs have a marketplace page
+                href={
+                  item.listing
+                    ? `/nft/${item.mint}`
+                    : `https://explorer.solana.com/address/${item.mint}?cluster=devnet`
+                }
+                title={item.metadata.name}
+                className="relative aspect-square border-2 border-border bg-muted overflow-hidden hover:border-primary"
+              >
+                <NFTImage
+                  src={item.metadata.image}
+                  alt={item.metadata.name}
+                  fill
+                  className="object-cover"
+                  sizes="64px"
+                />
+              </a>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No items minted yet</p>
+        )}
+        {collection.items.length > 8 && (
+          <p className="text-xs text-muted-foreground">+{collection.items.length - 8} more</p>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center gap-2 pt-2 border-t-2 border-border">
+          <a
+            href={`https://explorer.solana.com/address/${collection.mint}?cluster=devnet`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex-1"
+          >
+            <Button variant="outline" size="sm" className="w-full gap-2">
+              <ExternalLink className="w-3 h-3" />
+              Explorer
+            </Button>
+          </a>
+          <Button size="sm" onClick={onMint} className="flex-1">
+            Mint Item
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useId } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button, Input } from "@/components/retroui";
+import {
+  ATTRIBUTE_VALUE_TYPES,
+  AttributeDraft,
+  AttributeValueType,
+  TraitSuggestion,
+} from "@/lib/attributes";
+
+interface AttributeEditorProps {
+  value: AttributeDraft[];
+  onChange: (value: AttributeDraft[]) => void;
+  // Traits from the chosen collection, offered as names and values
+  suggestions?: TraitSuggestion[];
+  disabled?: boolean;
+}
+
+const INPUT_TYPES: Record<AttributeValueType, string> = {
+  string: "text",
+  number: "number",
+  boost: "number",
+  date: "date",
+};
+
+// Editable list of NFT attributes: a trait name, a value type and a value
+// per row, with trait names and values suggested from a collection
+export function AttributeEditor({
+  value,
+  onChange,
+  suggestions = [],
+  disabled,
+}: AttributeEditorProps) {
+  const listId = useId();
+
+  const update = (index: number, changes: Partial<AttributeDraft>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const changeTraitType = (index: number, traitType: string) => {
+    // Picking a known trait adopts the type the collection uses for it
+    const known = suggestions.find((s) => s.traitType === traitType);
+    update(index, known && !value[index].value ? { traitType, type: known.type } : { traitType });
+  };
+
+  const used = new Set(value.map((row) => row.traitType));
+  const unusedSuggestions = suggestions.filter((s) => !used.has(s.traitType));
+
+  return (
+    <div className="space-y-3">
+      <datalist id={`${listId}-traits`}>
+        {suggestions.map((s) => (
+          <option key={s.traitType} value={s.traitType} />
+        ))}
+      </datalist>
+
+      {value.map((row, index) => {
+        const known = suggestions.find((s) => s.traitType === row.traitType);
+        const valuesId = `${listId}-values-${index}`;
+        return (
+          <div key={index} className="flex flex-col sm:flex-row gap-2">
+            <Input
+              value={row.traitType}
+              onChange={(e) => changeTraitType(index, e.target.value)}
+              placeholder="Trait (e.g. Background)"
+              list={`${listId}-traits`}
+              disabled={disabled}
+              aria-label="Trait name"
+            />
+            <select
+              value={row.type}
+              onChange={(e) =>
+                update(index, { type: e.target.value as AttributeValueType, value: "" })
+              }
+              disabled={disabled}
+              aria-label="Value type"
+              className="h-10 px-2 border-2 border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {Object.entries(ATTRIBUTE_VALUE_TYPES).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <Input
+              type={INPUT_TYPES[row.type]}
+              step="any"
+              value={row.value}
+              onChange={(e) => update(index, { value: e.target.value })}
+              placeholder={row.type === "boost" ? "e.g. 10" : "Value"}
+              list={known && known.type === row.type ? valuesId : undefined}
+              disabled={disabled}
+              aria-label="Value"
+            />
+            {known && (
+              <datalist id={valuesId}>
+                {known.values.map((v) => (
+                  <option key={v} value={v} />
+                ))}
+              </datalist>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              disabled={disabled}
+              aria-label="Remove attribute"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { traitType: "", type: "string", value: "" }])}
+          disabled={disabled}
+          className="flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add attribute
+        </Button>
+        {/* One-click rows for the collection's traits not yet added */}
+        {unusedSuggestions.slice(0, 6).map((s) => (
+          <button
+            key={s.traitType}
+            type="button"
+            onClick={() => onChange([...value, { traitType: s.traitType, type: s.type, value: "" }])}
+            disabled={disabled}
+            className="px-2 py-1 text-xs border-2 border-dashed border-border hover:border-primary transition-colors"
+          >
+            + {s.traitType}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
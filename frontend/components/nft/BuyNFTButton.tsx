@@ -4,13 +4,18 @@ import { useState } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useWalletModal } from "@solana/wallet-adapter-react-ui";
 import { Button, TransactionModal } from "@/components/retroui";
-import { useProgram } from "@/hooks/useProgram";
-import { buyNft, ListingWithMetadata } from "@/lib/program";
+import { usePixelMartClient } from "@/hooks/useProgram";
+import { ListingWithMetadata } from "@/lib/program";
+import { PriceChangedError, TransactionPreview } from "@/lib/client";
+import { TransactionStage } from "@/lib/transactionManager";
 import { formatSol } from "@/lib/constants";
 
 interface BuyNFTButtonProps {
   listing: ListingWithMetadata;
   onSuccess?: () => void;
+  // The listing was repriced; the parent should refetch it so the buyer
+  // reviews and pays the new price
+  onPriceChanged?: () => void;
   className?: string;
   size?: "sm" | "md" | "lg";
 }
@@ -18,20 +23,24 @@ interface BuyNFTButtonProps {
 export function BuyNFTButton({ 
   listing, 
   onSuccess, 
+  onPriceChanged,
   className,
   size = "lg" 
 }: BuyNFTButtonProps) {
   const { connected, publicKey } = useWallet();
   const { setVisible } = useWalletModal();
-  const program = useProgram();
+  const client = usePixelMartClient();
   
   const [loading, setLoading] = useState(false);
   const [txStatus, setTxStatus] = useState<{
     isOpen: boolean;
-    status: "pending" | "success" | "error";
+    status: "review" | "pending" | "success" | "error";
     message?: string;
     signature?: string;
+    error?: unknown;
+    preview?: TransactionPreview;
   }>({ isOpen: false, status: "pending" });
+  const [txStage, setTxStage] = useState<TransactionStage | null>(null);
 
   const { account } = listing;
   const isSeller = publicKey?.equals(account.seller);
@@ -42,7 +51,7 @@ export function BuyNFTButton({
       return;
     }
 
-    if (!program || !publicKey) {
+    if (!client || !publicKey) {
       setTxStatus({
         isOpen: true,
         status: "error",
@@ -60,11 +69,39 @@ export function BuyNFTButton({
       return;
     }
 
+    // Simulate first so the buyer reviews the total before signing
+    try {
+      setLoading(true);
+      setTxStatus({ isOpen: true, status: "review" });
+      const preview = await client.previewBuyNft(account.nftMint, account.price);
+      setTxStatus({ isOpen: true, status: "review", preview });
+    } catch (err: unknown) {
+      console.error("Error previewing purchase:", err);
+      setTxStatus({
+        isOpen: true,
+        status: "error",
+        error: err,
+      });
+      if (err instanceof PriceChangedError) {
+        onPriceChanged?.();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmBuy = async () => {
+    if (!client) return;
+
     try {
       setLoading(true);
       setTxStatus({ isOpen: true, status: "pending" });
+      setTxStage(null);
 
-      const signature = await buyNft(program, account.nftMint);
+      // Pass the displayed price so a repriced listing fails instead of charging more
+      const signature = await client.buyNft(account.nftMint, account.price, {
+        onStage: setTxStage,
+      });
 
       setTxStatus({
         isOpen: true,
@@ -79,8 +116,11 @@ export function BuyNFTButton({
       setTxStatus({
         isOpen: true,
         status: "error",
-        message: err instanceof Error ? err.message : "Failed to buy NFT",
+        error: err,
       });
+      if (err instanceof PriceChangedError) {
+        onPriceChanged?.();
+      }
     } finally {
       setLoading(false);
     }
@@ -111,6 +151,10 @@ export function BuyNFTButton({
         status={txStatus.status}
         message={txStatus.message}
         txSignature={txStatus.signature}
+        error={txStatus.error}
+        preview={txStatus.preview}
+        onConfirm={confirmBuy}
+        stage={txStage}
       />
     </>
   );
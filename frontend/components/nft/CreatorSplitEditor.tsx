@@ -0,0 +1,88 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button, Input } from "@/components/retroui";
+import { CreatorDraft, MAX_CREATORS } from "@/lib/creators";
+
+interface CreatorSplitEditorProps {
+  value: CreatorDraft[];
+  onChange: (value: CreatorDraft[]) => void;
+  // The minting wallet, which is verified at mint
+  signer?: string;
+  disabled?: boolean;
+}
+
+// Creator addresses with their percentage of the royalties
+export function CreatorSplitEditor({ value, onChange, signer, disabled }: CreatorSplitEditorProps) {
+  const total = value.reduce((sum, row) => sum + (Number(row.share) || 0), 0);
+
+  const update = (index: number, changes: Partial<CreatorDraft>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={row.address}
+            onChange={(e) => update(index, { address: e.target.value })}
+            placeholder="Creator wallet address"
+            disabled={disabled}
+            aria-label="Creator address"
+            className="font-mono text-sm"
+          />
+          <div className="relative w-28 shrink-0">
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={row.share}
+              onChange={(e) => update(index, { share: e.target.value })}
+              disabled={disabled}
+              aria-label="Share"
+              className="pr-7"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+              %
+            </span>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled || value.length === 1}
+            aria-label="Remove creator"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { address: "", share: "0" }])}
+          disabled={disabled || value.length >= MAX_CREATORS}
+          className="flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add creator
+        </Button>
+        <span className={total === 100 ? "text-xs text-muted-foreground" : "text-xs text-red-600"}>
+          Total {total}% of 100%
+        </span>
+      </div>
+      {value.some((row) => row.address.trim() && row.address.trim() !== signer) && (
+        <p className="text-xs text-muted-foreground">
+          Co-creators start unverified and are not paid royalties until they verify
+          themselves from the NFT&apos;s page.
+        </p>
+      )}
+    </div>
+  );
+}
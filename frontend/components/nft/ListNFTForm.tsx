@@ -4,15 +4,20 @@ import { useState, useEffect } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useWalletModal } from "@solana/wallet-adapter-react-ui";
 import { PublicKey } from "@solana/web3.js";
+import { BN } from "@coral-xyz/anchor";
 import { Button, Card, CardContent, Input, TransactionModal } from "@/components/retroui";
-import { useProgram } from "@/hooks/useProgram";
+import { usePixelMartClient } from "@/hooks/useProgram";
+import { useMarketplace } from "@/hooks/useMarketplace";
+import { useRoyaltyInfo } from "@/hooks/useRoyalties";
+import { computeSaleBreakdown } from "@/lib/program";
+import { TransactionPreview } from "@/lib/client";
+import { TransactionStage } from "@/lib/transactionManager";
 import { 
   formatSol,
   LAMPORTS_PER_SOL, 
   MARKETPLACE_FEE_BPS,
   MAX_PRICE_SOL 
 } from "@/lib/constants";
-import { listNft } from "@/lib/program";
 
 interface ListNFTFormProps {
   mintAddress: string;
@@ -23,22 +28,27 @@ interface ListNFTFormProps {
 export function ListNFTForm({ mintAddress, tokenAccount, onSuccess }: ListNFTFormProps) {
   const { connected, publicKey } = useWallet();
   const { setVisible } = useWalletModal();
-  const program = useProgram();
+  const client = usePixelMartClient();
+  const { marketplace } = useMarketplace();
+  const feeBps = marketplace?.feeBps ?? MARKETPLACE_FEE_BPS;
+  const { royalty } = useRoyaltyInfo(mintAddress);
   
   const [price, setPrice] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [txStatus, setTxStatus] = useState<{
     isOpen: boolean;
-    status: "pending" | "success" | "error";
+    status: "review" | "pending" | "success" | "error";
     message?: string;
     signature?: string;
+    error?: unknown;
+    preview?: TransactionPreview;
   }>({ isOpen: false, status: "pending" });
+  const [txStage, setTxStage] = useState<TransactionStage | null>(null);
 
   // Calculate fees
   const priceInLamports = parseFloat(price || "0") * LAMPORTS_PER_SOL;
-  const feeAmount = (priceInLamports * MARKETPLACE_FEE_BPS) / 10000;
-  const sellerReceives = priceInLamports - feeAmount;
+  const breakdown = computeSaleBreakdown(new BN(Math.floor(priceInLamports)), feeBps, royalty);
 
   const validatePrice = (): boolean => {
     const numPrice = parseFloat(price);
@@ -60,7 +70,7 @@ export function ListNFTForm({ mintAddress, tokenAccount, onSuccess }: ListNFTFor
       return;
     }
 
-    if (!program || !publicKey) {
+    if (!client || !publicKey) {
       setError("Wallet not connected");
       return;
     }
@@ -69,17 +79,42 @@ export function ListNFTForm({ mintAddress, tokenAccount, onSuccess }: ListNFTFor
       return;
     }
 
+    // Simulate first so the seller reviews rent and fees before signing
+    try {
+      setLoading(true);
+      setTxStatus({ isOpen: true, status: "review" });
+      const preview = await client.previewListNft(
+        new PublicKey(mintAddress),
+        Math.floor(parseFloat(price) * 1e9)
+      );
+      setTxStatus({ isOpen: true, status: "review", preview });
+    } catch (err: unknown) {
+      console.error("Error previewing listing:", err);
+      setTxStatus({
+        isOpen: true,
+        status: "error",
+        error: err,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmList = async () => {
+    if (!client) return;
+
     try {
       setLoading(true);
       setTxStatus({ isOpen: true, status: "pending" });
+      setTxStage(null);
 
       const nftMint = new PublicKey(mintAddress);
       const priceInLamports = Math.floor(parseFloat(price) * 1e9);
       
-      const signature = await listNft(
-        program,
+      const signature = await client.listNft(
         nftMint,
-        priceInLamports
+        priceInLamports,
+        { onStage: setTxStage }
       );
 
       setTxStatus({
@@ -95,7 +130,7 @@ export function ListNFTForm({ mintAddress, tokenAccount, onSuccess }: ListNFTFor
       setTxStatus({
         isOpen: true,
         status: "error",
-        message: err instanceof Error ? err.message : "Failed to list NFT",
+        error: err,
       });
     } finally {
       setLoading(false);
@@ -132,13 +167,25 @@ export function ListNFTForm({ mintAddress, tokenAccount, onSuccess }: ListNFTFor
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">
-                  Platform fee ({MARKETPLACE_FEE_BPS / 100}%)
+                  Platform fee ({feeBps / 100}%)
+                </span>
+                <span className="text-destructive">
+                  -{formatSol(breakdown.marketplaceFee.toNumber())} SOL
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Creator royalties ({(royalty?.sellerFeeBasisPoints ?? 0) / 100}%)
+                </span>
+                <span className="text-destructive">
+                  -{formatSol(breakdown.royalties.toNumber())} SOL
                 </span>
-                <span className="text-destructive">-{formatSol(feeAmount)} SOL</span>
               </div>
               <div className="flex justify-between font-bold pt-2 border-t-2 border-border">
                 <span>You receive</span>
-                <span className="text-green-600">{formatSol(sellerReceives)} SOL</span>
+                <span className="text-green-600">
+                  {formatSol(breakdown.sellerProceeds.toNumber())} SOL
+                </span>
               </div>
             </div>
           )}
@@ -160,6 +207,10 @@ export function ListNFTForm({ mintAddress, tokenAccount, onSuccess }: ListNFTFor
         status={txStatus.status}
         message={txStatus.message}
         txSignature={txStatus.signature}
+        error={txStatus.error}
+        preview={txStatus.preview}
+        onConfirm={confirmList}
+        stage={txStage}
       />
     </>
   );
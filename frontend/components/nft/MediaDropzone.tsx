@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Box, Globe, Upload, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MediaCategory, SUPPORTED_MEDIA_TYPES, mediaCategory } from "@/lib/media";
+import { MAX_UPLOAD_BYTES, fileMimeType, supportedTypes, validateUploadFile } from "@/lib/uploader";
+
+interface MediaDropzoneProps {
+  file: File | null;
+  onChange: (file: File | null) => void;
+  // Media categories the zone accepts
+  categories: MediaCategory[];
+  disabled?: boolean;
+}
+
+// Drag-and-drop or click-to-browse file picker for NFT media. Checks the
+// file's type and size before accepting it and previews what was picked.
+export function MediaDropzone({ file, onChange, categories, disabled }: MediaDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewUrl = useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  // Extensions as well as MIME types, since browsers do not know glTF
+  const types = supportedTypes(categories);
+  const accept = [
+    ...types,
+    ...types.flatMap((type) => SUPPORTED_MEDIA_TYPES[type].extensions.map((ext) => `.${ext}`)),
+  ].join(",");
+  const maxMb = Math.max(...categories.map((category) => MAX_UPLOAD_BYTES[category])) / 1024 / 1024;
+
+  const pick = (picked: File | undefined) => {
+    if (!picked) return;
+    const problem = validateUploadFile(picked, categories);
+    setError(problem);
+    if (!problem) {
+      onChange(picked);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!disabled) {
+      pick(e.dataTransfer.files[0]);
+    }
+  };
+
+  if (file && previewUrl) {
+    const type = fileMimeType(file);
+    const category = type ? mediaCategory(type) : undefined;
+
+    return (
+      <div className="border-2 border-border p-2 bg-accent">
+        <div className="relative aspect-square max-w-[200px] mx-auto bg-background border-2 border-border overflow-hidden flex items-center justify-center">
+          {category === "image" && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={previewUrl} alt="Preview" className="w-full h-full object-cover" />
+          )}
+          {category === "video" && (
+            <video src={previewUrl} controls muted loop className="w-full h-full object-contain" />
+          )}
+          {category === "audio" && (
+            <audio src={previewUrl} controls className="w-full px-1" />
+          )}
+          {category === "html" && <Globe className="w-12 h-12 text-muted-foreground" />}
+          {category === "vr" && <Box className="w-12 h-12 text-muted-foreground" />}
+        </div>
+        <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+          <span className="truncate">
+            {file.name} · {(file.size / 1024 / 1024).toFixed(2)} MB ·{" "}
+            {type ? SUPPORTED_MEDIA_TYPES[type]?.label ?? type : "Unknown type"}
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground shrink-0"
+          >
+            <X className="w-3 h-3" />
+            Remove
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (!disabled && (e.key === "Enter" || e.key === " ")) {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-border bg-background text-center cursor-pointer transition-colors",
+          dragging && "border-primary bg-accent",
+          disabled && "opacity-50 cursor-not-allowed"
+        )}
+      >
+        <Upload className="w-6 h-6 text-muted-foreground" />
+        <p className="text-sm font-medium">Drop a file here or click to browse</p>
+        <p className="text-xs text-muted-foreground">
+          {types.map((type) => SUPPORTED_MEDIA_TYPES[type].extensions[0].toUpperCase()).join(", ")}{" "}
+          · up to {maxMb} MB
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={accept}
+          className="hidden"
+          onChange={(e) => {
+            pick(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
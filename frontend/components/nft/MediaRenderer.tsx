@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Box, Globe, Music, Play } from "lucide-react";
+import { NFTImage } from "./NFTImage";
+import { imageProxyUrl, resolveUriCandidates } from "@/lib/gateways";
+import { MediaCategory, getPrimaryMedia } from "@/lib/media";
+import { NFTMetadata } from "@/lib/program";
+
+interface MediaRendererProps {
+  metadata: Partial<Pick<NFTMetadata, "name" | "image" | "animationUrl" | "files" | "category">> | undefined;
+  // Cards show the cover image with a media badge; "full" plays the media
+  variant?: "card" | "full";
+  // Applied to still images
+  className?: string;
+  sizes?: string;
+  priority?: boolean;
+}
+
+const MEDIA_BADGES: Partial<Record<MediaCategory, { icon: React.ReactNode; label: string }>> = {
+  video: { icon: <Play className="w-3 h-3" />, label: "Video" },
+  audio: { icon: <Music className="w-3 h-3" />, label: "Audio" },
+  html: { icon: <Globe className="w-3 h-3" />, label: "Interactive" },
+  vr: { icon: <Box className="w-3 h-3" />, label: "3D" },
+};
+
+// Renders an NFT's primary media with the right player: video, audio over
+// its cover art, a sandboxed iframe for HTML or a glTF model viewer. Media
+// that fails on every gateway falls back to the still image. Fills its
+// relatively positioned parent.
+export function MediaRenderer({
+  metadata,
+  variant = "card",
+  className,
+  sizes,
+  priority,
+}: MediaRendererProps) {
+  const media = useMemo(() => (metadata ? getPrimaryMedia(metadata) : null), [metadata]);
+  const candidates = useMemo(() => resolveUriCandidates(media?.uri), [media?.uri]);
+  // Keyed by URI so new media starts again at the first gateway
+  const [attempt, setAttempt] = useState({ uri: media?.uri, index: 0 });
+  const index = attempt.uri === media?.uri ? attempt.index : 0;
+  const src = candidates[index];
+
+  const nextGateway = () => setAttempt({ uri: media?.uri, index: index + 1 });
+
+  const cover = (
+    <NFTImage
+      src={metadata?.image}
+      alt={metadata?.name || "NFT"}
+      fill
+      className={className}
+      sizes={sizes}
+      priority={priority}
+    />
+  );
+
+  if (!media || media.category === "image" || !src) {
+    return cover;
+  }
+
+  if (variant === "card") {
+    const badge = MEDIA_BADGES[media.category];
+    return (
+      <>
+        {cover}
+        {badge && (
+          <span className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 text-xs font-bold bg-background/90 border-2 border-border">
+            {badge.icon}
+            {badge.label}
+          </span>
+        )}
+      </>
+    );
+  }
+
+  const poster =
+    metadata?.image && !metadata.image.startsWith("/")
+      ? imageProxyUrl(metadata.image, 1080)
+      : undefined;
+
+  switch (media.category) {
+    case "video":
+      return (
+        <video
+          key={src}
+          src={src}
+          poster={poster}
+          controls
+          loop
+          playsInline
+          className="absolute inset-0 w-full h-full object-contain bg-black"
+          onError={nextGateway}
+        />
+      );
+    case "audio":
+      return (
+        <>
+          {cover}
+          <audio
+            key={src}
+            src={src}
+            controls
+            className="absolute bottom-0 inset-x-0 w-full"
+            onError={nextGateway}
+          />
+        </>
+      );
+    case "html":
+      return (
+        <iframe
+          key={src}
+          src={src}
+          title={metadata?.name || "NFT"}
+          // Scripts run in an opaque origin: no access to the app, its
+          // storage or the connected wallet
+          sandbox="allow-scripts"
+          referrerPolicy="no-referrer"
+          loading="lazy"
+          className="absolute inset-0 w-full h-full border-0 bg-white"
+        />
+      );
+    case "vr":
+      return (
+        <ModelViewer
+          key={src}
+          src={src}
+          poster={poster}
+          alt={metadata?.name}
+          onError={nextGateway}
+          fallback={cover}
+        />
+      );
+  }
+}
+
+function ModelViewer({
+  src,
+  poster,
+  alt,
+  onError,
+  fallback,
+}: {
+  src: string;
+  poster?: string;
+  alt?: string;
+  onError: () => void;
+  fallback: React.ReactNode;
+}) {
+  const ref = useRef<HTMLElement>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "failed">("loading");
+
+  // The web component touches window on import, so load it on the client only
+  useEffect(() => {
+    let cancelled = false;
+    import("@google/model-viewer")
+      .then(() => !cancelled && setStatus("ready"))
+      .catch((error) => {
+        console.error("Error loading model viewer:", error);
+        if (!cancelled) setStatus("failed");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    element.addEventListener("error", onError);
+    return () => element.removeEventListener("error", onError);
+  }, [status, onError]);
+
+  if (status === "failed") {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <>
+      {status === "loading" && fallback}
+      {status === "ready" && (
+        <model-viewer
+          ref={ref}
+          src={src}
+          poster={poster}
+          alt={alt || "3D model"}
+          camera-controls=""
+          auto-rotate=""
+          className="absolute inset-0 w-full h-full bg-muted"
+        />
+      )}
+    </>
+  );
+}
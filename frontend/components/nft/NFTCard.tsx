@@ -1,33 +1,39 @@
 "use client";
 
 import Link from "next/link";
-import Image from "next/image";
+import { MediaRenderer } from "./MediaRenderer";
+import { RarityBadge } from "./RarityBadge";
 import { Card, CardContent, Badge, Button } from "@/components/retroui";
-import { formatSol, PLACEHOLDER_IMAGE, truncateAddress } from "@/lib/constants";
+import { formatSol, formatTimeAgo, truncateAddress } from "@/lib/constants";
 import { ListingWithMetadata } from "@/lib/program";
+import { collectionOf } from "@/lib/collections";
+import { RarityScore } from "@/lib/rarity";
 
 interface NFTCardProps {
   listing: ListingWithMetadata;
   showBuyButton?: boolean;
   onBuy?: () => void;
+  // Rank within the NFT's collection, when known
+  rarity?: RarityScore;
 }
 
-export function NFTCard({ listing, showBuyButton = true, onBuy }: NFTCardProps) {
+export function NFTCard({ listing, showBuyButton = true, onBuy, rarity }: NFTCardProps) {
   const { account, metadata } = listing;
   const mintAddress = account.nftMint.toString();
+  const collection = collectionOf(metadata);
+  const createdAt = account.createdAt.toNumber() * 1000;
   
   return (
     <Card hover className="overflow-hidden group">
       <Link href={`/nft/${mintAddress}`}>
         {/* Image Container */}
         <div className="relative aspect-square overflow-hidden bg-muted">
-          <Image
-            src={metadata?.image || PLACEHOLDER_IMAGE}
-            alt={metadata?.name || "NFT"}
-            fill
+          <MediaRenderer
+            metadata={metadata}
             className="object-cover transition-transform duration-300 group-hover:scale-105"
             sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
           />
+          {rarity && <RarityBadge rarity={rarity} className="absolute top-2 left-2" />}
           {account.isActive && (
             <Badge className="absolute top-2 right-2" variant="success">
               Listed
@@ -39,10 +45,17 @@ export function NFTCard({ listing, showBuyButton = true, onBuy }: NFTCardProps)
       <CardContent className="space-y-3">
         {/* Collection & Name */}
         <div>
-          {metadata?.collection?.name && (
-            <p className="text-xs text-muted-foreground truncate">
-              {metadata.collection.name}
-            </p>
+          {collection?.address ? (
+            <Link
+              href={`/collection/${collection.address}`}
+              className="block text-xs text-muted-foreground truncate hover:text-primary transition-colors"
+            >
+              {collection.name}
+            </Link>
+          ) : (
+            collection && (
+              <p className="text-xs text-muted-foreground truncate">{collection.name}</p>
+            )
           )}
           <Link href={`/nft/${mintAddress}`}>
             <h3 className="font-head font-bold truncate hover:text-primary transition-colors">
@@ -51,10 +64,15 @@ export function NFTCard({ listing, showBuyButton = true, onBuy }: NFTCardProps)
           </Link>
         </div>
 
-        {/* Seller */}
-        <p className="text-xs text-muted-foreground">
-          Seller: {truncateAddress(account.seller.toString())}
-        </p>
+        {/* Seller & listing time, unknown for listings from before it was recorded */}
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <p className="truncate">Seller: {truncateAddress(account.seller.toString())}</p>
+          {createdAt > 0 && (
+            <p className="shrink-0" title={new Date(createdAt).toLocaleString()}>
+              Listed {formatTimeAgo(createdAt)}
+            </p>
+          )}
+        </div>
 
         {/* Price & Action */}
         <div className="flex items-center justify-between pt-2 border-t-2 border-border">
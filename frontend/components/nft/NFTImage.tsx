@@ -0,0 +1,33 @@
+"use client";
+
+import { useState } from "react";
+import Image, { ImageLoader, ImageProps } from "next/image";
+import { PLACEHOLDER_IMAGE } from "@/lib/constants";
+import { imageProxyUrl } from "@/lib/gateways";
+
+interface NFTImageProps extends Omit<ImageProps, "src" | "loader" | "onError"> {
+  // Image URI from NFT metadata: http(s), ipfs://, ar:// or a bare CID
+  src: string | undefined;
+}
+
+// Every width next/image asks for is served by /api/image, which fetches the
+// original through the gateways and resizes it
+const proxyLoader: ImageLoader = ({ src, width }) => imageProxyUrl(src, width);
+
+// next/image for NFT media, loaded through the image proxy and falling back
+// to the placeholder image if the proxy cannot serve it
+export function NFTImage({ src, alt, ...props }: NFTImageProps) {
+  const [failedSrc, setFailedSrc] = useState<string | undefined>();
+
+  if (!src || failedSrc === src) {
+    return <Image {...props} src={PLACEHOLDER_IMAGE} alt={alt} unoptimized />;
+  }
+  // Local and inline images need no proxy
+  if (src.startsWith("/") || src.startsWith("data:")) {
+    return <Image {...props} src={src} alt={alt} unoptimized />;
+  }
+
+  return (
+    <Image {...props} src={src} alt={alt} loader={proxyLoader} onError={() => setFailedSrc(src)} />
+  );
+}
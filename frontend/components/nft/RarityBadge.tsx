@@ -0,0 +1,27 @@
+import { Badge } from "@/components/retroui";
+import { RarityScore } from "@/lib/rarity";
+import { cn } from "@/lib/utils";
+import { Gem } from "lucide-react";
+
+interface RarityBadgeProps {
+  rarity: RarityScore;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+// Rarity rank within the collection; the top tenth is highlighted
+export function RarityBadge({ rarity, size, className }: RarityBadgeProps) {
+  const top = rarity.rank <= Math.max(1, Math.ceil(rarity.total / 10));
+  return (
+    <Badge
+      variant={top ? "default" : "secondary"}
+      size={size}
+      className={cn("gap-1", className)}
+      title={`Rarity rank ${rarity.rank} of ${rarity.total}${
+        rarity.complete ? "" : " known items"
+      } (score ${rarity.score.toFixed(1)})`}
+    >
+      <Gem className="w-3 h-3" />#{rarity.rank}
+    </Badge>
+  );
+}
@@ -2,3 +2,9 @@ export { NFTCard } from "./NFTCard";
 export { NFTGrid } from "./NFTGrid";
 export { ListNFTForm } from "./ListNFTForm";
 export { BuyNFTButton } from "./BuyNFTButton";
+export { NFTImage } from "./NFTImage";
+export { MediaRenderer } from "./MediaRenderer";
+export { MediaDropzone } from "./MediaDropzone";
+export { AttributeEditor } from "./AttributeEditor";
+export { CreatorSplitEditor } from "./CreatorSplitEditor";
+export { RarityBadge } from "./RarityBadge";
@@ -1,6 +1,10 @@
 "use client";
 
 import { cn } from "@/lib/utils";
+import { decodeTransactionError } from "@/lib/errors";
+import type { TransactionPreview } from "@/lib/client";
+import { TRANSACTION_STAGES, TransactionStage } from "@/lib/transactionManager";
+import { LAMPORTS_PER_SOL } from "@/lib/constants";
 import React from "react";
 import { X } from "lucide-react";
 import { Button } from "./Button";
@@ -56,16 +60,22 @@ export function Modal({ isOpen, onClose, title, children, className }: ModalProp
   );
 }
 
+type TransactionStatus = "review" | "pending" | "success" | "error";
+
 // Transaction status modal
 export interface TransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  status?: "pending" | "success" | "error";
-  state?: "pending" | "success" | "error"; // Alias for status
+  status?: TransactionStatus;
+  state?: TransactionStatus; // Alias for status
   title?: string;
   message?: string;
   txSignature?: string;
   signature?: string; // Alias for txSignature
+  error?: unknown; // Raw error, translated for the error state
+  preview?: TransactionPreview | null; // Simulation shown in the review state
+  onConfirm?: () => void; // Sends the reviewed transaction
+  stage?: TransactionStage | null; // Progress shown while pending and after success
 }
 
 export function TransactionModal({
@@ -77,16 +87,32 @@ export function TransactionModal({
   message,
   txSignature,
   signature,
+  error,
+  preview,
+  onConfirm,
+  stage,
 }: TransactionModalProps) {
   // Support both prop names
   const currentStatus = status ?? state ?? "pending";
   const currentSignature = txSignature ?? signature;
+  const decodedError =
+    currentStatus === "error" && error ? decodeTransactionError(error) : null;
   
   const statusConfig = {
+    review: {
+      icon: "🧾",
+      title: title || "Review Transaction",
+      message: message || (preview ? "Check the costs before signing" : "Simulating transaction..."),
+      color: "text-primary",
+    },
     pending: {
       icon: "⏳",
       title: title || "Processing...",
-      message: message || "Please confirm the transaction in your wallet",
+      message:
+        message ||
+        (stage && stage !== "awaiting-signature"
+          ? "Waiting for the network to confirm"
+          : "Please confirm the transaction in your wallet"),
       color: "text-primary",
     },
     success: {
@@ -97,8 +123,8 @@ export function TransactionModal({
     },
     error: {
       icon: "❌",
-      title: title || "Error",
-      message: message || "Transaction failed. Please try again.",
+      title: title || decodedError?.title || "Error",
+      message: decodedError?.message || message || "Transaction failed. Please try again.",
       color: "text-destructive",
     },
   };
@@ -113,6 +139,9 @@ export function TransactionModal({
           {config.title}
         </h3>
         <p className="text-muted-foreground">{config.message}</p>
+        {decodedError?.suggestion && (
+          <p className="text-sm font-medium">{decodedError.suggestion}</p>
+        )}
         
         {currentSignature && currentStatus === "success" && (
           <a
@@ -125,7 +154,28 @@ export function TransactionModal({
           </a>
         )}
         
-        {currentStatus !== "pending" && (
+        {stage && (currentStatus === "pending" || currentStatus === "success") && (
+          <TransactionStageList stage={stage} />
+        )}
+
+        {currentStatus === "review" && preview && (
+          <TransactionPreviewDetails preview={preview} />
+        )}
+
+        {currentStatus === "review" ? (
+          <div className="flex gap-2 mt-4">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={onConfirm}
+              className="flex-1"
+              disabled={!preview || !!preview.error || !preview.sufficientBalance}
+            >
+              Confirm
+            </Button>
+          </div>
+        ) : currentStatus !== "pending" && (
           <Button onClick={onClose} className="w-full mt-4">
             {currentStatus === "success" ? "Done" : "Close"}
           </Button>
@@ -134,3 +184,112 @@ export function TransactionModal({
     </Modal>
   );
 }
+
+// Progress through the send lifecycle, with the current stage highlighted
+function TransactionStageList({ stage }: { stage: TransactionStage }) {
+  const current = TRANSACTION_STAGES.findIndex((s) => s.stage === stage);
+
+  return (
+    <ol className="space-y-1 p-4 bg-muted border-2 border-border text-sm text-left">
+      {TRANSACTION_STAGES.map((s, index) => (
+        <li
+          key={s.stage}
+          className={cn(
+            "flex items-center gap-2",
+            index > current && "text-muted-foreground",
+            index === current && "font-bold"
+          )}
+        >
+          <span className="w-4 text-center">
+            {index < current ? "✓" : index === current ? "●" : "○"}
+          </span>
+          {s.label}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Cost breakdown and simulation result for the review state
+function TransactionPreviewDetails({ preview }: { preview: TransactionPreview }) {
+  const shortfall = preview.totalDebit - preview.balance;
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="space-y-2 p-4 bg-muted border-2 border-border text-sm">
+        {preview.payment > 0 && (
+          <PreviewRow label="Payment" value={`${formatLamports(preview.payment)} SOL`} />
+        )}
+        {preview.rentChanges.map((change) => (
+          <PreviewRow
+            key={`${change.kind}-${change.account.toString()}`}
+            label={`${change.label} rent ${change.kind === "deposit" ? "deposit" : "refund"}`}
+            value={`${change.kind === "deposit" ? "" : "+"}${formatLamports(change.lamports)} SOL`}
+            className={change.kind === "refund" ? "text-green-600" : undefined}
+          />
+        ))}
+        <PreviewRow label="Network fee" value={`${formatLamports(preview.networkFee)} SOL`} />
+        {preview.priorityFee > 0 && (
+          <PreviewRow
+            label="incl. priority fee"
+            value={`${formatLamports(preview.priorityFee)} SOL`}
+            className="pl-4 text-xs"
+          />
+        )}
+        <div className="border-t-2 border-border pt-2">
+          <PreviewRow
+            label="Total debited"
+            value={`${formatLamports(preview.totalDebit)} SOL`}
+            className="font-bold"
+          />
+          {preview.totalRefund > 0 && (
+            <PreviewRow
+              label="Refunded to you"
+              value={`+${formatLamports(preview.totalRefund)} SOL`}
+              className="text-green-600"
+            />
+          )}
+        </div>
+        <PreviewRow label="Your balance" value={`${formatLamports(preview.balance)} SOL`} />
+      </div>
+
+      {!preview.sufficientBalance && (
+        <div className="p-3 bg-red-50 border-2 border-red-200 text-sm text-red-600">
+          Insufficient balance: you need {formatLamports(shortfall)} more SOL.
+        </div>
+      )}
+
+      {preview.error && (
+        <div className="p-3 bg-red-50 border-2 border-red-200 text-sm text-red-600">
+          <p className="font-medium">{preview.error.title}</p>
+          <p>{preview.error.message}</p>
+          {preview.error.suggestion && <p className="mt-1">{preview.error.suggestion}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PreviewRow({
+  label,
+  value,
+  className,
+}: {
+  label: string;
+  value: string;
+  className?: string;
+}) {
+  return (
+    <div className={cn("flex justify-between gap-4", className)}>
+      <span className="text-muted-foreground">{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+// Network fees and rent are fractions of a cent, so show every digit
+function formatLamports(lamports: number): string {
+  return (lamports / LAMPORTS_PER_SOL).toLocaleString("en-US", {
+    maximumFractionDigits: 9,
+  });
+}
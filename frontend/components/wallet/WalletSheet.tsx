@@ -6,12 +6,18 @@ import { useWalletModal } from "@solana/wallet-adapter-react-ui";
 import {
   LAMPORTS_PER_SOL,
   PublicKey,
-  Transaction,
   SystemProgram,
 } from "@solana/web3.js";
 import { QRCodeSVG } from "qrcode.react";
-import { Button, Badge, Input } from "@/components/retroui";
-import { truncateAddress } from "@/lib/constants";
+import { Button, Badge, Input, TransactionModal } from "@/components/retroui";
+import { formatTimeAgo, truncateAddress } from "@/lib/constants";
+import { PRIORITY_LEVELS, PriorityLevel } from "@/lib/priorityFees";
+import {
+  TransactionStage,
+  sendWithRetry,
+  signInstructions,
+} from "@/lib/transactionManager";
+import { usePriorityLevel } from "@/hooks/usePriorityLevel";
 import { cn } from "@/lib/utils";
 import {
   X,
@@ -28,6 +34,7 @@ import {
   AlertCircle,
   Coins,
   Activity,
+  Zap,
 } from "lucide-react";
 
 interface WalletSheetProps {
@@ -93,8 +100,9 @@ function isCacheValid(key: string, ttl: number): boolean {
 
 export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
   const { connection } = useConnection();
-  const { publicKey, connected, disconnect, wallet, sendTransaction } = useWallet();
+  const { publicKey, connected, disconnect, wallet, signTransaction } = useWallet();
   const { setVisible } = useWalletModal();
+  const { level: priorityLevel, setLevel: setPriorityLevel } = usePriorityLevel();
 
   const [activeTab, setActiveTab] = useState<TabType>("assets");
   const [balance, setBalance] = useState<number | null>(null);
@@ -108,7 +116,12 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
   const [amount, setAmount] = useState("");
   const [sending, setSending] = useState(false);
   const [sendError, setSendError] = useState("");
-  const [sendSuccess, setSendSuccess] = useState("");
+  const [sendTx, setSendTx] = useState<{
+    status: "pending" | "success" | "error";
+    signature?: string;
+    error?: unknown;
+  } | null>(null);
+  const [sendStage, setSendStage] = useState<TransactionStage | null>(null);
 
   // Cache key based on wallet address
   const walletAddress = useMemo(() => publicKey?.toString() ?? "", [publicKey]);
@@ -214,10 +227,14 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
 
   // Handle send
   const handleSend = async () => {
-    if (!publicKey || !connection || !sendTransaction) return;
+    if (!publicKey || !connection) return;
 
     setSendError("");
-    setSendSuccess("");
+
+    if (!signTransaction) {
+      setSendError("This wallet does not support signing transactions");
+      return;
+    }
 
     // Validate recipient
     let recipientPubkey: PublicKey;
@@ -241,26 +258,29 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
     }
 
     setSending(true);
+    setSendStage(null);
+    setSendTx({ status: "pending" });
     try {
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: publicKey,
-          toPubkey: recipientPubkey,
-          lamports: Math.floor(amountNum * LAMPORTS_PER_SOL),
-        })
-      );
+      const transfer = SystemProgram.transfer({
+        fromPubkey: publicKey,
+        toPubkey: recipientPubkey,
+        lamports: Math.floor(amountNum * LAMPORTS_PER_SOL),
+      });
 
-      const signature = await sendTransaction(transaction, connection);
-      await connection.confirmTransaction(signature, "confirmed");
+      const signature = await sendWithRetry(
+        connection,
+        signInstructions(connection, { publicKey, signTransaction }, [transfer]),
+        { onStage: setSendStage }
+      );
 
-      setSendSuccess("Transaction sent successfully!");
+      setSendTx({ status: "success", signature });
       setRecipient("");
       setAmount("");
       // Force refresh balance after sending
       fetchBalance(true);
     } catch (err) {
       console.error("Send error:", err);
-      setSendError(err instanceof Error ? err.message : "Transaction failed");
+      setSendTx({ status: "error", error: err });
     } finally {
       setSending(false);
     }
@@ -290,15 +310,6 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
   const walletName = wallet?.adapter?.name || "Wallet";
   const walletIcon = wallet?.adapter?.icon;
 
-  // Format time ago
-  const timeAgo = (timestamp: number) => {
-    const seconds = Math.floor((Date.now() - timestamp) / 1000);
-    if (seconds < 60) return "Just now";
-    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
-    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
-    return `${Math.floor(seconds / 86400)}d ago`;
-  };
-
   if (!isOpen) return null;
 
   return (
@@ -492,12 +503,6 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
                       {sendError}
                     </div>
                   )}
-                  {sendSuccess && (
-                    <div className="flex items-center gap-2 p-3 bg-green-50 border-2 border-green-200 text-green-600 text-sm">
-                      <Check className="w-4 h-4 shrink-0" />
-                      {sendSuccess}
-                    </div>
-                  )}
 
                   {/* Send Button */}
                   <Button
@@ -602,7 +607,7 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
                             {tx.type === "sent" ? "Sent" : "Received"}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            {timeAgo(tx.timestamp)}
+                            {formatTimeAgo(tx.timestamp)}
                           </p>
                         </div>
                         <div className="text-right">
@@ -642,6 +647,32 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
 
             {/* Footer */}
             <div className="shrink-0 border-t-2 border-border p-4 space-y-3">
+              {/* Transaction Speed */}
+              <div className="space-y-2">
+                <p className="flex items-center gap-1 text-sm font-medium">
+                  <Zap className="w-4 h-4" />
+                  Transaction Speed
+                </p>
+                <div className="flex border-2 border-border">
+                  {(Object.keys(PRIORITY_LEVELS) as PriorityLevel[]).map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => setPriorityLevel(id)}
+                      className={cn(
+                        "flex-1 py-2 text-xs font-medium transition-colors",
+                        priorityLevel === id
+                          ? "bg-primary text-primary-foreground"
+                          : "text-muted-foreground hover:bg-accent"
+                      )}
+                    >
+                      {PRIORITY_LEVELS[id].label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Higher speeds add a priority fee to marketplace transactions.
+                </p>
+              </div>
               <div className="flex flex-col gap-2">
                 <a
                   href={`https://explorer.solana.com/account/${walletAddress}?cluster=devnet`}
@@ -690,6 +721,17 @@ export function WalletSheet({ isOpen, onClose }: WalletSheetProps) {
           </div>
         )}
       </div>
+
+      <TransactionModal
+        isOpen={sendTx !== null}
+        onClose={() => setSendTx(null)}
+        status={sendTx?.status}
+        title={sendTx?.status === "success" ? "SOL Sent" : undefined}
+        message={sendTx?.status === "success" ? "Your transfer was confirmed" : undefined}
+        signature={sendTx?.signature}
+        error={sendTx?.error}
+        stage={sendStage}
+      />
     </>
   );
 }
@@ -0,0 +1,259 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey, TransactionExpiredBlockheightExceededError } from "@solana/web3.js";
+import { Umi, generateSigner } from "@metaplex-foundation/umi";
+import {
+  BatchProgress,
+  BatchRowProgress,
+  UPLOAD_CHUNK_SIZE,
+  loadBatchProgress,
+  saveBatchProgress,
+} from "@/lib/batchMint";
+import { decodeTransactionError } from "@/lib/errors";
+import { invalidateMetadata } from "@/lib/metadataCache";
+import {
+  NFTMetadata,
+  buildMetadataJson,
+  createMintBuilder,
+  mintFiles,
+  quoteMint,
+  uploadedFiles,
+} from "@/lib/mint";
+import { TransactionFailedError, sendWithRetry } from "@/lib/transactionManager";
+import { createWalletUmi, signUmiBuilder } from "@/lib/umi";
+import { fundUpload, storageUploader, toGenericFile } from "@/lib/uploader";
+
+// A manifest row ready to mint
+export interface BatchItem {
+  key: string;
+  metadata: NFTMetadata;
+}
+
+// What the batch is doing right now
+export interface BatchActivity {
+  phase: "funding" | "uploading" | "minting";
+  // Rows the phase covers
+  keys: string[];
+}
+
+// A transaction from an interrupted run can still land until its blockhash
+// expires, about a minute and a half after signing
+const IN_FLIGHT_MS = 2 * 60 * 1000;
+
+// Failures after which the transaction can no longer land: the wallet
+// declined before sending, the blockhash expired, or it failed on chain.
+// Anything else (a dropped status poll, say) leaves the outcome unknown.
+function settledWithoutLanding(err: unknown): boolean {
+  return (
+    err instanceof TransactionExpiredBlockheightExceededError ||
+    err instanceof TransactionFailedError ||
+    decodeTransactionError(err).kind === "wallet-rejected"
+  );
+}
+
+function rowStatus(progress: BatchProgress | null, key: string) {
+  return progress?.rows[key]?.status ?? "pending";
+}
+
+export function useBatchMint() {
+  const { connection } = useConnection();
+  const wallet = useWallet();
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [pausing, setPausing] = useState(false);
+  const [activity, setActivity] = useState<BatchActivity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The run loop reads these between rows
+  const progressRef = useRef<BatchProgress | null>(null);
+  const pauseRef = useRef(false);
+
+  // Pick up a manifest's saved progress for the connected wallet
+  const loadBatch = useCallback(
+    (id: string) => {
+      if (!wallet.publicKey) return;
+      const loaded = loadBatchProgress(wallet.publicKey.toString(), id);
+      progressRef.current = loaded;
+      setProgress(loaded);
+    },
+    [wallet.publicKey]
+  );
+
+  const updateRow = useCallback((key: string, changes: Partial<BatchRowProgress>) => {
+    const current = progressRef.current;
+    if (!current) return;
+    const previous = current.rows[key] ?? { status: "pending" };
+    const next: BatchProgress = {
+      ...current,
+      rows: { ...current.rows, [key]: { ...previous, ...changes } },
+      updatedAt: Date.now(),
+    };
+    progressRef.current = next;
+    saveBatchProgress(next);
+    setProgress(next);
+  }, []);
+
+  // Upload the files and metadata JSON of rows not uploaded yet, funding
+  // Irys once for the whole chunk
+  const uploadChunk = useCallback(
+    async (umi: Umi, items: BatchItem[]) => {
+      const pending = items.filter(
+        (item) => rowStatus(progressRef.current, item.key) === "pending"
+      );
+      if (pending.length === 0) return;
+      const keys = pending.map((item) => item.key);
+
+      const sources = pending.map((item) => mintFiles(item.metadata));
+      const files = await Promise.all(sources.flat().map(toGenericFile));
+      const quote = await quoteMint(
+        umi,
+        pending.map((item) => item.metadata),
+        files
+      );
+      if (quote.shortfall.basisPoints > 0) {
+        setActivity({ phase: "funding", keys });
+        await fundUpload(umi.uploader, quote.shortfall);
+      }
+
+      setActivity({ phase: "uploading", keys });
+      const uris = await umi.uploader.upload(files);
+      const minter = umi.identity.publicKey.toString();
+      let offset = 0;
+      for (const [i, item] of pending.entries()) {
+        const [image, animation] = uploadedFiles(
+          sources[i],
+          uris.slice(offset, offset + sources[i].length)
+        );
+        offset += sources[i].length;
+        const uri = await umi.uploader.uploadJson(
+          buildMetadataJson(item.metadata, minter, image, animation)
+        );
+        updateRow(item.key, { status: "uploaded", uri, error: undefined });
+      }
+    },
+    [updateRow]
+  );
+
+  // Mint one uploaded row. A row left "minting" by an interrupted run is
+  // checked on chain first, so it is never minted twice.
+  const mintRow = useCallback(
+    async (umi: Umi, item: BatchItem) => {
+      const row = progressRef.current?.rows[item.key];
+      if (!row?.uri) return;
+
+      if (row.status === "minting" && row.mint) {
+        const account = await connection.getAccountInfo(new PublicKey(row.mint));
+        if (account) {
+          updateRow(item.key, { status: "minted", error: undefined });
+          return;
+        }
+        if (row.attemptedAt && Date.now() - row.attemptedAt < IN_FLIGHT_MS) {
+          throw new Error("An earlier attempt may still confirm; resume in a couple of minutes");
+        }
+      }
+
+      setActivity({ phase: "minting", keys: [item.key] });
+      const mint = generateSigner(umi);
+      // Record the address before sending so a resume can look it up
+      updateRow(item.key, {
+        status: "minting",
+        mint: mint.publicKey.toString(),
+        attemptedAt: Date.now(),
+      });
+      const builder = createMintBuilder(umi, item.metadata, mint, row.uri);
+      try {
+        const signature = await sendWithRetry(connection, signUmiBuilder(umi, builder));
+        updateRow(item.key, { status: "minted", signature, error: undefined });
+      } catch (err) {
+        // Retry at once only when the send can no longer land; otherwise a
+        // resume checks the chain first
+        if (settledWithoutLanding(err)) {
+          updateRow(item.key, { attemptedAt: undefined });
+        }
+        throw err;
+      }
+    },
+    [connection, updateRow]
+  );
+
+  // Upload and mint every row not minted yet, a chunk at a time. Rows that
+  // fail are logged and skipped; a rejected wallet prompt or an empty
+  // balance stops the run.
+  const runBatch = useCallback(
+    async (items: BatchItem[]) => {
+      if (!wallet.publicKey || !wallet.signTransaction || !progressRef.current) {
+        setError("Wallet not connected");
+        return;
+      }
+
+      setRunning(true);
+      setError(null);
+      pauseRef.current = false;
+      const umi = createWalletUmi(wallet).use(storageUploader());
+      const todo = items.filter((item) => rowStatus(progressRef.current, item.key) !== "minted");
+
+      try {
+        for (let start = 0; start < todo.length && !pauseRef.current; start += UPLOAD_CHUNK_SIZE) {
+          const chunk = todo.slice(start, start + UPLOAD_CHUNK_SIZE);
+          try {
+            await uploadChunk(umi, chunk);
+          } catch (err) {
+            const decoded = decodeTransactionError(err);
+            for (const item of chunk) {
+              if (rowStatus(progressRef.current, item.key) === "pending") {
+                updateRow(item.key, { error: decoded.message });
+              }
+            }
+            throw decoded;
+          }
+
+          for (const item of chunk) {
+            if (pauseRef.current) break;
+            try {
+              await mintRow(umi, item);
+            } catch (err) {
+              const decoded = decodeTransactionError(err);
+              updateRow(item.key, { error: decoded.message });
+              if (decoded.kind === "wallet-rejected" || decoded.kind === "insufficient-funds") {
+                throw decoded;
+              }
+            }
+          }
+        }
+      } catch (err) {
+        console.error("Batch mint error:", err);
+        setError(decodeTransactionError(err).message);
+      } finally {
+        setRunning(false);
+        setPausing(false);
+        setActivity(null);
+        // Collection item counts changed
+        const collections = new Set(
+          items.flatMap((item) => (item.metadata.collection ? [item.metadata.collection.mint] : []))
+        );
+        if (collections.size > 0) {
+          await invalidateMetadata([...collections].map((mint) => new PublicKey(mint)));
+        }
+      }
+    },
+    [wallet, uploadChunk, mintRow, updateRow]
+  );
+
+  // Stop after the row in flight; runBatch picks up from there
+  const pauseBatch = useCallback(() => {
+    pauseRef.current = true;
+    setPausing(true);
+  }, []);
+
+  return {
+    progress,
+    running,
+    pausing,
+    activity,
+    error,
+    loadBatch,
+    runBatch,
+    pauseBatch,
+  };
+}
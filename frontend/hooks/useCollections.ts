@@ -0,0 +1,276 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import {
+  ListingWithMetadata,
+  NFTMetadata,
+  fetchTokenOwners,
+} from "@/lib/program";
+import { computeCollectionStats, groupByCollection } from "@/lib/collections";
+import { CollectionAsset, fetchCollectionAssets } from "@/lib/das";
+import { getNFTMetadata, getNFTMetadataBatch } from "@/lib/metadataCache";
+import { useListings, useSales } from "@/hooks/useListings";
+import { useOwnedNFTs } from "@/hooks/useNFTs";
+import { useReadOnlyClient } from "@/hooks/useProgram";
+
+// An NFT the app has metadata for, with its listing when it is for sale
+export interface KnownNFT {
+  mint: string;
+  metadata: NFTMetadata;
+  listing?: ListingWithMetadata;
+  // Holder; the seller for listed NFTs, which sit in escrow
+  owner?: string;
+}
+
+// NFTs of active listings and of the connected wallet, without duplicates
+function useKnownNFTs() {
+  const { publicKey } = useWallet();
+  const { listings, loading: listingsLoading, refetch: refetchListings } = useListings();
+  const { nfts, loading: nftsLoading, refetch: refetchNFTs } = useOwnedNFTs();
+
+  const known = useMemo(() => {
+    const byMint = new Map<string, KnownNFT>();
+    for (const listing of listings) {
+      if (listing.metadata) {
+        const mint = listing.account.nftMint.toBase58();
+        byMint.set(mint, {
+          mint,
+          metadata: listing.metadata,
+          listing,
+          owner: listing.account.seller.toBase58(),
+        });
+      }
+    }
+    for (const nft of nfts) {
+      const mint = nft.mint.toBase58();
+      if (nft.metadata && !byMint.has(mint)) {
+        byMint.set(mint, { mint, metadata: nft.metadata, owner: publicKey?.toBase58() });
+      }
+    }
+    return [...byMint.values()];
+  }, [listings, nfts, publicKey]);
+
+  const refetch = useCallback(
+    () => Promise.all([refetchListings(), refetchNFTs()]),
+    [refetchListings, refetchNFTs]
+  );
+
+  return { known, loading: listingsLoading || nftsLoading, refetch };
+}
+
+// Collections the app knows about: those of active listings and of the
+// connected wallet's NFTs, each with its known items
+export function useKnownCollections() {
+  const { known, loading } = useKnownNFTs();
+  const collections = useMemo(
+    () => groupByCollection(known, (nft) => nft.metadata),
+    [known]
+  );
+  return { collections, loading };
+}
+
+// Collection NFTs the connected wallet is update authority of, and so can
+// mint verified items into, each with its known verified items
+export function useMyCollections() {
+  const { publicKey } = useWallet();
+  const { known, loading, refetch } = useKnownNFTs();
+
+  const collections = useMemo(() => {
+    if (!publicKey) {
+      return [];
+    }
+    return known
+      .filter(
+        (nft) =>
+          nft.metadata.collectionDetails && nft.metadata.updateAuthority?.equals(publicKey)
+      )
+      .map((collection) => ({
+        ...collection,
+        // Verified item count recorded on chain, when the collection is sized
+        size: collection.metadata.collectionDetails?.size ?? null,
+        items: known.filter(
+          (nft) =>
+            nft.metadata.onChainCollection?.verified &&
+            nft.metadata.onChainCollection.address.toBase58() === collection.mint
+        ),
+      }))
+      .sort((a, b) => a.metadata.name.localeCompare(b.metadata.name));
+  }, [known, publicKey]);
+
+  return { collections, loading, refetch };
+}
+
+// A verified collection with every item that can be found, listed or not,
+// and its market figures. Items come from the RPC's DAS index when it has
+// one; otherwise only listed NFTs and the wallet's own are known.
+export function useCollection(address: string) {
+  const { connection } = useConnection();
+  const client = useReadOnlyClient();
+  const { known, loading: knownLoading, refetch: refetchKnown } = useKnownNFTs();
+  const { sales: allSales, loading: salesLoading, refetch: refetchSales } = useSales();
+
+  const collectionMint = useMemo(() => {
+    try {
+      return new PublicKey(address);
+    } catch {
+      return null;
+    }
+  }, [address]);
+
+  const [collection, setCollection] = useState<NFTMetadata | null>(null);
+  // Null when the RPC has no DAS index, undefined while loading
+  const [assets, setAssets] = useState<CollectionAsset[] | null | undefined>(undefined);
+  const [items, setItems] = useState<KnownNFT[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCollection = useCallback(async () => {
+    if (!collectionMint) {
+      setError("Invalid collection address");
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [metadata, found] = await Promise.all([
+        getNFTMetadata(connection, collectionMint),
+        fetchCollectionAssets(collectionMint.toBase58(), connection.rpcEndpoint),
+      ]);
+      if (!metadata) {
+        setError("Collection not found");
+        setLoading(false);
+        return;
+      }
+      setCollection(metadata);
+      setAssets(found);
+    } catch (err) {
+      console.error("Error fetching collection:", err);
+      setError("Failed to fetch collection");
+      setLoading(false);
+    }
+  }, [connection, collectionMint]);
+
+  useEffect(() => {
+    loadCollection();
+  }, [loadCollection]);
+
+  // Without an index, the verified items among the NFTs the app knows
+  const fallbackItems = useMemo(
+    () =>
+      known.filter(
+        (nft) =>
+          nft.metadata.onChainCollection?.verified &&
+          nft.metadata.onChainCollection.address.toBase58() === address
+      ),
+    [known, address]
+  );
+
+  const loadItems = useCallback(async () => {
+    if (assets === undefined || !client) return;
+    if (assets === null) {
+      // The wallet may no longer hold what it last reported, so holders of
+      // unlisted items are looked up on chain below
+      setItems(fallbackItems.map((nft) => (nft.listing ? nft : { ...nft, owner: undefined })));
+      setLoading(knownLoading);
+      return;
+    }
+
+    try {
+      const mints = assets.map((asset) => new PublicKey(asset.mint));
+      const [metadata, listings] = await Promise.all([
+        getNFTMetadataBatch(connection, mints),
+        client.fetchListingsByMints(mints),
+      ]);
+      const listingsByMint = new Map(
+        listings.map((listing) => [listing.account.nftMint.toBase58(), listing])
+      );
+      setItems(
+        assets.flatMap((asset) => {
+          const itemMetadata = metadata.get(asset.mint);
+          const listing = listingsByMint.get(asset.mint);
+          if (!itemMetadata) return [];
+          return [
+            {
+              mint: asset.mint,
+              metadata: itemMetadata,
+              listing: listing && { ...listing, metadata: itemMetadata },
+              owner: listing ? listing.account.seller.toBase58() : asset.owner,
+            },
+          ];
+        })
+      );
+    } catch (err) {
+      console.error("Error fetching collection items:", err);
+      setError("Failed to fetch collection items");
+    } finally {
+      setLoading(false);
+    }
+  }, [assets, client, connection, fallbackItems, knownLoading]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  // Holders of unlisted fallback items
+  const [owners, setOwners] = useState<Map<string, string>>(new Map());
+  useEffect(() => {
+    const unknown = items.filter((item) => !item.owner).map((item) => new PublicKey(item.mint));
+    if (unknown.length === 0) return;
+    let cancelled = false;
+    fetchTokenOwners(connection, unknown)
+      .catch((err) => {
+        console.error("Error fetching item owners:", err);
+        return new Map<string, PublicKey>();
+      })
+      .then((found) => {
+        if (cancelled) return;
+        setOwners(new Map([...found].map(([mint, owner]) => [mint, owner.toBase58()])));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, items]);
+
+  const itemsWithOwners = useMemo(
+    () => items.map((item) => (item.owner ? item : { ...item, owner: owners.get(item.mint) })),
+    [items, owners]
+  );
+
+  const sales = useMemo(() => {
+    const mints = new Set(items.map((item) => item.mint));
+    return allSales.filter((sale) => mints.has(sale.nftMint.toBase58()));
+  }, [allSales, items]);
+
+  const stats = useMemo(
+    () =>
+      computeCollectionStats({
+        // Sized collections count every verified item on chain
+        itemCount: Math.max(collection?.collectionDetails?.size ?? 0, items.length),
+        listings: items.flatMap((item) => (item.listing ? [item.listing] : [])),
+        sales,
+        owners: itemsWithOwners.flatMap((item) => (item.owner ? [item.owner] : [])),
+      }),
+    [collection, items, itemsWithOwners, sales]
+  );
+
+  const refetch = useCallback(async () => {
+    await Promise.all([loadCollection(), refetchKnown(), refetchSales()]);
+  }, [loadCollection, refetchKnown, refetchSales]);
+
+  return {
+    collection,
+    items: itemsWithOwners,
+    sales,
+    stats,
+    // Whether the item list is complete, from the RPC's index
+    indexed: !!assets,
+    loading,
+    salesLoading,
+    error,
+    refetch,
+  };
+}
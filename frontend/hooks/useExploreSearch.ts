@@ -0,0 +1,136 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import {
+  ExploreSearch,
+  SavedSearch,
+  addSavedSearch,
+  exploreSearchString,
+  parseExploreSearch,
+  parseSavedSearches,
+  savedSearchesKey,
+} from "@/lib/exploreSearch";
+
+// Fired on the window when this tab changes the URL or its saved searches;
+// popstate and the storage event cover the rest
+const SEARCH_CHANGE_EVENT = "pixelmart:explore-search";
+const SAVED_CHANGE_EVENT = "pixelmart:saved-searches";
+
+// Fields edited by typing; one edit adds one history entry, not one per key
+export type ExploreTextField = "query" | "minPrice" | "maxPrice" | "minRank" | "maxRank";
+
+function subscribeToLocation(onChange: () => void): () => void {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(SEARCH_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(SEARCH_CHANGE_EVENT, onChange);
+  };
+}
+
+function subscribeToSaved(onChange: () => void): () => void {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(SAVED_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(SAVED_CHANGE_EVENT, onChange);
+  };
+}
+
+// Explore state kept in the page URL. Changes add history entries, so back
+// and forward step through earlier searches.
+export function useExploreSearch() {
+  const raw = useSyncExternalStore(subscribeToLocation, () => window.location.search, () => "");
+  const search = useMemo(() => parseExploreSearch(raw), [raw]);
+  // Field being typed into, whose edits replace its history entry
+  const typingRef = useRef<ExploreTextField | null>(null);
+
+  const navigate = useCallback((next: ExploreSearch, replace: boolean) => {
+    const query = exploreSearchString(next);
+    const url = `${window.location.pathname}${query ? `?${query}` : ""}`;
+    if (replace) {
+      window.history.replaceState(null, "", url);
+    } else {
+      window.history.pushState(null, "", url);
+    }
+    window.dispatchEvent(new Event(SEARCH_CHANGE_EVENT));
+  }, []);
+
+  // Apply changes; anything but the page or the panel starts over on page 1
+  const update = useCallback(
+    (changes: Partial<ExploreSearch>) => {
+      typingRef.current = null;
+      const resetsPage = Object.keys(changes).some((key) => key !== "page" && key !== "filters");
+      navigate({ ...search, ...(resetsPage && { page: 1 }), ...changes }, false);
+    },
+    [navigate, search]
+  );
+
+  const setText = useCallback(
+    (field: ExploreTextField, value: string) => {
+      const replace = typingRef.current === field;
+      typingRef.current = field;
+      navigate({ ...search, [field]: value, page: 1 }, replace);
+    },
+    [navigate, search]
+  );
+
+  // The next keystroke starts a new history entry
+  const endTyping = useCallback(() => {
+    typingRef.current = null;
+  }, []);
+
+  // Switch to another search, e.g. a saved one, keeping the panel as it is
+  const replaceSearch = useCallback(
+    (next: ExploreSearch) => {
+      typingRef.current = null;
+      navigate({ ...next, filters: search.filters }, false);
+    },
+    [navigate, search.filters]
+  );
+
+  return { search, update, setText, endTyping, replaceSearch };
+}
+
+// Searches saved by the connected wallet, newest first, in localStorage
+export function useSavedSearches() {
+  const { publicKey } = useWallet();
+  const owner = publicKey?.toBase58() ?? null;
+
+  const readStored = useCallback(() => {
+    if (!owner) return null;
+    try {
+      return localStorage.getItem(savedSearchesKey(owner));
+    } catch {
+      return null;
+    }
+  }, [owner]);
+  const stored = useSyncExternalStore(subscribeToSaved, readStored, () => null);
+  const searches = useMemo(() => parseSavedSearches(stored), [stored]);
+
+  const write = useCallback(
+    (next: SavedSearch[]) => {
+      if (!owner) return;
+      try {
+        localStorage.setItem(savedSearchesKey(owner), JSON.stringify(next));
+      } catch {
+        // Storage unavailable; nothing is saved
+      }
+      window.dispatchEvent(new Event(SAVED_CHANGE_EVENT));
+    },
+    [owner]
+  );
+
+  const saveSearch = useCallback(
+    (name: string, search: ExploreSearch) => write(addSavedSearch(searches, name, search)),
+    [searches, write]
+  );
+
+  const deleteSearch = useCallback(
+    (name: string) => write(searches.filter((saved) => saved.name !== name)),
+    [searches, write]
+  );
+
+  return { searches, canSave: !!owner, saveSearch, deleteSearch };
+}
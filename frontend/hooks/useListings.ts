@@ -1,65 +1,65 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useConnection } from "@solana/wallet-adapter-react";
-import { PublicKey } from "@solana/web3.js";
-import { AnchorProvider, Program, BN } from "@coral-xyz/anchor";
-import { 
-  getProgram, 
-  fetchAllListings, 
-  fetchListing,
-  ListingWithMetadata,
-  Marketplace,
-  fetchNFTMetadataFromChain
-} from "@/lib/program";
-import { RPC_ENDPOINT } from "@/lib/constants";
-
-// Create a read-only provider for fetching data
-function getReadOnlyProgram(connection: any): Program<Marketplace> {
-  const provider = new AnchorProvider(
+import { Connection, PublicKey } from "@solana/web3.js";
+import { PixelMartClient } from "@/lib/client";
+import { ListingWithMetadata, Sale } from "@/lib/program";
+import { getNFTMetadata, getNFTMetadataBatch } from "@/lib/metadataCache";
+import { useReadOnlyClient } from "@/hooks/useProgram";
+
+const MARKETPLACE_NOT_CONFIGURED =
+  "No marketplace configured. Set NEXT_PUBLIC_MARKETPLACE_ADMIN.";
+
+// Attach cached metadata to fetched listings
+async function withMetadata(
+  connection: Connection,
+  listings: ListingWithMetadata[]
+): Promise<ListingWithMetadata[]> {
+  const metadata = await getNFTMetadataBatch(
     connection,
-    {
-      publicKey: PublicKey.default,
-      signTransaction: async (tx) => tx,
-      signAllTransactions: async (txs) => txs,
-    },
-    { commitment: "confirmed" }
+    listings.map((listing) => listing.account.nftMint)
   );
-  return getProgram(provider);
+  return listings.map((listing) => ({
+    ...listing,
+    metadata: metadata.get(listing.account.nftMint.toBase58()),
+  }));
 }
 
-export function useListings() {
+// Run a listing query against the read-only client and attach metadata
+function useListingQuery(
+  query: ((client: PixelMartClient) => Promise<ListingWithMetadata[]>) | null
+) {
   const { connection } = useConnection();
+  const client = useReadOnlyClient();
   const [listings, setListings] = useState<ListingWithMetadata[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const refetch = useCallback(async () => {
+    if (!query) {
+      setListings([]);
+      setLoading(false);
+      return;
+    }
+    if (!client) {
+      setError(MARKETPLACE_NOT_CONFIGURED);
+      setLoading(false);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
-      const program = getReadOnlyProgram(connection);
-      const fetchedListings = await fetchAllListings(program);
-      
-      // Fetch metadata for each listing
-      const listingsWithMetadata = await Promise.all(
-        fetchedListings.map(async (listing) => {
-          const metadata = await fetchNFTMetadataFromChain(connection, listing.account.nftMint);
-          return {
-            ...listing,
-            metadata,
-          };
-        })
-      );
-      
-      setListings(listingsWithMetadata);
+      const fetchedListings = await query(client);
+      setListings(await withMetadata(connection, fetchedListings));
     } catch (err) {
       console.error("Error fetching listings:", err);
       setError("Failed to fetch listings");
     } finally {
       setLoading(false);
     }
-  }, [connection]);
+  }, [connection, client, query]);
 
   useEffect(() => {
     refetch();
@@ -68,8 +68,28 @@ export function useListings() {
   return { listings, loading, error, refetch };
 }
 
+const fetchActive = (client: PixelMartClient) => client.fetchActiveListings();
+
+// All active listings on the marketplace
+export function useListings() {
+  return useListingQuery(fetchActive);
+}
+
+// Active listings created by a seller
+export function useSellerListings(seller: string | null) {
+  const query = useMemo(
+    () =>
+      seller
+        ? (client: PixelMartClient) => client.fetchListingsBySeller(new PublicKey(seller))
+        : null,
+    [seller]
+  );
+  return useListingQuery(query);
+}
+
 export function useListing(mintAddress: string | null) {
   const { connection } = useConnection();
+  const client = useReadOnlyClient();
   const [listing, setListing] = useState<ListingWithMetadata | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -80,17 +100,21 @@ export function useListing(mintAddress: string | null) {
       setLoading(false);
       return;
     }
+    if (!client) {
+      setError(MARKETPLACE_NOT_CONFIGURED);
+      setLoading(false);
+      return;
+    }
 
     try {
       setLoading(true);
       setError(null);
-      const program = getReadOnlyProgram(connection);
       const nftMint = new PublicKey(mintAddress);
-      const fetchedListing = await fetchListing(program, nftMint);
+      const fetchedListing = await client.fetchListing(nftMint);
       
       if (fetchedListing) {
         // Fetch metadata for the listing
-        const metadata = await fetchNFTMetadataFromChain(connection, nftMint);
+        const metadata = await getNFTMetadata(connection, nftMint);
         setListing({
           ...fetchedListing,
           metadata,
@@ -104,7 +128,7 @@ export function useListing(mintAddress: string | null) {
     } finally {
       setLoading(false);
     }
-  }, [connection, mintAddress]);
+  }, [connection, client, mintAddress]);
 
   useEffect(() => {
     refetch();
@@ -112,3 +136,29 @@ export function useListing(mintAddress: string | null) {
 
   return { listing, loading, error, refetch };
 }
+
+// Completed purchases on the marketplace, newest first
+export function useSales() {
+  const client = useReadOnlyClient();
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    if (!client) {
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      setSales(await client.fetchSales());
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { sales, loading, refetch };
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { MarketplaceInfo } from "@/lib/client";
+import { useReadOnlyClient } from "@/hooks/useProgram";
+
+// Fetch the configured marketplace (admin, fee and listing count)
+export function useMarketplace() {
+  const client = useReadOnlyClient();
+  const [marketplace, setMarketplace] = useState<MarketplaceInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!client) {
+      setMarketplace(null);
+      setError("No marketplace configured. Set NEXT_PUBLIC_MARKETPLACE_ADMIN.");
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const info = await client.getMarketplace();
+      setMarketplace(info);
+      if (!info) {
+        setError("The configured marketplace has not been initialized yet.");
+      }
+    } catch (err) {
+      console.error("Error fetching marketplace:", err);
+      setError("Failed to fetch marketplace");
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { marketplace, loading, error, refetch };
+}
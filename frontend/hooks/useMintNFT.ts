@@ -1,60 +1,86 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
-import { walletAdapterIdentity } from "@metaplex-foundation/umi-signer-wallet-adapters";
+import { PublicKey } from "@solana/web3.js";
+import { Umi, generateSigner } from "@metaplex-foundation/umi";
+import { decodeTransactionError } from "@/lib/errors";
+import { invalidateMetadata } from "@/lib/metadataCache";
 import {
-  createNft,
-  mplTokenMetadata,
-} from "@metaplex-foundation/mpl-token-metadata";
-import { generateSigner, percentAmount, some } from "@metaplex-foundation/umi";
-import { base58 } from "@metaplex-foundation/umi/serializers";
-import { irysUploader } from "@metaplex-foundation/umi-uploader-irys";
-import { RPC_ENDPOINT } from "@/lib/constants";
-
-export interface NFTMetadata {
-  name: string;
-  symbol: string;
-  description: string;
-  image: string;
-  attributes?: { trait_type: string; value: string }[];
-}
+  NFTMetadata,
+  buildMetadataJson,
+  createMintBuilder,
+  mintFiles,
+  quoteMint,
+  uploadedFiles,
+} from "@/lib/mint";
+import { TransactionStage, sendWithRetry } from "@/lib/transactionManager";
+import { createWalletUmi, signUmiBuilder } from "@/lib/umi";
+import { UploadQuote, fundUpload, storageUploader, toGenericFile } from "@/lib/uploader";
+
+export type { NFTMetadata } from "@/lib/mint";
+
+// Where a mint is before its transaction is sent
+export type MintPhase = "funding" | "uploading";
 
 export function useMintNFT() {
   const { connection } = useConnection();
   const wallet = useWallet();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-// Upload metadata to Arweave via Irys
+  const [stage, setStage] = useState<TransactionStage | null>(null);
+  const [phase, setPhase] = useState<MintPhase | null>(null);
+  // Reused between the estimate and the mint so Irys connects once per wallet
+  const umiRef = useRef<{ owner: string; umi: Umi } | null>(null);
+
+  const getUmi = useCallback((): Umi => {
+    const owner = wallet.publicKey!.toString();
+    if (umiRef.current?.owner !== owner) {
+      const umi = createWalletUmi(wallet).use(storageUploader());
+      umiRef.current = { owner, umi };
+    }
+    return umiRef.current.umi;
+  }, [wallet]);
+
+  // Price the upload of the files and metadata JSON against the uploader's
+  // balance, so the page can ask the creator to fund it before minting
+  const estimateUpload = useCallback(
+    async (metadata: NFTMetadata): Promise<UploadQuote> => {
+      const umi = getUmi();
+      const files = await Promise.all(mintFiles(metadata).map(toGenericFile));
+      return quoteMint(umi, [metadata], files);
+    },
+    [getUmi]
+  );
+
+  // Upload the media files, then the metadata JSON pointing at them
   const uploadMetadata = useCallback(
-    async (umi: any, metadata: NFTMetadata): Promise<string> => {
+    async (umi: Umi, metadata: NFTMetadata): Promise<string> => {
+      const sources = mintFiles(metadata);
+      const files = await Promise.all(sources.map(toGenericFile));
+
+      // Fund the whole mint up front so the wallet is only asked once
+      const quote = await quoteMint(umi, [metadata], files);
+      if (quote.shortfall.basisPoints > 0) {
+        setPhase("funding");
+        await fundUpload(umi.uploader, quote.shortfall);
+      }
+
+      setPhase("uploading");
+      const uris = await umi.uploader.upload(files);
+      // Record the real MIME type of each file alongside its uploaded URI
+      const [image, animation] = uploadedFiles(sources, uris);
+
       // Create proper metadata JSON following Metaplex standard
-      const metadataJson = {
-        name: metadata.name,
-        symbol: metadata.symbol,
-        description: metadata.description,
-        image: metadata.image,
-        attributes: metadata.attributes || [],
-        properties: {
-          files: [{ uri: metadata.image, type: "image/png" }],
-          category: "image",
-          creators: [
-            {
-              address: wallet.publicKey!.toString(),
-              share: 100,
-            },
-          ],
-        },
-      };
-
-      // Convert JSON to bytes for upload
-      const metadataBytes = new TextEncoder().encode(JSON.stringify(metadataJson));
-
-      // Upload to Arweave via Irys and get the permanent URI
-      const [uri] = await umi.uploader.upload([metadataBytes]);
-      
-      return uri;
+      const metadataJson = buildMetadataJson(
+        metadata,
+        wallet.publicKey!.toString(),
+        image,
+        animation
+      );
+
+      // Upload the JSON and get its permanent URI
+      return umi.uploader.uploadJson(metadataJson);
     },
     [wallet]
   );
@@ -68,57 +94,54 @@ export function useMintNFT() {
 
       setLoading(true);
       setError(null);
+      setStage(null);
+      setPhase(null);
 
       try {
-        // Create Umi instance with Irys uploader for Arweave
-        const umi = createUmi(RPC_ENDPOINT)
-          .use(mplTokenMetadata())
-          .use(irysUploader());
-        umi.use(walletAdapterIdentity(wallet));
+        const umi = getUmi();
 
         // Generate a new mint address
         const mint = generateSigner(umi);
 
-        // Upload metadata to Arweave and get URI
+        // Upload files and metadata and get the metadata URI
         const metadataUri = await uploadMetadata(umi, metadata);
+        setPhase(null);
 
-        // Create the NFT with Arweave metadata URI
+        // Create the NFT with the uploaded metadata URI
         // This will create the NFT AND mint it to your wallet (tokenOwner defaults to identity)
-        const tx = await createNft(umi, {
-          mint,
-          name: metadata.name,
-          symbol: metadata.symbol,
-          uri: metadataUri,
-          sellerFeeBasisPoints: percentAmount(5), // 5% royalty
-          creators: some([
-            {
-              address: umi.identity.publicKey,
-              verified: true,
-              share: 100,
-            },
-          ]),
-        }).sendAndConfirm(umi);
-
-        const signature = base58.deserialize(tx.signature)[0];
+        const builder = createMintBuilder(umi, metadata, mint, metadataUri);
+
+        // Send through the transaction manager so the mint is rebroadcast and
+        // re-signed with a fresh blockhash if it expires
+        await sendWithRetry(connection, signUmiBuilder(umi, builder), { onStage: setStage });
+
+        // The collection's item count changed
+        if (metadata.collection) {
+          await invalidateMetadata([new PublicKey(metadata.collection.mint)]);
+        }
 
         return mint.publicKey.toString();
       } catch (err) {
         if (process.env.NODE_ENV === "development") {
           console.error("Mint error:", err);
         }
-        setError(err instanceof Error ? err.message : "Failed to mint NFT");
+        setError(decodeTransactionError(err).message);
         return null;
       } finally {
         setLoading(false);
+        setPhase(null);
       }
     },
-    [wallet, uploadMetadata]
+    [connection, wallet, getUmi, uploadMetadata]
   );
 
   return {
     mintNFT,
+    estimateUpload,
     loading,
     error,
+    stage,
+    phase,
     setError,
   };
 }
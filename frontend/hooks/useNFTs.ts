@@ -4,8 +4,10 @@ import { useState, useEffect, useCallback } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { PublicKey } from "@solana/web3.js";
 import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
-import { NFTMetadata, getListingPDA, fetchNFTMetadataFromChain } from "@/lib/program";
+import { NFTMetadata } from "@/lib/program";
+import { getNFTMetadataBatch } from "@/lib/metadataCache";
 import { PLACEHOLDER_IMAGE } from "@/lib/constants";
+import { useReadOnlyClient } from "@/hooks/useProgram";
 
 export interface OwnedNFT {
   mint: PublicKey;
@@ -19,6 +21,7 @@ export interface OwnedNFT {
 export function useOwnedNFTs() {
   const { connection } = useConnection();
   const { publicKey } = useWallet();
+  const client = useReadOnlyClient();
   const [nfts, setNfts] = useState<OwnedNFT[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -59,31 +62,24 @@ export function useOwnedNFTs() {
           };
         });
 
-      // Check which NFTs are listed and fetch their metadata
-      const nftsWithListingStatus = await Promise.all(
-        nftAccounts.map(async (nft) => {
-          try {
-            const [listingPDA] = getListingPDA(nft.mint);
-            const listingAccount = await connection.getAccountInfo(listingPDA);
-            
-            // Fetch real metadata from on-chain
-            const metadata = await fetchNFTMetadataFromChain(connection, nft.mint);
-            
-            return {
-              ...nft,
-              isListed: listingAccount !== null,
-              metadata,
-            };
-          } catch (err) {
-            console.error(`Error fetching metadata for ${nft.mint.toString()}:`, err);
-            return {
-              ...nft,
-              isListed: false,
-              metadata: undefined,
-            };
-          }
-        })
+      // Check which NFTs are listed in one batched lookup
+      const activeListings = client
+        ? await client.fetchListingsByMints(nftAccounts.map((nft) => nft.mint))
+        : [];
+      const listedMints = new Set(
+        activeListings.map((l) => l.account.nftMint.toString())
+      );
+
+      // Fetch metadata for all NFTs through the shared cache
+      const metadata = await getNFTMetadataBatch(
+        connection,
+        nftAccounts.map((nft) => nft.mint)
       );
+      const nftsWithListingStatus = nftAccounts.map((nft) => ({
+        ...nft,
+        isListed: listedMints.has(nft.mint.toString()),
+        metadata: metadata.get(nft.mint.toBase58()),
+      }));
 
       setNfts(nftsWithListingStatus);
     } catch (err) {
@@ -92,7 +88,7 @@ export function useOwnedNFTs() {
     } finally {
       setLoading(false);
     }
-  }, [connection, publicKey]);
+  }, [connection, client, publicKey]);
 
   useEffect(() => {
     refetch();
@@ -110,6 +106,9 @@ export function useNFTs() {
     mint: nft.mint.toString(),
     name: nft.metadata?.name || `NFT #${nft.mint.toString().slice(0, 4)}`,
     image: nft.metadata?.image || PLACEHOLDER_IMAGE,
+    animationUrl: nft.metadata?.animationUrl,
+    files: nft.metadata?.files,
+    category: nft.metadata?.category,
     description: nft.metadata?.description,
     symbol: nft.metadata?.symbol,
     attributes: nft.metadata?.attributes,
@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  DEFAULT_PRIORITY_LEVEL,
+  PRIORITY_LEVELS,
+  PriorityLevel,
+} from "@/lib/priorityFees";
+
+const STORAGE_KEY = "pixelmart_priority_level";
+// Fired on the window when the level changes in this tab; the storage event
+// only covers other tabs
+const CHANGE_EVENT = "pixelmart:priority-level";
+
+function readLevel(): PriorityLevel {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && stored in PRIORITY_LEVELS ? (stored as PriorityLevel) : DEFAULT_PRIORITY_LEVEL;
+  } catch {
+    return DEFAULT_PRIORITY_LEVEL;
+  }
+}
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(CHANGE_EVENT, onChange);
+  };
+}
+
+// Transaction priority chosen in the wallet sheet, persisted in localStorage
+export function usePriorityLevel() {
+  const level = useSyncExternalStore(subscribe, readLevel, () => DEFAULT_PRIORITY_LEVEL);
+
+  const setLevel = useCallback((next: PriorityLevel) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage unavailable; keep the current level
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return { level, setLevel };
+}
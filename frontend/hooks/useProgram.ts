@@ -3,31 +3,58 @@
 import { useMemo } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { AnchorProvider, Program } from "@coral-xyz/anchor";
-import { getProgram, Marketplace } from "@/lib/program";
+import { PixelMartClient } from "@/lib/client";
+import { Marketplace } from "@/lib/program";
+import { ALLOW_MARKETPLACE_INIT, MARKETPLACE_ADMIN } from "@/lib/constants";
+import { usePriorityLevel } from "@/hooks/usePriorityLevel";
 
-export function useProgram(): Program<Marketplace> | null {
+// Marketplace client signing with the connected wallet, or null when
+// disconnected or when no marketplace is configured. Transactions use the
+// priority level chosen in the wallet sheet.
+export function usePixelMartClient(): PixelMartClient | null {
   const { connection } = useConnection();
   const wallet = useWallet();
+  const { level } = usePriorityLevel();
 
-  const program = useMemo(() => {
+  return useMemo(() => {
+    if (!MARKETPLACE_ADMIN) {
+      return null;
+    }
     if (!wallet.publicKey || !wallet.signTransaction || !wallet.signAllTransactions) {
       return null;
     }
 
-    const provider = new AnchorProvider(
+    return new PixelMartClient({
       connection,
-      {
+      marketplaceAdmin: MARKETPLACE_ADMIN,
+      allowMarketplaceInit: ALLOW_MARKETPLACE_INIT,
+      priorityLevel: level,
+      signer: {
         publicKey: wallet.publicKey,
         signTransaction: wallet.signTransaction,
         signAllTransactions: wallet.signAllTransactions,
       },
-      { commitment: "confirmed" }
-    );
+    });
+  }, [connection, wallet, level]);
+}
 
-    return getProgram(provider);
-  }, [connection, wallet]);
+// Marketplace client for fetching data, available without a wallet.
+// Null when no marketplace is configured.
+export function useReadOnlyClient(): PixelMartClient | null {
+  const { connection } = useConnection();
 
-  return program;
+  return useMemo(
+    () =>
+      MARKETPLACE_ADMIN
+        ? new PixelMartClient({ connection, marketplaceAdmin: MARKETPLACE_ADMIN })
+        : null,
+    [connection]
+  );
+}
+
+export function useProgram(): Program<Marketplace> | null {
+  const client = usePixelMartClient();
+  return client?.program ?? null;
 }
 
 export function useAnchorProvider(): AnchorProvider | null {
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { NFTAttribute } from "@/lib/attributes";
+import { groupByCollection } from "@/lib/collections";
+import { fetchCollectionAssets } from "@/lib/das";
+import { getNFTMetadataBatch } from "@/lib/metadataCache";
+import { ListingWithMetadata } from "@/lib/program";
+import { RarityScore, computeRarity } from "@/lib/rarity";
+
+type Population = Array<{ mint: string; attributes?: NFTAttribute[] }>;
+
+// Every item of a verified collection with its attributes, or null when the
+// RPC has no DAS index, by endpoint and collection. Shared by the pages of a
+// session.
+const populations = new Map<string, Promise<Population | null>>();
+
+function loadPopulation(connection: Connection, collection: string) {
+  const key = `${connection.rpcEndpoint}:${collection}`;
+  let population = populations.get(key);
+  if (!population) {
+    population = fetchCollectionAssets(collection, connection.rpcEndpoint).then(async (assets) => {
+      if (!assets) return null;
+      const metadata = await getNFTMetadataBatch(
+        connection,
+        assets.map((asset) => new PublicKey(asset.mint))
+      );
+      return assets.flatMap((asset) => {
+        const itemMetadata = metadata.get(asset.mint);
+        return itemMetadata ? [{ mint: asset.mint, attributes: itemMetadata.attributes }] : [];
+      });
+    });
+    // Try again next time rather than caching a failure
+    population.catch(() => populations.delete(key));
+    populations.set(key, population);
+  }
+  return population;
+}
+
+// Rarity of listed NFTs, each within its collection keyed by mint. Verified
+// collections are ranked in full when the RPC has a DAS index; otherwise,
+// and for unverified collection names, among the listings given.
+export function useRarity(listings: ListingWithMetadata[]) {
+  const { connection } = useConnection();
+  // Full collections by address, null where there is no index
+  const [indexed, setIndexed] = useState<Map<string, Population | null>>(new Map());
+
+  const groups = useMemo(
+    () => groupByCollection(listings, (listing) => listing.metadata),
+    [listings]
+  );
+  const addresses = useMemo(
+    () => groups.flatMap((group) => (group.address ? [group.address] : [])),
+    [groups]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    for (const address of addresses) {
+      loadPopulation(connection, address)
+        .catch(() => null)
+        .then((population) => {
+          if (cancelled) return;
+          setIndexed((current) =>
+            current.get(address) === population ? current : new Map(current).set(address, population)
+          );
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, addresses]);
+
+  const rarity = useMemo(() => {
+    const result = new Map<string, RarityScore>();
+    for (const group of groups) {
+      const full = group.address ? indexed.get(group.address) : null;
+      const scores = full
+        ? computeRarity(full, true)
+        : computeRarity(
+            group.items.map((listing) => ({
+              mint: listing.account.nftMint.toBase58(),
+              attributes: listing.metadata?.attributes,
+            })),
+            false
+          );
+      scores.forEach((score, mint) => result.set(mint, score));
+    }
+    return result;
+  }, [groups, indexed]);
+
+  return {
+    rarity,
+    // Until every verified collection has been looked up
+    loading: addresses.some((address) => !indexed.has(address)),
+  };
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { findMetadataPda, verifyCreatorV1 } from "@metaplex-foundation/mpl-token-metadata";
+import { publicKey } from "@metaplex-foundation/umi";
+import { RoyaltyInfo, royaltyInfoFromMetadata } from "@/lib/program";
+import { getNFTMetadata, invalidateMetadata } from "@/lib/metadataCache";
+import { SendOptions, sendWithRetry } from "@/lib/transactionManager";
+import { createWalletUmi, signUmiBuilder } from "@/lib/umi";
+
+// Fetch the creator royalty settings buy_nft enforces for an NFT
+export function useRoyaltyInfo(mintAddress: string | null) {
+  const { connection } = useConnection();
+  const [royalty, setRoyalty] = useState<RoyaltyInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      if (!mintAddress) {
+        setRoyalty(null);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const metadata = await getNFTMetadata(connection, new PublicKey(mintAddress));
+        const info = royaltyInfoFromMetadata(metadata);
+        if (!cancelled) setRoyalty(info);
+      } catch (err) {
+        console.error("Error fetching royalty info:", err);
+        if (!cancelled) setRoyalty(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, mintAddress]);
+
+  return { royalty, loading };
+}
+
+// Sign an NFT's metadata as one of its creators. Co-creators are unverified
+// when minted, and only verified creators are paid royalties.
+export function useVerifyCreator() {
+  const { connection } = useConnection();
+  const wallet = useWallet();
+
+  return useCallback(
+    async (mint: PublicKey, options: SendOptions = {}): Promise<string> => {
+      if (!wallet.publicKey) {
+        throw new Error("Wallet not connected");
+      }
+
+      const umi = createWalletUmi(wallet);
+      const builder = verifyCreatorV1(umi, {
+        metadata: findMetadataPda(umi, { mint: publicKey(mint.toBase58()) }),
+        authority: umi.identity,
+      });
+      const signature = await sendWithRetry(connection, signUmiBuilder(umi, builder), options);
+      await invalidateMetadata([mint]);
+      return signature;
+    },
+    [connection, wallet]
+  );
+}
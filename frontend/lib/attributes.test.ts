@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { NFTAttribute, matchesTraits, toggleTraitValue, traitFacets } from "./attributes";
+
+const items: NFTAttribute[][] = [
+  [
+    { trait_type: "Background", value: "Red" },
+    { trait_type: "Hat", value: "Cap" },
+  ],
+  [
+    { trait_type: "Background", value: "Blue" },
+    { trait_type: "Hat", value: "Cap" },
+  ],
+  [
+    { trait_type: "Background", value: "Red" },
+    // Repeated attributes count once
+    { trait_type: "Background", value: "Red" },
+  ],
+  [
+    { trait_type: "Background", value: "Red" },
+    { trait_type: "Level", value: 3, max_value: 10 },
+  ],
+];
+
+describe("matchesTraits", () => {
+  it("needs one selected value of every filtered trait", () => {
+    const filter = { Background: ["Red", "Green"], Hat: ["Cap"] };
+    expect(matchesTraits(items[0], filter)).toBe(true);
+    expect(matchesTraits(items[1], filter)).toBe(false);
+    expect(matchesTraits(items[2], filter)).toBe(false);
+    expect(matchesTraits(undefined, filter)).toBe(false);
+    expect(matchesTraits(undefined, {})).toBe(true);
+  });
+
+  it("compares numbers by their string value and can ignore a trait", () => {
+    expect(matchesTraits(items[3], { Level: ["3"] })).toBe(true);
+    expect(matchesTraits(items[1], { Background: ["Red"], Hat: ["Cap"] }, "Background")).toBe(true);
+  });
+});
+
+describe("traitFacets", () => {
+  it("counts each value under the other traits' selections", () => {
+    const facets = traitFacets(items, (item) => item, { Background: ["Red"] });
+
+    // Traits most items have come first
+    expect(facets.map((facet) => facet.traitType)).toEqual(["Background", "Hat", "Level"]);
+    expect(facets[0]).toEqual({
+      traitType: "Background",
+      values: [
+        { value: "Red", label: "Red", count: 3 },
+        { value: "Blue", label: "Blue", count: 1 },
+      ],
+      selected: 1,
+    });
+    expect(facets[1].values).toEqual([{ value: "Cap", label: "Cap", count: 1 }]);
+    expect(facets[2].values).toEqual([{ value: "3", label: "3 of 10", count: 1 }]);
+  });
+
+  it("keeps selected values no item has", () => {
+    const facets = traitFacets(items, (item) => item, { Hat: ["Crown"] });
+    const hat = facets.find((facet) => facet.traitType === "Hat")!;
+    expect(hat.values).toEqual([
+      { value: "Cap", label: "Cap", count: 2 },
+      { value: "Crown", label: "Crown", count: 0 },
+    ]);
+    expect(hat.selected).toBe(1);
+    expect(facets[0].values.every((value) => value.count === 0)).toBe(true);
+  });
+});
+
+describe("toggleTraitValue", () => {
+  it("adds values and drops traits left empty", () => {
+    const filter = toggleTraitValue({}, "Hat", "Cap");
+    expect(filter).toEqual({ Hat: ["Cap"] });
+    expect(toggleTraitValue(filter, "Hat", "Crown")).toEqual({ Hat: ["Cap", "Crown"] });
+    expect(toggleTraitValue(filter, "Hat", "Cap")).toEqual({});
+  });
+});
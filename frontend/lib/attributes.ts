@@ -0,0 +1,302 @@
+// NFT attributes as written in Metaplex JSON, which follows the OpenSea
+// convention: `display_type` says how a numeric value should be shown and
+// dates are unix timestamps in seconds.
+
+export interface NFTAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: string;
+  max_value?: number;
+}
+
+// Value types offered by the attribute editor
+export type AttributeValueType = "string" | "number" | "boost" | "date";
+
+export const ATTRIBUTE_VALUE_TYPES: Record<AttributeValueType, string> = {
+  string: "Text",
+  number: "Number",
+  boost: "Boost",
+  date: "Date",
+};
+
+// An attribute row as edited on the mint page; values are kept as typed
+export interface AttributeDraft {
+  traitType: string;
+  type: AttributeValueType;
+  value: string;
+}
+
+// A trait seen on existing NFTs, offered as a suggestion while editing
+export interface TraitSuggestion {
+  traitType: string;
+  type: AttributeValueType;
+  values: string[];
+  // How many NFTs carry the trait
+  count: number;
+}
+
+// Keep only well-formed attributes from untrusted metadata JSON
+export function parseAttributes(raw: unknown): NFTAttribute[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.flatMap((entry): NFTAttribute[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const { trait_type, value, display_type, max_value } = entry as Record<string, unknown>;
+    if (typeof trait_type !== "string" || !trait_type.trim()) return [];
+    if (typeof value !== "string" && (typeof value !== "number" || !Number.isFinite(value))) {
+      return [];
+    }
+    return [
+      {
+        trait_type,
+        value,
+        ...(typeof display_type === "string" && { display_type }),
+        ...(typeof max_value === "number" && Number.isFinite(max_value) && { max_value }),
+      },
+    ];
+  });
+}
+
+// The editor value type an attribute was written with
+export function attributeValueType(attribute: NFTAttribute): AttributeValueType {
+  switch (attribute.display_type) {
+    case "number":
+      return "number";
+    case "boost_number":
+    case "boost_percentage":
+      return "boost";
+    case "date":
+      return "date";
+    default:
+      return typeof attribute.value === "number" ? "number" : "string";
+  }
+}
+
+// How an attribute's value reads on the page
+export function formatAttributeValue(attribute: NFTAttribute): string {
+  const { value, display_type, max_value } = attribute;
+  if (typeof value !== "number") {
+    return value;
+  }
+
+  switch (display_type) {
+    case "date":
+      return new Date(value * 1000).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        // Dates are entered as UTC days
+        timeZone: "UTC",
+      });
+    case "boost_number":
+      return `${value >= 0 ? "+" : ""}${value}`;
+    case "boost_percentage":
+      return `${value >= 0 ? "+" : ""}${value}%`;
+    default:
+      return max_value !== undefined ? `${value} of ${max_value}` : String(value);
+  }
+}
+
+// Check editor rows before minting; returns an error message or null
+export function validateAttributes(drafts: AttributeDraft[]): string | null {
+  const seen = new Set<string>();
+  for (const draft of drafts) {
+    const name = draft.traitType.trim();
+    if (!name) {
+      return "Every attribute needs a trait name";
+    }
+    if (seen.has(name.toLowerCase())) {
+      return `Trait "${name}" is listed twice`;
+    }
+    seen.add(name.toLowerCase());
+
+    if (!draft.value.trim()) {
+      return `Enter a value for "${name}"`;
+    }
+    if ((draft.type === "number" || draft.type === "boost") && !Number.isFinite(Number(draft.value))) {
+      return `"${name}" must be a number`;
+    }
+    if (draft.type === "date" && Number.isNaN(Date.parse(draft.value))) {
+      return `"${name}" must be a date`;
+    }
+  }
+  return null;
+}
+
+// Convert validated editor rows to metadata JSON attributes
+export function toMetadataAttributes(drafts: AttributeDraft[]): NFTAttribute[] {
+  return drafts.map(({ traitType, type, value }) => {
+    const trait_type = traitType.trim();
+    switch (type) {
+      case "number":
+        return { trait_type, value: Number(value), display_type: "number" };
+      case "boost":
+        return { trait_type, value: Number(value), display_type: "boost_number" };
+      case "date":
+        return {
+          trait_type,
+          value: Math.floor(Date.parse(value) / 1000),
+          display_type: "date",
+        };
+      default:
+        return { trait_type, value: value.trim() };
+    }
+  });
+}
+
+// Traits used across a set of NFTs, most common first, with their distinct
+// values as the editor would show them
+export function collectTraits(
+  nfts: Array<{ attributes?: NFTAttribute[] } | undefined>
+): TraitSuggestion[] {
+  const traits = new Map<string, { type: AttributeValueType; values: Set<string>; count: number }>();
+
+  for (const nft of nfts) {
+    for (const attribute of nft?.attributes ?? []) {
+      const entry = traits.get(attribute.trait_type) ?? {
+        type: attributeValueType(attribute),
+        values: new Set<string>(),
+        count: 0,
+      };
+      entry.values.add(draftValue(attribute));
+      entry.count++;
+      traits.set(attribute.trait_type, entry);
+    }
+  }
+
+  return [...traits.entries()]
+    .map(([traitType, { type, values, count }]) => ({
+      traitType,
+      type,
+      values: [...values].sort(),
+      count,
+    }))
+    .sort((a, b) => b.count - a.count || a.traitType.localeCompare(b.traitType));
+}
+
+// An attribute's value in the form the editor takes it
+function draftValue(attribute: NFTAttribute): string {
+  if (attribute.display_type === "date" && typeof attribute.value === "number") {
+    return new Date(attribute.value * 1000).toISOString().slice(0, 10);
+  }
+  return String(attribute.value);
+}
+
+// Trait values selected on the explore page, by trait type. An NFT matches
+// when it has one of the selected values of every trait filtered on.
+export type TraitFilter = Record<string, string[]>;
+
+// A trait's values with how many NFTs would match if each were selected
+export interface TraitFacet {
+  traitType: string;
+  values: Array<{ value: string; label: string; count: number }>;
+  // Selected values of this trait
+  selected: number;
+}
+
+// The value an attribute is filtered by
+export function traitFilterValue(attribute: NFTAttribute): string {
+  return String(attribute.value);
+}
+
+// Whether attributes pass the filter, optionally ignoring one trait type
+export function matchesTraits(
+  attributes: NFTAttribute[] | undefined,
+  filter: TraitFilter,
+  ignoreTrait?: string
+): boolean {
+  return Object.entries(filter).every(
+    ([traitType, values]) =>
+      traitType === ignoreTrait ||
+      values.length === 0 ||
+      (attributes ?? []).some(
+        (attribute) =>
+          attribute.trait_type === traitType && values.includes(traitFilterValue(attribute))
+      )
+  );
+}
+
+// Facets for every trait among the items. Each trait's counts apply the
+// other traits' selections but not its own, so they show what selecting one
+// more value would add. Values keep their order as counts change, and
+// selected values stay listed even when no item has them.
+export function traitFacets<T>(
+  items: T[],
+  getAttributes: (item: T) => NFTAttribute[] | undefined,
+  filter: TraitFilter
+): TraitFacet[] {
+  type ValueEntry = { label: string; total: number; count: number };
+  const traits = new Map<string, { items: number; values: Map<string, ValueEntry> }>();
+  const traitEntry = (traitType: string) => {
+    const trait = traits.get(traitType) ?? { items: 0, values: new Map<string, ValueEntry>() };
+    traits.set(traitType, trait);
+    return trait;
+  };
+
+  for (const item of items) {
+    const attributes = getAttributes(item) ?? [];
+    const seenTraits = new Set<string>();
+    const seenValues = new Set<string>();
+    for (const attribute of attributes) {
+      const value = traitFilterValue(attribute);
+      const id = `${attribute.trait_type}\u0000${value}`;
+      if (seenValues.has(id)) continue;
+      seenValues.add(id);
+
+      const trait = traitEntry(attribute.trait_type);
+      if (!seenTraits.has(attribute.trait_type)) {
+        seenTraits.add(attribute.trait_type);
+        trait.items++;
+      }
+      const entry = trait.values.get(value) ?? {
+        label: formatAttributeValue(attribute),
+        total: 0,
+        count: 0,
+      };
+      entry.total++;
+      if (matchesTraits(attributes, filter, attribute.trait_type)) {
+        entry.count++;
+      }
+      trait.values.set(value, entry);
+    }
+  }
+
+  for (const [traitType, values] of Object.entries(filter)) {
+    const trait = traitEntry(traitType);
+    for (const value of values) {
+      if (!trait.values.has(value)) {
+        trait.values.set(value, { label: value, total: 0, count: 0 });
+      }
+    }
+  }
+
+  return [...traits.entries()]
+    .sort(([a, x], [b, y]) => y.items - x.items || a.localeCompare(b))
+    .map(([traitType, trait]) => ({
+      traitType,
+      values: [...trait.values.entries()]
+        .sort(
+          ([, a], [, b]) =>
+            b.total - a.total || a.label.localeCompare(b.label, undefined, { numeric: true })
+        )
+        .map(([value, { label, count }]) => ({ value, label, count })),
+      selected: filter[traitType]?.length ?? 0,
+    }));
+}
+
+// Select or deselect one value, dropping traits left with no selection
+export function toggleTraitValue(filter: TraitFilter, traitType: string, value: string): TraitFilter {
+  const current = filter[traitType] ?? [];
+  const values = current.includes(value)
+    ? current.filter((v) => v !== value)
+    : [...current, value];
+  const next = { ...filter };
+  if (values.length > 0) {
+    next[traitType] = values;
+  } else {
+    delete next[traitType];
+  }
+  return next;
+}
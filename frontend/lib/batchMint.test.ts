@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { BatchRow, MAX_BATCH_ROWS, parseManifest, validateBatch } from "./batchMint";
+
+function png(name: string): File {
+  return new File([new Uint8Array([137, 80, 78, 71])], name, { type: "image/png" });
+}
+
+function row(fields: Partial<BatchRow>): BatchRow {
+  return {
+    key: `${fields.name}:${fields.image}`,
+    line: 2,
+    name: "Pixel #1",
+    symbol: "PIX",
+    description: "",
+    image: "1.png",
+    attributes: [],
+    ...fields,
+  };
+}
+
+describe("parseManifest", () => {
+  it("reads quoted CSV cells and numbers rows by the line they start on", () => {
+    const { rows, errors } = parseManifest(
+      [
+        "\uFEFFname,image,description,Background,Level",
+        'Pixel #1,1.png,"Red, bold and ""loud""",Red,3',
+        '"Pixel #2",images/2.PNG,"Two',
+        'lines",Blue,',
+        "",
+        "Pixel #3,3.png,,,",
+      ].join("\r\n"),
+      "manifest.csv"
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows.map((r) => r.line)).toEqual([2, 3, 6]);
+    expect(rows[0]).toMatchObject({
+      key: "Pixel #1:1.png",
+      name: "Pixel #1",
+      description: 'Red, bold and "loud"',
+      attributes: [
+        { trait_type: "Background", value: "Red" },
+        { trait_type: "Level", value: 3, display_type: "number" },
+      ],
+    });
+    expect(rows[1].description).toBe("Two\r\nlines");
+    expect(rows[1].attributes).toEqual([{ trait_type: "Background", value: "Blue" }]);
+    expect(rows[2].attributes).toEqual([]);
+  });
+
+  it("requires name and image columns", () => {
+    const { rows, errors } = parseManifest("title,file\nPixel,1.png", "manifest.csv");
+    expect(rows).toEqual([]);
+    expect(errors).toEqual(['The CSV header needs at least "name" and "image" columns']);
+  });
+
+  it("reads JSON arrays and the items form", () => {
+    const entries = [
+      {
+        name: "Pixel #1",
+        image: "1.png",
+        animation_url: "1.mp4",
+        royalty: 5,
+        attributes: [{ trait_type: "Background", value: "Red" }],
+      },
+      { name: "Pixel #2", image: "2.png", attributes: { Background: "Blue", Level: 2 } },
+    ];
+
+    const fromArray = parseManifest(JSON.stringify(entries), "manifest.json");
+    const fromItems = parseManifest(JSON.stringify({ items: entries }), "MANIFEST.JSON");
+    expect(fromItems).toEqual(fromArray);
+    expect(fromArray.errors).toEqual([]);
+    expect(fromArray.rows[0]).toMatchObject({ line: 1, animation: "1.mp4", royalty: "5" });
+    expect(fromArray.rows[1]).toMatchObject({
+      line: 2,
+      animation: undefined,
+      attributes: [
+        { trait_type: "Background", value: "Blue" },
+        { trait_type: "Level", value: 2, display_type: "number" },
+      ],
+    });
+  });
+
+  it("reports unusable JSON", () => {
+    expect(parseManifest("{", "m.json").errors).toEqual(["The manifest is not valid JSON"]);
+    expect(parseManifest('{"rows": []}', "m.json").errors).toEqual([
+      'Expected an array of NFTs or an object with an "items" array',
+    ]);
+    expect(parseManifest("[]", "m.json").errors).toEqual(["The manifest has no rows"]);
+  });
+
+  it("limits the batch size", () => {
+    const entries = Array.from({ length: MAX_BATCH_ROWS + 1 }, (_, i) => ({
+      name: `Pixel #${i}`,
+      image: `${i}.png`,
+    }));
+    expect(parseManifest(JSON.stringify(entries), "m.json").errors).toEqual([
+      `A batch can mint at most ${MAX_BATCH_ROWS} NFTs`,
+    ]);
+  });
+});
+
+describe("validateBatch", () => {
+  it("matches files by name regardless of path and case", () => {
+    const image = png("1.png");
+    const [validated] = validateBatch([row({ image: "art/1.PNG", royalty: "5.5" })], [image]);
+    expect(validated.problems).toEqual([]);
+    expect(validated.image).toBe(image);
+    expect(validated.sellerFeeBasisPoints).toBe(550);
+  });
+
+  it("flags duplicate names after the first", () => {
+    const validated = validateBatch(
+      [
+        row({ name: "Pixel #1", image: "1.png" }),
+        row({ name: "pixel #1", image: "2.png" }),
+      ],
+      [png("1.png"), png("2.png")]
+    );
+    expect(validated[0].problems).toEqual([]);
+    expect(validated[1].problems).toEqual(['"pixel #1" appears more than once']);
+  });
+
+  it("reports missing fields and files", () => {
+    const [validated] = validateBatch(
+      [row({ name: "", image: "", animation: "1.mp4", royalty: "150" })],
+      []
+    );
+    expect(validated.problems).toEqual([
+      "Missing name",
+      "Missing image",
+      'Media file "1.mp4" was not picked',
+      "Royalty must be between 0% and 100%",
+    ]);
+    expect(validated.sellerFeeBasisPoints).toBeUndefined();
+
+    const [unpicked] = validateBatch([row({ image: "missing.png" })], [png("1.png")]);
+    expect(unpicked.problems).toEqual(['Image file "missing.png" was not picked']);
+  });
+});
@@ -0,0 +1,352 @@
+// Batch minting: a CSV or JSON manifest describes one NFT per row and names
+// its image (and optional media) among the files picked alongside it. Progress
+// is kept in localStorage per wallet and target collection, keyed by each
+// row's name and image, so an interrupted or edited batch resumes where it
+// stopped instead of minting rows twice.
+
+import { NFTAttribute, parseAttributes } from "./attributes";
+import { royaltyPercentToBasisPoints, validateRoyaltyPercent } from "./creators";
+import { MAX_NAME_LENGTH, MAX_SYMBOL_LENGTH } from "./mint";
+import { validateUploadFile } from "./uploader";
+
+// Largest manifest accepted in one batch
+export const MAX_BATCH_ROWS = 500;
+
+// Rows whose files are uploaded together, funded by one Irys top-up
+export const UPLOAD_CHUNK_SIZE = 10;
+
+// One NFT as described by the manifest
+export interface BatchRow {
+  // Stable identity of the row, used to track its progress
+  key: string;
+  // Line (CSV) or entry (JSON) number, for messages
+  line: number;
+  name: string;
+  symbol: string;
+  description: string;
+  // File names of the image and optional media among the picked files
+  image: string;
+  animation?: string;
+  attributes: NFTAttribute[];
+  // Royalty percentage as written, validated with the row
+  royalty?: string;
+}
+
+export interface ParsedManifest {
+  rows: BatchRow[];
+  // Problems with the manifest as a whole
+  errors: string[];
+}
+
+// A row with the files it refers to, or what is wrong with it
+export interface ValidatedRow {
+  row: BatchRow;
+  image?: File;
+  animation?: File;
+  sellerFeeBasisPoints?: number;
+  problems: string[];
+}
+
+// How far a row has got. A row is "minting" from the moment its mint address
+// is chosen until the transaction confirms; on resume the chain decides
+// whether it was minted.
+export type BatchRowStatus = "pending" | "uploaded" | "minting" | "minted";
+
+export interface BatchRowProgress {
+  status: BatchRowStatus;
+  // Metadata JSON URI, once uploaded
+  uri?: string;
+  mint?: string;
+  // When the mint transaction was last sent, while it may still land
+  attemptedAt?: number;
+  signature?: string;
+  // Last failure; the row is retried on the next run
+  error?: string;
+}
+
+export interface BatchProgress {
+  // Collection mint the batch goes into, or "standalone"
+  id: string;
+  owner: string;
+  rows: Record<string, BatchRowProgress>;
+  updatedAt: number;
+}
+
+const STORAGE_KEY_PREFIX = "pixelmart_batch_";
+
+// Columns with a meaning of their own; any other CSV column is a trait
+const KNOWN_COLUMNS = new Set([
+  "name",
+  "symbol",
+  "description",
+  "image",
+  "animation",
+  "animation_url",
+  "royalty",
+  "attributes",
+]);
+
+// Parse a CSV or JSON manifest, chosen by file extension
+export function parseManifest(text: string, fileName: string): ParsedManifest {
+  const parsed = fileName.toLowerCase().endsWith(".json")
+    ? parseJsonManifest(text)
+    : parseCsvManifest(text);
+
+  if (!parsed.errors.length && parsed.rows.length === 0) {
+    parsed.errors.push("The manifest has no rows");
+  }
+  if (parsed.rows.length > MAX_BATCH_ROWS) {
+    parsed.errors.push(`A batch can mint at most ${MAX_BATCH_ROWS} NFTs`);
+  }
+  return parsed;
+}
+
+// Check every row against the picked files and the Token Metadata limits
+export function validateBatch(rows: BatchRow[], files: File[]): ValidatedRow[] {
+  const byName = new Map(files.map((file) => [file.name.toLowerCase(), file]));
+  const seen = new Set<string>();
+
+  return rows.map((row) => {
+    const problems: string[] = [];
+    if (!row.name) {
+      problems.push("Missing name");
+    } else if (new TextEncoder().encode(row.name).length > MAX_NAME_LENGTH) {
+      problems.push(`Name is longer than ${MAX_NAME_LENGTH} bytes`);
+    }
+    if (new TextEncoder().encode(row.symbol).length > MAX_SYMBOL_LENGTH) {
+      problems.push(`Symbol is longer than ${MAX_SYMBOL_LENGTH} bytes`);
+    }
+    if (row.name && seen.has(row.name.toLowerCase())) {
+      problems.push(`"${row.name}" appears more than once`);
+    }
+    seen.add(row.name.toLowerCase());
+
+    const image = row.image ? byName.get(baseName(row.image)) : undefined;
+    if (!row.image) {
+      problems.push("Missing image");
+    } else if (!image) {
+      problems.push(`Image file "${row.image}" was not picked`);
+    } else {
+      const problem = validateUploadFile(image, ["image"]);
+      if (problem) problems.push(problem);
+    }
+
+    const animation = row.animation ? byName.get(baseName(row.animation)) : undefined;
+    if (row.animation && !animation) {
+      problems.push(`Media file "${row.animation}" was not picked`);
+    } else if (animation) {
+      const problem = validateUploadFile(animation, ["video", "audio", "html", "vr"]);
+      if (problem) problems.push(problem);
+    }
+
+    let sellerFeeBasisPoints: number | undefined;
+    if (row.royalty) {
+      const problem = validateRoyaltyPercent(row.royalty);
+      if (problem) {
+        problems.push(problem);
+      } else {
+        sellerFeeBasisPoints = royaltyPercentToBasisPoints(row.royalty);
+      }
+    }
+
+    return { row, image, animation, sellerFeeBasisPoints, problems };
+  });
+}
+
+// Progress is shared by every batch minted into the same collection
+export function batchId(collectionMint: string | undefined): string {
+  return collectionMint || "standalone";
+}
+
+export function loadBatchProgress(owner: string, id: string): BatchProgress {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}${owner}_${id}`);
+    if (stored) {
+      return JSON.parse(stored) as BatchProgress;
+    }
+  } catch {
+    // Storage unavailable or corrupt; start over
+  }
+  return { id, owner, rows: {}, updatedAt: Date.now() };
+}
+
+export function saveBatchProgress(progress: BatchProgress): void {
+  try {
+    localStorage.setItem(
+      `${STORAGE_KEY_PREFIX}${progress.owner}_${progress.id}`,
+      JSON.stringify(progress)
+    );
+  } catch {
+    // Storage unavailable; progress lasts for this session only
+  }
+}
+
+function parseJsonManifest(text: string): ParsedManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { rows: [], errors: ["The manifest is not valid JSON"] };
+  }
+
+  // Either an array of entries or { "items": [...] }
+  const entries =
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as Record<string, unknown>).items
+      : data;
+  if (!Array.isArray(entries)) {
+    return { rows: [], errors: ["Expected an array of NFTs or an object with an \"items\" array"] };
+  }
+
+  const rows = entries.map((entry, i): BatchRow => {
+    const fields = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    const text = (value: unknown) =>
+      typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+    // Attributes as Metaplex writes them, or a plain { trait: value } map
+    const attributes = Array.isArray(fields.attributes)
+      ? parseAttributes(fields.attributes)
+      : traitsFromRecord(fields.attributes);
+
+    return makeRow(i + 1, {
+      name: text(fields.name),
+      symbol: text(fields.symbol),
+      description: text(fields.description),
+      image: text(fields.image),
+      animation: text(fields.animation ?? fields.animation_url),
+      royalty: text(fields.royalty),
+      attributes,
+    });
+  });
+  return { rows, errors: [] };
+}
+
+function parseCsvManifest(text: string): ParsedManifest {
+  // Spreadsheet exports often start with a byte order mark
+  const records = parseCsv(text.replace(/^\uFEFF/, "")).filter((record) =>
+    record.cells.some((cell) => cell.trim())
+  );
+  if (records.length === 0) {
+    return { rows: [], errors: [] };
+  }
+
+  const header = records[0].cells.map((cell) => cell.trim());
+  const columns = header.map((cell) => cell.toLowerCase());
+  if (!columns.includes("name") || !columns.includes("image")) {
+    return { rows: [], errors: ["The CSV header needs at least \"name\" and \"image\" columns"] };
+  }
+
+  const rows = records.slice(1).map(({ cells, line }) => {
+    const get = (column: string) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? (cells[index] ?? "").trim() : "";
+    };
+
+    // An "attributes" column holds Metaplex JSON; other unknown columns are
+    // traits named by their header
+    let attributes: NFTAttribute[] = [];
+    const attributesCell = get("attributes");
+    if (attributesCell) {
+      try {
+        attributes = parseAttributes(JSON.parse(attributesCell));
+      } catch {
+        attributes = [];
+      }
+    }
+    header.forEach((trait, index) => {
+      const value = (cells[index] ?? "").trim();
+      if (!KNOWN_COLUMNS.has(columns[index]) && trait && value) {
+        attributes.push(traitAttribute(trait, value));
+      }
+    });
+
+    return makeRow(line, {
+      name: get("name"),
+      symbol: get("symbol"),
+      description: get("description"),
+      image: get("image"),
+      animation: get("animation") || get("animation_url"),
+      royalty: get("royalty"),
+      attributes,
+    });
+  });
+  return { rows, errors: [] };
+}
+
+function makeRow(line: number, fields: Omit<BatchRow, "key" | "line">): BatchRow {
+  return {
+    ...fields,
+    // Names are unique within a batch; with the image they identify the row
+    // across runs and manifest edits
+    key: `${fields.name}:${fields.image}`,
+    line,
+    animation: fields.animation || undefined,
+    royalty: fields.royalty || undefined,
+  };
+}
+
+function traitsFromRecord(value: unknown): NFTAttribute[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return [];
+  }
+  return Object.entries(value as Record<string, unknown>).flatMap(([trait, v]) =>
+    typeof v === "string" || typeof v === "number" ? [traitAttribute(trait, String(v))] : []
+  );
+}
+
+// Numeric cells become number traits, everything else text
+function traitAttribute(trait_type: string, value: string): NFTAttribute {
+  const number = Number(value);
+  return value.trim() && Number.isFinite(number)
+    ? { trait_type, value: number, display_type: "number" }
+    : { trait_type, value };
+}
+
+// Manifests may refer to files by path; files are matched by name
+function baseName(path: string): string {
+  return (path.split(/[\\/]/).pop() ?? "").toLowerCase();
+}
+
+// RFC 4180 CSV: quoted cells may hold commas, newlines and doubled quotes.
+// Each record keeps the line it starts on.
+function parseCsv(text: string): Array<{ cells: string[]; line: number }> {
+  const records: Array<{ cells: string[]; line: number }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      cells.push(cell);
+      records.push({ cells, line: start });
+      cells = [];
+      cell = "";
+      start = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length) {
+    cells.push(cell);
+    records.push({ cells, line: start });
+  }
+  return records;
+}
@@ -0,0 +1,276 @@
+import { BN, utils } from "@coral-xyz/anchor";
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+} from "@solana/web3.js";
+import { describe, expect, it, vi } from "vitest";
+import { PixelMartClient, PixelMartSigner, decodeListing } from "./client";
+import idl from "./marketplace.json";
+
+// Never contacted; decoding needs only the program's coder
+const client = new PixelMartClient({
+  connection: new Connection("http://127.0.0.1:8899"),
+  marketplaceAdmin: PublicKey.unique(),
+});
+const coder = client.program.coder;
+
+const fields = {
+  seller: PublicKey.unique(),
+  nftMint: PublicKey.unique(),
+  price: new BN(1_500_000_000),
+  bump: 254,
+  isActive: true,
+  createdAt: new BN(1_760_000_000),
+  priceUpdatedAt: new BN(1_760_003_600),
+};
+
+describe("decodeListing", () => {
+  it("decodes current listing accounts", async () => {
+    const data = await coder.accounts.encode("listing", fields);
+    expect(data.length).toBe(98);
+
+    const listing = decodeListing(coder, data);
+    expect(listing.seller.equals(fields.seller)).toBe(true);
+    expect(listing.price.toString()).toBe("1500000000");
+    expect(listing.createdAt.toNumber()).toBe(1_760_000_000);
+    expect(listing.priceUpdatedAt.toNumber()).toBe(1_760_003_600);
+  });
+
+  it("reads legacy 82-byte listings with zero timestamps", async () => {
+    // Accounts from before the timestamps end right after is_active
+    const data = (await coder.accounts.encode("listing", fields)).subarray(0, 82);
+
+    const listing = decodeListing(coder, data);
+    expect(listing.seller.equals(fields.seller)).toBe(true);
+    expect(listing.nftMint.equals(fields.nftMint)).toBe(true);
+    expect(listing.price.toString()).toBe("1500000000");
+    expect(listing.bump).toBe(254);
+    expect(listing.isActive).toBe(true);
+    expect(listing.createdAt.isZero()).toBe(true);
+    expect(listing.priceUpdatedAt.isZero()).toBe(true);
+  });
+});
+
+const BUY_NFT = idl.instructions.find((ix) => ix.name === "buy_nft")!;
+
+// A confirmed transaction with one buy_nft instruction, as getTransactions
+// returns it, and the system transfers the program made from the buyer
+function buyNftTransaction(
+  accounts: Record<string, PublicKey>,
+  data: Buffer,
+  transfers: Array<{ to: PublicKey; lamports: number }>
+) {
+  const instruction = new TransactionInstruction({
+    programId: client.programId,
+    keys: BUY_NFT.accounts.map((account) => ({
+      pubkey: accounts[account.name] ?? PublicKey.unique(),
+      isSigner: account.name === "buyer",
+      isWritable: true,
+    })),
+    data,
+  });
+  const message = new TransactionMessage({
+    payerKey: accounts.buyer,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [instruction],
+  }).compileToV0Message();
+  const index = (key: PublicKey) => message.staticAccountKeys.findIndex((k) => k.equals(key));
+
+  return {
+    slot: 1,
+    blockTime: 1_760_000_000,
+    transaction: { message, signatures: ["sale"] },
+    meta: {
+      err: null,
+      innerInstructions: [
+        {
+          index: 0,
+          instructions: transfers.map(({ to, lamports }) => {
+            const transfer = Buffer.alloc(12);
+            transfer.writeUInt32LE(2, 0);
+            transfer.writeBigUInt64LE(BigInt(lamports), 4);
+            return {
+              programIdIndex: index(SystemProgram.programId),
+              accounts: [index(accounts.buyer), index(to)],
+              data: utils.bytes.bs58.encode(transfer),
+            };
+          }),
+        },
+      ],
+      loadedAddresses: { writable: [], readonly: [] },
+    },
+  };
+}
+
+describe("fetchSales", () => {
+  const accounts = {
+    buyer: PublicKey.unique(),
+    seller: PublicKey.unique(),
+    admin: PublicKey.unique(),
+    nft_mint: PublicKey.unique(),
+    buyer_token_account: PublicKey.unique(),
+    system_program: SystemProgram.programId,
+  };
+
+  function clientWithSales(endpoint: string, transaction: unknown) {
+    const connection = {
+      rpcEndpoint: endpoint,
+      getSignaturesForAddress: vi.fn(async (_address: PublicKey, options?: { until?: string }) =>
+        options?.until ? [] : [{ signature: "sale", err: null }]
+      ),
+      getTransactions: vi.fn(async () => [transaction]),
+    };
+    return {
+      connection,
+      salesClient: new PixelMartClient({
+        connection: connection as unknown as Connection,
+        marketplaceAdmin: PublicKey.unique(),
+      }),
+    };
+  }
+
+  it("prices purchases by what the buyer paid the seller and marketplace", async () => {
+    // buy_nft from before it took the expected price: no arguments at all
+    const { salesClient } = clientWithSales(
+      "http://legacy-sale.test",
+      buyNftTransaction(accounts, Buffer.from(BUY_NFT.discriminator), [
+        { to: accounts.seller, lamports: 975_000_000 },
+        { to: accounts.admin, lamports: 25_000_000 },
+        // Rent for the buyer's token account is not part of the price
+        { to: accounts.buyer_token_account, lamports: 2_039_280 },
+      ])
+    );
+
+    const [sale] = await salesClient.fetchSales();
+    expect(sale.price.toNumber()).toBe(1_000_000_000);
+    expect(sale.seller.equals(accounts.seller)).toBe(true);
+    expect(sale.buyer.equals(accounts.buyer)).toBe(true);
+    expect(sale.nftMint.equals(accounts.nft_mint)).toBe(true);
+    expect(sale.blockTime).toBe(1_760_000_000);
+  });
+
+  it("only scans transactions newer than those already read", async () => {
+    const { connection, salesClient } = clientWithSales(
+      "http://cached-sales.test",
+      buyNftTransaction(
+        accounts,
+        coder.instruction.encode("buyNft", { expectedPrice: new BN(1_000_000_000) }),
+        [{ to: accounts.seller, lamports: 1_000_000_000 }]
+      )
+    );
+    expect(await salesClient.fetchSales()).toHaveLength(1);
+
+    const again = await salesClient.fetchSales();
+    expect(again).toHaveLength(1);
+    expect(connection.getSignaturesForAddress).toHaveBeenLastCalledWith(
+      salesClient.marketplacePDA,
+      expect.objectContaining({ until: "sale" })
+    );
+    expect(connection.getTransactions).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads back to the cached sales when more arrive than the limit", async () => {
+    // Newest first, as getSignaturesForAddress returns them
+    let history = ["sale-2", "sale-1"];
+    const transaction = buyNftTransaction(
+      accounts,
+      coder.instruction.encode("buyNft", { expectedPrice: new BN(1_000_000_000) }),
+      [{ to: accounts.seller, lamports: 1_000_000_000 }]
+    );
+    const connection = {
+      rpcEndpoint: "http://busy-sales.test",
+      getSignaturesForAddress: vi.fn(
+        async (_address: PublicKey, options: { before?: string; until?: string; limit: number }) => {
+          const start = options.before ? history.indexOf(options.before) + 1 : 0;
+          const end = options.until ? history.indexOf(options.until) : history.length;
+          return history
+            .slice(start, end)
+            .slice(0, options.limit)
+            .map((signature) => ({ signature, err: null }));
+        }
+      ),
+      getTransactions: vi.fn(async (signatures: string[]) => signatures.map(() => transaction)),
+    };
+    const busyClient = new PixelMartClient({
+      connection: connection as unknown as Connection,
+      marketplaceAdmin: PublicKey.unique(),
+    });
+    const signatures = (sales: { signature: string }[]) => sales.map((sale) => sale.signature);
+
+    expect(signatures(await busyClient.fetchSales(2))).toEqual(["sale-2", "sale-1"]);
+
+    history = ["sale-5", "sale-4", "sale-3", ...history];
+    expect(signatures(await busyClient.fetchSales(2))).toEqual([
+      "sale-5",
+      "sale-4",
+      "sale-2",
+      "sale-1",
+    ]);
+    // The next read picks up below sale-4 instead of skipping sale-3
+    expect(signatures(await busyClient.fetchSales(2))).toEqual([
+      "sale-5",
+      "sale-4",
+      "sale-3",
+      "sale-2",
+      "sale-1",
+    ]);
+
+    history = ["sale-6", ...history];
+    expect(signatures(await busyClient.fetchSales(2))).toEqual([
+      "sale-6",
+      "sale-5",
+      "sale-4",
+      "sale-3",
+      "sale-2",
+      "sale-1",
+    ]);
+    expect(connection.getSignaturesForAddress).toHaveBeenLastCalledWith(
+      busyClient.marketplacePDA,
+      expect.objectContaining({ until: "sale-5" })
+    );
+  });
+});
+
+describe("send", () => {
+  it("does not sign transactions whose simulation failed", async () => {
+    const signTransaction = vi.fn();
+    const signer: PixelMartSigner = {
+      publicKey: PublicKey.unique(),
+      signTransaction,
+      signAllTransactions: vi.fn(),
+    };
+    const connection = {
+      rpcEndpoint: "http://failed-simulation.test",
+      getAccountInfo: vi.fn(async () => null),
+      getLatestBlockhash: vi.fn(async () => ({
+        blockhash: PublicKey.default.toBase58(),
+        lastValidBlockHeight: 100,
+      })),
+      simulateTransaction: vi.fn(async () => ({
+        context: { slot: 1 },
+        value: {
+          err: { InstructionError: [2, { Custom: 6000 }] },
+          logs: ["Program log: AnchorError occurred. Error Code: ListingNotActive. Error Number: 6000."],
+          unitsConsumed: 5_000,
+        },
+      })),
+      getRecentPrioritizationFees: vi.fn(async () => []),
+      sendRawTransaction: vi.fn(),
+    };
+    const sellerClient = new PixelMartClient({
+      connection: connection as unknown as Connection,
+      marketplaceAdmin: PublicKey.unique(),
+      signer,
+      skipPreflight: true,
+    });
+
+    await expect(
+      sellerClient.updateListingPrice(PublicKey.unique(), 2_000_000_000)
+    ).rejects.toMatchObject({ kind: "program", code: "ListingNotActive" });
+    expect(signTransaction).not.toHaveBeenCalled();
+    expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,1021 @@
+import {
+  AnchorError,
+  AnchorProvider,
+  Program,
+  BN,
+  Coder,
+  parseIdlErrors,
+  translateError,
+  utils,
+} from "@coral-xyz/anchor";
+import {
+  AccountInfo,
+  AccountMeta,
+  Commitment,
+  Connection,
+  GetProgramAccountsFilter,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  SimulatedTransactionResponse,
+  VersionedMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { ACCOUNT_SIZE, getAssociatedTokenAddress } from "@solana/spl-token";
+import idl from "./marketplace.json";
+import {
+  Marketplace,
+  ListingAccount,
+  ListingWithMetadata,
+  RoyaltyInfo,
+  Sale,
+  SaleBreakdown,
+  getMarketplacePDA,
+  getListingPDA,
+  getEscrowPDA,
+  getMetadataPDA,
+  fetchRoyaltyInfo,
+  computeSaleBreakdown,
+} from "./program";
+import { PROGRAM_ID } from "./constants";
+import { PixelMartError, PriceChangedError, decodeTransactionError } from "./errors";
+import {
+  DEFAULT_PRIORITY_LEVEL,
+  PriorityLevel,
+  buildComputeBudgetInstructions,
+  getComputeUnitLimit,
+  getPriorityFee,
+  getWritableAccounts,
+} from "./priorityFees";
+import { SendOptions, sendWithRetry, signInstructions } from "./transactionManager";
+
+export { PriceChangedError };
+
+// Anything that can sign transactions: a wallet-adapter wallet, an Anchor
+// NodeWallet or a thin wrapper around a Keypair in scripts.
+export interface PixelMartSigner {
+  publicKey: PublicKey;
+  signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
+  signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]>;
+}
+
+export interface PixelMartClientConfig {
+  connection: Connection;
+  programId?: PublicKey;
+  // Admin key of the marketplace to trade on. Several marketplaces can live
+  // on the same program, so this is always explicit.
+  marketplaceAdmin: PublicKey;
+  signer?: PixelMartSigner;
+  commitment?: Commitment;
+  // Let listNft create the configured marketplace when it does not exist yet.
+  // Only works when the signer is the configured admin.
+  allowMarketplaceInit?: boolean;
+  // Priority fee level for every transaction the client sends
+  priorityLevel?: PriorityLevel;
+  // Skip the RPC preflight check when sending; transactions are already
+  // simulated while sizing their compute budget
+  skipPreflight?: boolean;
+}
+
+// Resolved marketplace account info
+export interface MarketplaceInfo {
+  marketplacePDA: PublicKey;
+  admin: PublicKey;
+  feeBps: number;
+  feePercent: number;
+  totalListings: number;
+}
+
+// Rent deposited into an account the transaction creates, or refunded to
+// the signer from an account it closes
+export interface RentChange {
+  label: string;
+  account: PublicKey;
+  lamports: number;
+  kind: "deposit" | "refund";
+}
+
+// Simulated outcome of a marketplace transaction, shown before signing.
+// All amounts are in lamports.
+export interface TransactionPreview {
+  payer: PublicKey;
+  // SOL paid to other parties (the price for purchases)
+  payment: number;
+  rentChanges: RentChange[];
+  // Base and priority fee together; priorityFee is the priority part
+  networkFee: number;
+  priorityFee: number;
+  // Payment, network fee and rent deposits; refunds arrive after execution
+  totalDebit: number;
+  totalRefund: number;
+  balance: number;
+  sufficientBalance: boolean;
+  unitsConsumed: number | null;
+  // Why the simulation failed, or null when the transaction would succeed
+  error: PixelMartError | null;
+  logs: string[];
+}
+
+// Instructions for one marketplace action plus what it costs the signer
+interface BuiltTransaction {
+  instructions: TransactionInstruction[];
+  payment: number;
+  rentChanges: RentChange[];
+}
+
+// Instructions with ComputeBudget instructions prepended, plus the
+// simulation they were sized from
+interface PreparedInstructions {
+  instructions: TransactionInstruction[];
+  blockhash: string;
+  simulation: SimulatedTransactionResponse;
+  computeUnitLimit: number;
+  microLamports: number;
+}
+
+// ErrorCode::PriceChanged in the marketplace program
+const PRICE_CHANGED_ERROR_CODE = 6011;
+
+// Listing account layout, used to filter listings server-side with
+// getProgramAccounts instead of downloading every historical listing.
+const LISTING_ACCOUNT_SIZE = 8 + 32 + 32 + 8 + 1 + 1 + 8 + 8;
+const LISTING_SELLER_OFFSET = 8;
+const LISTING_IS_ACTIVE_OFFSET = 8 + 32 + 32 + 8 + 1;
+const LISTING_CREATED_AT_OFFSET = LISTING_IS_ACTIVE_OFFSET + 1;
+// Listings created before the timestamps were added end at is_active. They
+// read with both timestamps 0 and are migrated before the program uses them.
+const LEGACY_LISTING_ACCOUNT_SIZE = LISTING_CREATED_AT_OFFSET;
+
+const MARKETPLACE_ACCOUNT_SIZE = 8 + 32 + 2 + 8 + 1;
+
+// Used when the RPC cannot price a message
+const DEFAULT_SIGNATURE_FEE = 5000;
+
+const IDL_ERRORS = parseIdlErrors(idl as Marketplace);
+
+// Owner field of an SPL token account; for escrow accounts this is the
+// marketplace PDA that holds the listed NFT.
+const TOKEN_ACCOUNT_OWNER_OFFSET = 32;
+const GET_MULTIPLE_ACCOUNTS_LIMIT = 100;
+
+// How far back fetchSales reads the marketplace's transaction history
+const DEFAULT_SALES_HISTORY_LIMIT = 1000;
+const SIGNATURES_PAGE_LIMIT = 1000;
+const GET_TRANSACTIONS_BATCH = 50;
+
+// Account positions in buy_nft, from the IDL. Older versions of the
+// instruction had fewer accounts, but the same ones up to nft_mint.
+const BUY_NFT_IX = idl.instructions.find((ix) => ix.name === "buy_nft")!;
+const BUY_NFT_ACCOUNTS = BUY_NFT_IX.accounts.map((account) => account.name);
+const BUY_NFT_DISCRIMINATOR = Buffer.from(BUY_NFT_IX.discriminator);
+// SystemInstruction::Transfer
+const SYSTEM_TRANSFER_INSTRUCTION = 2;
+
+// Sales read so far and the newest marketplace transaction scanned, by RPC
+// endpoint and marketplace. Shared by every client in the session.
+interface SalesCacheEntry {
+  sales: Sale[];
+  newestSignature?: string;
+  // More new transactions than the limit arrived between reads. Holds the
+  // sales read from them so far and where to continue; newestSignature only
+  // moves once the scan gets back down to it.
+  pending?: { sales: Sale[]; newestSignature: string; before: string };
+}
+
+const salesCache = new Map<string, SalesCacheEntry>();
+
+// Current and legacy listings alike; the account discriminator is added
+// when querying
+const ACTIVE_LISTING_FILTERS: GetProgramAccountsFilter[] = [
+  {
+    memcmp: {
+      offset: LISTING_IS_ACTIVE_OFFSET,
+      bytes: utils.bytes.bs58.encode(Uint8Array.from([1])),
+    },
+  },
+];
+
+// Signer used for read-only clients; never asked to sign anything.
+const READ_ONLY_SIGNER: PixelMartSigner = {
+  publicKey: PublicKey.default,
+  signTransaction: async (tx) => tx,
+  signAllTransactions: async (txs) => txs,
+};
+
+// Decode listing account data. Legacy accounts are padded so their
+// timestamps read as 0.
+export function decodeListing(coder: Coder, data: Buffer): ListingAccount {
+  const padded =
+    data.length === LEGACY_LISTING_ACCOUNT_SIZE
+      ? Buffer.concat([data, Buffer.alloc(LISTING_ACCOUNT_SIZE - data.length)])
+      : data;
+  return coder.accounts.decode<ListingAccount>("listing", padded);
+}
+
+// Why a simulation failed, decoded from its logs, or null if it succeeded
+function simulationError(simulation: SimulatedTransactionResponse): PixelMartError | null {
+  if (!simulation.err) {
+    return null;
+  }
+  return decodeTransactionError(
+    Object.assign(new Error(`Simulation failed: ${JSON.stringify(simulation.err)}`), {
+      logs: simulation.logs ?? [],
+    })
+  );
+}
+
+// Typed client for the PixelMart marketplace program. Works the same in the
+// browser, Next.js server code and Node scripts.
+export class PixelMartClient {
+  readonly connection: Connection;
+  readonly programId: PublicKey;
+  readonly program: Program<Marketplace>;
+  readonly signer: PixelMartSigner | null;
+  readonly marketplaceAdmin: PublicKey;
+  readonly marketplacePDA: PublicKey;
+  private readonly provider: AnchorProvider;
+  private readonly commitment: Commitment;
+  private readonly allowMarketplaceInit: boolean;
+  private readonly priorityLevel: PriorityLevel;
+  private readonly skipPreflight: boolean;
+
+  constructor(config: PixelMartClientConfig) {
+    this.connection = config.connection;
+    this.programId = config.programId ?? PROGRAM_ID;
+    this.signer = config.signer ?? null;
+    this.commitment = config.commitment ?? "confirmed";
+    this.allowMarketplaceInit = config.allowMarketplaceInit ?? false;
+    this.priorityLevel = config.priorityLevel ?? DEFAULT_PRIORITY_LEVEL;
+    this.skipPreflight = config.skipPreflight ?? false;
+    this.marketplaceAdmin = config.marketplaceAdmin;
+    this.marketplacePDA = this.getMarketplacePDA(config.marketplaceAdmin);
+
+    this.provider = new AnchorProvider(
+      this.connection,
+      this.signer ?? READ_ONLY_SIGNER,
+      { commitment: this.commitment }
+    );
+    this.program = new Program(
+      { ...idl, address: this.programId.toBase58() } as Marketplace,
+      this.provider
+    );
+  }
+
+  // Public key of the signer, or null for read-only clients
+  get walletPublicKey(): PublicKey | null {
+    return this.signer?.publicKey ?? null;
+  }
+
+  // Return a copy of this client that signs with the given signer
+  withSigner(signer: PixelMartSigner): PixelMartClient {
+    return new PixelMartClient({
+      connection: this.connection,
+      programId: this.programId,
+      marketplaceAdmin: this.marketplaceAdmin,
+      signer,
+      commitment: this.commitment,
+      allowMarketplaceInit: this.allowMarketplaceInit,
+      priorityLevel: this.priorityLevel,
+      skipPreflight: this.skipPreflight,
+    });
+  }
+
+  getMarketplacePDA(admin: PublicKey): PublicKey {
+    return getMarketplacePDA(admin, this.programId)[0];
+  }
+
+  getListingPDA(nftMint: PublicKey): PublicKey {
+    return getListingPDA(nftMint, this.programId)[0];
+  }
+
+  getEscrowPDA(nftMint: PublicKey): PublicKey {
+    return getEscrowPDA(nftMint, this.programId)[0];
+  }
+
+  // Initialize the configured marketplace (one-time setup, admin only)
+  async initializeMarketplace(
+    feePercentage: number = 200, // Default 2% fee (200 basis points)
+    options: SendOptions = {}
+  ): Promise<string> {
+    const admin = this.requireSigner();
+    if (!admin.equals(this.marketplaceAdmin)) {
+      throw new Error("Only the marketplace admin can initialize the marketplace");
+    }
+
+    return this.send([await this.initializeMarketplaceInstruction(admin, feePercentage)], options);
+  }
+
+  // Fetch the configured marketplace, or null if it does not exist
+  async getMarketplace(): Promise<MarketplaceInfo | null> {
+    try {
+      const marketplace = await this.program.account.marketplace.fetchNullable(
+        this.marketplacePDA
+      );
+      if (!marketplace) {
+        return null;
+      }
+      return {
+        marketplacePDA: this.marketplacePDA,
+        admin: marketplace.admin,
+        feeBps: marketplace.feePercentage,
+        feePercent: marketplace.feePercentage / 100,
+        totalListings: marketplace.totalListings.toNumber(),
+      };
+    } catch (error) {
+      console.error("Error fetching marketplace:", error);
+      return null;
+    }
+  }
+
+  // Fetch all active listings
+  async fetchActiveListings(): Promise<ListingWithMetadata[]> {
+    return this.queryListings(ACTIVE_LISTING_FILTERS);
+  }
+
+  // Fetch the active listings created by a seller
+  async fetchListingsBySeller(seller: PublicKey): Promise<ListingWithMetadata[]> {
+    return this.queryListings([
+      ...ACTIVE_LISTING_FILTERS,
+      { memcmp: { offset: LISTING_SELLER_OFFSET, bytes: seller.toBase58() } },
+    ]);
+  }
+
+  // Fetch the active listings for a set of NFT mints. Listing PDAs are
+  // derived from the mints and fetched in batches of getMultipleAccountsInfo.
+  async fetchListingsByMints(nftMints: PublicKey[]): Promise<ListingWithMetadata[]> {
+    if (nftMints.length === 0) {
+      return [];
+    }
+
+    try {
+      const listingPDAs = nftMints.map((mint) => this.getListingPDA(mint));
+      const [accounts, feePercent] = await Promise.all([
+        this.fetchListingAccounts(listingPDAs),
+        this.getFeePercent(),
+      ]);
+
+      const listings: ListingWithMetadata[] = [];
+      accounts.forEach((account, i) => {
+        if (account?.isActive) {
+          listings.push({
+            publicKey: listingPDAs[i],
+            account: { ...account, feePercent },
+          });
+        }
+      });
+      return this.filterByMarketplace(listings);
+    } catch (error) {
+      console.error("Error fetching listings:", error);
+      return [];
+    }
+  }
+
+  // Completed purchases on this marketplace, newest first. Sold listings are
+  // closed, so the marketplace account's transaction history is the only
+  // record of them; `limit` bounds how many new transactions are scanned.
+  // Sales already read are cached, so later calls only scan newer history,
+  // continuing where the limit stopped the previous scan.
+  async fetchSales(limit = DEFAULT_SALES_HISTORY_LIMIT): Promise<Sale[]> {
+    const cacheKey = `${this.connection.rpcEndpoint}:${this.marketplacePDA.toBase58()}`;
+    const cached = salesCache.get(cacheKey);
+    const pending = cached?.pending;
+    try {
+      const signatures: string[] = [];
+      let newestSignature = pending?.newestSignature;
+      let before = pending?.before;
+      let scanned = 0;
+      let reachedCached = false;
+      while (scanned < limit) {
+        const pageLimit = Math.min(SIGNATURES_PAGE_LIMIT, limit - scanned);
+        const page = await this.connection.getSignaturesForAddress(this.marketplacePDA, {
+          before,
+          until: cached?.newestSignature,
+          limit: pageLimit,
+        });
+        if (!newestSignature && page.length > 0) newestSignature = page[0].signature;
+        scanned += page.length;
+        signatures.push(...page.filter((s) => !s.err).map((s) => s.signature));
+        if (page.length < pageLimit) {
+          reachedCached = true;
+          break;
+        }
+        before = page[page.length - 1].signature;
+      }
+
+      const newSales: Sale[] = [];
+      for (let i = 0; i < signatures.length; i += GET_TRANSACTIONS_BATCH) {
+        const transactions = await this.connection.getTransactions(
+          signatures.slice(i, i + GET_TRANSACTIONS_BATCH),
+          { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+        );
+        transactions.forEach((tx, j) => {
+          if (!tx || tx.meta?.err) return;
+          newSales.push(...this.decodeSales(tx, signatures[i + j]));
+        });
+      }
+
+      // Everything read since the cached sales, newest first
+      const unmerged = [...(pending?.sales ?? []), ...newSales];
+      if (!cached?.newestSignature || reachedCached) {
+        // On the first read, history past the limit is left unread
+        const sales = [...unmerged, ...(cached?.sales ?? [])];
+        salesCache.set(cacheKey, {
+          sales,
+          newestSignature: newestSignature ?? cached?.newestSignature,
+        });
+        return sales;
+      }
+      salesCache.set(cacheKey, {
+        ...cached,
+        pending: { sales: unmerged, newestSignature: newestSignature!, before: before! },
+      });
+      return [...unmerged, ...cached.sales];
+    } catch (error) {
+      console.error("Error fetching sales:", error);
+      return [...(pending?.sales ?? []), ...(cached?.sales ?? [])];
+    }
+  }
+
+  // Fetch the active listing for an NFT mint. Sold and cancelled listings are
+  // closed on-chain; legacy inactive listings from before that change and
+  // listings held in escrow by another marketplace are treated as missing.
+  async fetchListing(nftMint: PublicKey): Promise<ListingWithMetadata | null> {
+    try {
+      const listingPDA = this.getListingPDA(nftMint);
+      const [listing] = await this.fetchListingAccounts([listingPDA]);
+      if (!listing?.isActive) {
+        return null;
+      }
+      const feePercent = await this.getFeePercent();
+
+      const [owned] = await this.filterByMarketplace([
+        {
+          publicKey: listingPDA,
+          account: {
+            ...listing,
+            feePercent,
+          },
+        },
+      ]);
+      return owned ?? null;
+    } catch (error) {
+      console.error("Error fetching listing:", error);
+      return null;
+    }
+  }
+
+  // Royalty settings of an NFT, or null when it has no Metaplex metadata
+  async getRoyaltyInfo(nftMint: PublicKey): Promise<RoyaltyInfo | null> {
+    return fetchRoyaltyInfo(this.connection, nftMint);
+  }
+
+  // Preview how a sale at the given price is split between the marketplace,
+  // verified creators and the seller
+  async getSaleBreakdown(nftMint: PublicKey, priceInLamports: BN | number): Promise<SaleBreakdown> {
+    const [royalty, mpInfo] = await Promise.all([
+      this.getRoyaltyInfo(nftMint),
+      this.getMarketplace(),
+    ]);
+    return computeSaleBreakdown(new BN(priceInLamports), mpInfo?.feeBps ?? 200, royalty);
+  }
+
+  // List NFT for sale. Creates the configured marketplace in the same
+  // transaction when allowMarketplaceInit is set and the signer is its admin.
+  async listNft(
+    nftMint: PublicKey,
+    priceInLamports: number,
+    options: SendOptions = {}
+  ): Promise<string> {
+    const { instructions } = await this.buildListNft(nftMint, priceInLamports);
+    return this.send(instructions, options);
+  }
+
+  // Buy a listed NFT at the price the buyer was shown. The program rejects
+  // the purchase if the seller repriced in the meantime.
+  async buyNft(
+    nftMint: PublicKey,
+    expectedPrice: BN | number,
+    options: SendOptions = {}
+  ): Promise<string> {
+    const expected = new BN(expectedPrice);
+    const { instructions } = await this.buildBuyNft(nftMint, expected);
+
+    try {
+      return await this.send(instructions, options);
+    } catch (error) {
+      // Repriced between our check and execution, caught by the simulation
+      // or on chain
+      if (
+        (error instanceof PixelMartError && error.code === "PriceChanged") ||
+        (error instanceof AnchorError &&
+          error.error.errorCode.number === PRICE_CHANGED_ERROR_CODE)
+      ) {
+        throw new PriceChangedError(expected, null);
+      }
+      throw error;
+    }
+  }
+
+  // Cancel the signer's listing and return the NFT from escrow
+  async cancelListing(nftMint: PublicKey, options: SendOptions = {}): Promise<string> {
+    const { instructions } = await this.buildCancelListing(nftMint);
+    return this.send(instructions, options);
+  }
+
+  // Update the price of the signer's listing
+  async updateListingPrice(
+    nftMint: PublicKey,
+    newPriceInLamports: number,
+    options: SendOptions = {}
+  ): Promise<string> {
+    const { instructions } = await this.buildUpdateListingPrice(nftMint, newPriceInLamports);
+    return this.send(instructions, options);
+  }
+
+  // Simulate listNft and preview what it costs the seller
+  async previewListNft(nftMint: PublicKey, priceInLamports: number): Promise<TransactionPreview> {
+    return this.preview(await this.buildListNft(nftMint, priceInLamports));
+  }
+
+  // Simulate buyNft and preview what it costs the buyer
+  async previewBuyNft(nftMint: PublicKey, expectedPrice: BN | number): Promise<TransactionPreview> {
+    return this.preview(await this.buildBuyNft(nftMint, new BN(expectedPrice)));
+  }
+
+  // Simulate cancelListing and preview the rent returned to the seller
+  async previewCancelListing(nftMint: PublicKey): Promise<TransactionPreview> {
+    return this.preview(await this.buildCancelListing(nftMint));
+  }
+
+  // Simulate updateListingPrice and preview its network fee
+  async previewUpdateListingPrice(
+    nftMint: PublicKey,
+    newPriceInLamports: number
+  ): Promise<TransactionPreview> {
+    return this.preview(await this.buildUpdateListingPrice(nftMint, newPriceInLamports));
+  }
+
+  private async buildListNft(nftMint: PublicKey, priceInLamports: number): Promise<BuiltTransaction> {
+    const seller = this.requireSigner();
+    const instructions: TransactionInstruction[] = [];
+    const rentChanges: RentChange[] = [];
+
+    const mpInfo = await this.getMarketplace();
+    if (!mpInfo) {
+      if (!this.allowMarketplaceInit || !this.marketplaceAdmin.equals(seller)) {
+        throw new Error(
+          `Marketplace ${this.marketplacePDA.toBase58()} does not exist. Ask the marketplace admin to initialize it.`
+        );
+      }
+      instructions.push(await this.initializeMarketplaceInstruction(seller));
+      rentChanges.push(
+        await this.rentDeposit("Marketplace account", this.marketplacePDA, MARKETPLACE_ACCOUNT_SIZE)
+      );
+    }
+
+    // Legacy inactive listings are reused, so only new listings pay rent
+    const listingPDA = this.getListingPDA(nftMint);
+    const listingInfo = await this.connection.getAccountInfo(listingPDA);
+    if (!listingInfo) {
+      rentChanges.push(await this.rentDeposit("Listing account", listingPDA, LISTING_ACCOUNT_SIZE));
+    } else {
+      const migration = await this.listingMigration(nftMint, seller, listingInfo);
+      instructions.push(...migration.instructions);
+      rentChanges.push(...migration.rentChanges);
+    }
+    rentChanges.push(
+      await this.rentDeposit("Escrow token account", this.getEscrowPDA(nftMint), ACCOUNT_SIZE)
+    );
+
+    const sellerTokenAccount = await getAssociatedTokenAddress(nftMint, seller);
+    instructions.push(
+      await this.program.methods
+        .listNft(new BN(priceInLamports))
+        .accountsPartial({
+          marketplace: this.marketplacePDA,
+          seller,
+          sellerTokenAccount,
+          nftMint,
+        })
+        .instruction()
+    );
+
+    return { instructions, payment: 0, rentChanges };
+  }
+
+  private async buildBuyNft(nftMint: PublicKey, expected: BN): Promise<BuiltTransaction> {
+    const buyer = this.requireSigner();
+
+    const listing = await this.fetchListing(nftMint);
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+    if (!listing.account.price.eq(expected)) {
+      throw new PriceChangedError(expected, listing.account.price);
+    }
+
+    const [mpInfo, royalty] = await Promise.all([
+      this.getMarketplace(),
+      this.getRoyaltyInfo(nftMint),
+    ]);
+    if (!mpInfo) {
+      throw new Error("Marketplace not found");
+    }
+
+    // The buyer pays for their token account when they do not have one yet.
+    // Listing and escrow rent is returned to the seller, not the buyer.
+    const migration = await this.listingMigration(nftMint, buyer);
+    const rentChanges: RentChange[] = [...migration.rentChanges];
+    const buyerTokenAccount = await getAssociatedTokenAddress(nftMint, buyer);
+    if (!(await this.connection.getAccountInfo(buyerTokenAccount))) {
+      rentChanges.push(await this.rentDeposit("Your token account", buyerTokenAccount, ACCOUNT_SIZE));
+    }
+
+    const instruction = await this.program.methods
+      .buyNft(expected)
+      .accountsPartial({
+        marketplace: mpInfo.marketplacePDA,
+        buyer,
+        seller: listing.account.seller,
+        admin: mpInfo.admin,
+        nftMint,
+        metadata: getMetadataPDA(nftMint),
+      })
+      .remainingAccounts(this.getCreatorAccounts(royalty))
+      .instruction();
+
+    return {
+      instructions: [...migration.instructions, instruction],
+      payment: expected.toNumber(),
+      rentChanges,
+    };
+  }
+
+  private async buildCancelListing(nftMint: PublicKey): Promise<BuiltTransaction> {
+    const seller = this.requireSigner();
+
+    const mpInfo = await this.getMarketplace();
+    if (!mpInfo) {
+      throw new Error("Marketplace not found");
+    }
+
+    // Both accounts are closed and their rent returned to the seller
+    const listingPDA = this.getListingPDA(nftMint);
+    const escrowPDA = this.getEscrowPDA(nftMint);
+    const [listingInfo, escrowInfo] = await this.connection.getMultipleAccountsInfo([
+      listingPDA,
+      escrowPDA,
+    ]);
+    const migration = await this.listingMigration(nftMint, seller, listingInfo);
+    const rentChanges: RentChange[] = [...migration.rentChanges];
+    if (listingInfo) {
+      rentChanges.push({
+        label: "Listing account",
+        account: listingPDA,
+        lamports: listingInfo.lamports,
+        kind: "refund",
+      });
+    }
+    if (escrowInfo) {
+      rentChanges.push({
+        label: "Escrow token account",
+        account: escrowPDA,
+        lamports: escrowInfo.lamports,
+        kind: "refund",
+      });
+    }
+
+    const sellerTokenAccount = await getAssociatedTokenAddress(nftMint, seller);
+    const instruction = await this.program.methods
+      .cancelListing()
+      .accountsPartial({
+        marketplace: mpInfo.marketplacePDA,
+        seller,
+        sellerTokenAccount,
+        nftMint,
+      })
+      .instruction();
+
+    return { instructions: [...migration.instructions, instruction], payment: 0, rentChanges };
+  }
+
+  private async buildUpdateListingPrice(
+    nftMint: PublicKey,
+    newPriceInLamports: number
+  ): Promise<BuiltTransaction> {
+    const seller = this.requireSigner();
+    const migration = await this.listingMigration(nftMint, seller);
+
+    const instruction = await this.program.methods
+      .updateListingPrice(new BN(newPriceInLamports))
+      .accountsPartial({
+        seller,
+        nftMint,
+      })
+      .instruction();
+
+    return {
+      instructions: [...migration.instructions, instruction],
+      payment: 0,
+      rentChanges: migration.rentChanges,
+    };
+  }
+
+  // migrate_listing ahead of any instruction that reads a legacy listing
+  // account, with the extra rent the payer puts in. Nothing for current or
+  // missing accounts.
+  private async listingMigration(
+    nftMint: PublicKey,
+    payer: PublicKey,
+    listingInfo?: AccountInfo<Buffer> | null
+  ): Promise<Pick<BuiltTransaction, "instructions" | "rentChanges">> {
+    const listingPDA = this.getListingPDA(nftMint);
+    const info =
+      listingInfo === undefined ? await this.connection.getAccountInfo(listingPDA) : listingInfo;
+    if (!info || info.data.length >= LISTING_ACCOUNT_SIZE) {
+      return { instructions: [], rentChanges: [] };
+    }
+
+    const instruction = await this.program.methods
+      .migrateListing()
+      .accountsPartial({ payer, nftMint })
+      .instruction();
+    const rent = await this.connection.getMinimumBalanceForRentExemption(LISTING_ACCOUNT_SIZE);
+    return {
+      instructions: [instruction],
+      rentChanges: [
+        {
+          label: "Listing account upgrade",
+          account: listingPDA,
+          lamports: Math.max(0, rent - info.lamports),
+          kind: "deposit",
+        },
+      ],
+    };
+  }
+
+  private async initializeMarketplaceInstruction(
+    admin: PublicKey,
+    feePercentage: number = 200
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .initializeMarketplace(feePercentage)
+      .accountsPartial({
+        marketplace: this.marketplacePDA,
+        admin,
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+  }
+
+  private async rentDeposit(label: string, account: PublicKey, size: number): Promise<RentChange> {
+    const lamports = await this.connection.getMinimumBalanceForRentExemption(size);
+    return { label, account, lamports, kind: "deposit" };
+  }
+
+  // Simulate the transaction without signing it and total up what the
+  // signer pays, so failing transactions never reach the wallet prompt
+  private async preview(built: BuiltTransaction): Promise<TransactionPreview> {
+    const payer = this.requireSigner();
+
+    const [prepared, balance] = await Promise.all([
+      this.prepareInstructions(built.instructions, payer),
+      this.connection.getBalance(payer, this.commitment),
+    ]);
+    const fee = await this.connection.getFeeForMessage(
+      this.compileMessage(prepared.instructions, payer, prepared.blockhash),
+      this.commitment
+    );
+
+    const sumRent = (kind: RentChange["kind"]) =>
+      built.rentChanges
+        .filter((change) => change.kind === kind)
+        .reduce((sum, change) => sum + change.lamports, 0);
+
+    const priorityFee = Math.ceil((prepared.computeUnitLimit * prepared.microLamports) / 1_000_000);
+    const networkFee = fee.value ?? (DEFAULT_SIGNATURE_FEE + priorityFee);
+    const totalDebit = built.payment + networkFee + sumRent("deposit");
+    const { simulation } = prepared;
+    const logs = simulation.logs ?? [];
+
+    return {
+      payer,
+      payment: built.payment,
+      rentChanges: built.rentChanges,
+      networkFee,
+      priorityFee,
+      totalDebit,
+      totalRefund: sumRent("refund"),
+      balance,
+      sufficientBalance: balance >= totalDebit,
+      unitsConsumed: simulation.unitsConsumed ?? null,
+      error: simulationError(simulation),
+      logs,
+    };
+  }
+
+  // Simulate the instructions, then prepend ComputeBudget instructions: a
+  // compute unit limit sized from the simulation and a priority fee for the
+  // configured priority level
+  private async prepareInstructions(
+    instructions: TransactionInstruction[],
+    payer: PublicKey
+  ): Promise<PreparedInstructions> {
+    const { blockhash } = await this.connection.getLatestBlockhash(this.commitment);
+    const [{ value: simulation }, microLamports] = await Promise.all([
+      this.connection.simulateTransaction(
+        new VersionedTransaction(this.compileMessage(instructions, payer, blockhash)),
+        { sigVerify: false, commitment: this.commitment }
+      ),
+      getPriorityFee(this.connection, getWritableAccounts(instructions), this.priorityLevel),
+    ]);
+
+    const computeUnitLimit = getComputeUnitLimit(simulation.unitsConsumed, instructions.length);
+    return {
+      instructions: [
+        ...buildComputeBudgetInstructions(computeUnitLimit, microLamports),
+        ...instructions,
+      ],
+      blockhash,
+      simulation,
+      computeUnitLimit,
+      microLamports,
+    };
+  }
+
+  private compileMessage(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    blockhash: string
+  ): VersionedMessage {
+    return new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+  }
+
+  // Sign with the configured signer and send through the transaction
+  // manager, which rebroadcasts and re-signs on expiry. Program errors are
+  // translated into AnchorErrors the same way .rpc() does.
+  private async send(
+    instructions: TransactionInstruction[],
+    options: SendOptions
+  ): Promise<string> {
+    const payer = this.requireSigner();
+    try {
+      const prepared = await this.prepareInstructions(instructions, payer);
+      // A failing transaction would be sent anyway when preflight is skipped,
+      // with a compute limit sized from the failed run
+      const failure = simulationError(prepared.simulation);
+      if (failure) {
+        throw failure;
+      }
+      return await sendWithRetry(
+        this.connection,
+        signInstructions(this.connection, this.signer!, prepared.instructions, this.commitment),
+        { skipPreflight: this.skipPreflight, ...options }
+      );
+    } catch (error) {
+      throw translateError(error, IDL_ERRORS);
+    }
+  }
+
+  // buy_nft purchases in a transaction. The price is what the buyer paid the
+  // seller, the marketplace and creators, since purchases from before
+  // buy_nft took the expected price have no price argument to decode.
+  private decodeSales(tx: VersionedTransactionResponse, signature: string): Sale[] {
+    const keys = tx.transaction.message.getAccountKeys({
+      accountKeysFromLookups: tx.meta?.loadedAddresses,
+    });
+    const sales: Sale[] = [];
+    tx.transaction.message.compiledInstructions.forEach((ix, index) => {
+      if (!keys.get(ix.programIdIndex)?.equals(this.programId)) return;
+      if (!Buffer.from(ix.data.subarray(0, 8)).equals(BUY_NFT_DISCRIMINATOR)) return;
+
+      const account = (name: string) =>
+        keys.get(ix.accountKeyIndexes[BUY_NFT_ACCOUNTS.indexOf(name)])!;
+      const buyer = account("buyer");
+      // Seller, admin and the creator accounts passed after the named ones
+      const payees = [
+        account("seller"),
+        account("admin"),
+        ...ix.accountKeyIndexes.slice(BUY_NFT_ACCOUNTS.length).map((i) => keys.get(i)!),
+      ];
+
+      let price = new BN(0);
+      const inner = tx.meta?.innerInstructions?.find((entry) => entry.index === index);
+      for (const cpi of inner?.instructions ?? []) {
+        const data = Buffer.from(utils.bytes.bs58.decode(cpi.data));
+        const [from, to] = cpi.accounts.map((i) => keys.get(i));
+        if (
+          keys.get(cpi.programIdIndex)?.equals(SystemProgram.programId) &&
+          data.length === 12 &&
+          data.readUInt32LE(0) === SYSTEM_TRANSFER_INSTRUCTION &&
+          from?.equals(buyer) &&
+          payees.some((payee) => to?.equals(payee))
+        ) {
+          price = price.add(new BN(data.subarray(4), "le"));
+        }
+      }
+
+      sales.push({
+        signature,
+        nftMint: account("nft_mint"),
+        seller: account("seller"),
+        buyer,
+        price,
+        blockTime: tx.blockTime ?? null,
+      });
+    });
+    return sales;
+  }
+
+  private async queryListings(filters: GetProgramAccountsFilter[]): Promise<ListingWithMetadata[]> {
+    try {
+      const [accounts, feePercent] = await Promise.all([
+        this.connection.getProgramAccounts(this.program.programId, {
+          commitment: this.commitment,
+          filters: [{ memcmp: this.program.coder.accounts.memcmp("listing") }, ...filters],
+        }),
+        this.getFeePercent(),
+      ]);
+
+      return this.filterByMarketplace(
+        accounts.map(({ pubkey, account }) => ({
+          publicKey: pubkey,
+          account: {
+            ...decodeListing(this.program.coder, account.data),
+            feePercent,
+          },
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching listings:", error);
+      return [];
+    }
+  }
+
+  // Listing accounts at the given addresses, null where there is none
+  private async fetchListingAccounts(addresses: PublicKey[]): Promise<(ListingAccount | null)[]> {
+    const accounts: (ListingAccount | null)[] = [];
+    for (let i = 0; i < addresses.length; i += GET_MULTIPLE_ACCOUNTS_LIMIT) {
+      const infos = await this.connection.getMultipleAccountsInfo(
+        addresses.slice(i, i + GET_MULTIPLE_ACCOUNTS_LIMIT),
+        this.commitment
+      );
+      infos.forEach((info) => {
+        accounts.push(info ? decodeListing(this.program.coder, info.data) : null);
+      });
+    }
+    return accounts;
+  }
+
+  // Keep only listings whose escrow is held by the configured marketplace.
+  // Listing PDAs are seeded by mint alone, so the escrow authority is the
+  // only on-chain link between a listing and its marketplace.
+  private async filterByMarketplace(
+    listings: ListingWithMetadata[]
+  ): Promise<ListingWithMetadata[]> {
+    const escrows = listings.map((l) => this.getEscrowPDA(l.account.nftMint));
+    const owners: (PublicKey | null)[] = [];
+
+    for (let i = 0; i < escrows.length; i += GET_MULTIPLE_ACCOUNTS_LIMIT) {
+      const infos = await this.connection.getMultipleAccountsInfo(
+        escrows.slice(i, i + GET_MULTIPLE_ACCOUNTS_LIMIT),
+        { dataSlice: { offset: TOKEN_ACCOUNT_OWNER_OFFSET, length: 32 } }
+      );
+      infos.forEach((info) => {
+        owners.push(info && info.data.length === 32 ? new PublicKey(info.data) : null);
+      });
+    }
+
+    return listings.filter((_, i) => owners[i]?.equals(this.marketplacePDA));
+  }
+
+  // Writable accounts of the verified creators buy_nft pays royalties to
+  private getCreatorAccounts(royalty: RoyaltyInfo | null): AccountMeta[] {
+    const accounts: AccountMeta[] = [];
+    for (const creator of royalty?.creators ?? []) {
+      if (!creator.verified || creator.share === 0) continue;
+      if (accounts.some((a) => a.pubkey.equals(creator.address))) continue;
+      accounts.push({ pubkey: creator.address, isSigner: false, isWritable: true });
+    }
+    return accounts;
+  }
+
+  private async getFeePercent(): Promise<number> {
+    const mpInfo = await this.getMarketplace();
+    return mpInfo?.feePercent ?? 2; // Default fee
+  }
+
+  private requireSigner(): PublicKey {
+    if (!this.signer) {
+      throw new Error("Wallet not connected");
+    }
+    return this.signer.publicKey;
+  }
+}
@@ -0,0 +1,90 @@
+import { BN } from "@coral-xyz/anchor";
+import { ListingWithMetadata, NFTMetadata, Sale } from "./program";
+import { truncateAddress } from "./constants";
+
+// Which collection an NFT belongs to. A verified on-chain collection is
+// authoritative; otherwise NFTs are grouped by the collection name in their
+// JSON, which anyone can claim.
+export interface CollectionRef {
+  // Stable identifier: the collection mint, or "name:<name>" for unverified ones
+  key: string;
+  name: string;
+  address?: string;
+  verified: boolean;
+}
+
+export function collectionOf(metadata: NFTMetadata | undefined): CollectionRef | null {
+  if (!metadata) {
+    return null;
+  }
+
+  const onChain = metadata.onChainCollection;
+  if (onChain?.verified) {
+    const address = onChain.address.toString();
+    return {
+      key: address,
+      name: metadata.collection?.name || truncateAddress(address),
+      address,
+      verified: true,
+    };
+  }
+
+  const name = metadata.collection?.name?.trim();
+  return name ? { key: `name:${name}`, name, verified: false } : null;
+}
+
+// Group NFTs by collection, largest collection first
+export function groupByCollection<T>(
+  items: T[],
+  getMetadata: (item: T) => NFTMetadata | undefined
+): Array<CollectionRef & { items: T[] }> {
+  const groups = new Map<string, CollectionRef & { items: T[] }>();
+  for (const item of items) {
+    const collection = collectionOf(getMetadata(item));
+    if (!collection) continue;
+    const group = groups.get(collection.key) ?? { ...collection, items: [] };
+    group.items.push(item);
+    groups.set(collection.key, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.items.length - a.items.length || a.name.localeCompare(b.name)
+  );
+}
+
+// Market figures for a collection page. Prices are in lamports.
+export interface CollectionStats {
+  items: number;
+  listed: number;
+  // Lowest active listing price; null when nothing is listed
+  floor: BN | null;
+  // Total of the recorded sales of the collection's items
+  volume: BN;
+  sales: number;
+  owners: number;
+}
+
+export function computeCollectionStats({
+  itemCount,
+  listings,
+  sales,
+  owners,
+}: {
+  itemCount: number;
+  listings: ListingWithMetadata[];
+  sales: Sale[];
+  // Holder of each item, where known
+  owners: string[];
+}): CollectionStats {
+  const floor = listings.reduce<BN | null>(
+    (min, listing) => (!min || listing.account.price.lt(min) ? listing.account.price : min),
+    null
+  );
+  return {
+    items: itemCount,
+    listed: listings.length,
+    floor,
+    volume: sales.reduce((sum, sale) => sum.add(sale.price), new BN(0)),
+    sales: sales.length,
+    owners: new Set(owners).size,
+  };
+}
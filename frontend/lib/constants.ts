@@ -1,8 +1,19 @@
+import type { BN } from "@coral-xyz/anchor";
 import { PublicKey } from "@solana/web3.js";
 
 // Program ID from the deployed Solana program
 export const PROGRAM_ID = new PublicKey("DHpGDWHEo3ubcRBcuDBaMR3KDYGH1j9rcSsYxcMsqzA9");
 
+// Admin of the marketplace this frontend trades on. Any wallet can initialize
+// its own marketplace on the program, so the admin (and with it the marketplace
+// PDA and fee recipient) must be configured explicitly.
+export const MARKETPLACE_ADMIN: PublicKey | null = process.env.NEXT_PUBLIC_MARKETPLACE_ADMIN
+  ? new PublicKey(process.env.NEXT_PUBLIC_MARKETPLACE_ADMIN)
+  : null;
+
+// Allow the admin wallet to create the marketplace from the list page
+export const ALLOW_MARKETPLACE_INIT = process.env.NEXT_PUBLIC_ALLOW_MARKETPLACE_INIT === "true";
+
 // RPC endpoints
 export const RPC_ENDPOINT = process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.devnet.solana.com";
 export const SOLANA_NETWORK = (process.env.NEXT_PUBLIC_SOLANA_NETWORK || "devnet") as "devnet" | "mainnet-beta" | "testnet";
@@ -33,6 +44,20 @@ export function formatSol(lamports: number | bigint): string {
   });
 }
 
+// Format a lamport amount as SOL with 4 fixed decimals, for fee breakdowns
+export function formatSolFixed(lamports: BN | undefined): string {
+  return ((lamports?.toNumber() ?? 0) / LAMPORTS_PER_SOL).toFixed(4);
+}
+
+// Format how long ago a timestamp in milliseconds was, e.g. "5m ago"
+export function formatTimeAgo(timestamp: number): string {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return "Just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
 // Format USD (mock - in production would use price feed)
 export function formatUsd(lamports: number | bigint, solPrice = 100): string {
   const sol = Number(lamports) / LAMPORTS_PER_SOL;
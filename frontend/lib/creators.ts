@@ -0,0 +1,79 @@
+import { PublicKey } from "@solana/web3.js";
+
+// Metaplex limits on the creators array
+export const MAX_CREATORS = 5;
+export const MAX_ROYALTY_BASIS_POINTS = 10000;
+
+// Royalty and creator split of an NFT being minted. Only the minting wallet
+// is verified at mint; co-creators verify themselves afterwards, and only
+// verified creators receive royalties.
+export interface CreatorSplit {
+  address: string;
+  share: number;
+}
+
+// A creator row as edited on the mint page
+export interface CreatorDraft {
+  address: string;
+  share: string;
+}
+
+// Check a royalty percentage as typed; returns an error message or null
+export function validateRoyaltyPercent(value: string): string | null {
+  const percent = Number(value);
+  if (value.trim() === "" || !Number.isFinite(percent)) {
+    return "Enter a royalty percentage";
+  }
+  if (percent < 0 || percent * 100 > MAX_ROYALTY_BASIS_POINTS) {
+    return "Royalty must be between 0% and 100%";
+  }
+  if (Math.abs(percent * 100 - Math.round(percent * 100)) > 1e-6) {
+    return "Royalty can have at most two decimal places";
+  }
+  return null;
+}
+
+export function royaltyPercentToBasisPoints(value: string): number {
+  return Math.round(Number(value) * 100);
+}
+
+// Check creator rows; returns an error message or null
+export function validateCreators(drafts: CreatorDraft[]): string | null {
+  if (drafts.length === 0) {
+    return "Add at least one creator";
+  }
+  if (drafts.length > MAX_CREATORS) {
+    return `At most ${MAX_CREATORS} creators are allowed`;
+  }
+
+  const seen = new Set<string>();
+  let total = 0;
+  for (const draft of drafts) {
+    const address = draft.address.trim();
+    try {
+      new PublicKey(address);
+    } catch {
+      return `"${address || "(empty)"}" is not a valid Solana address`;
+    }
+    if (seen.has(address)) {
+      return "Each creator can only be listed once";
+    }
+    seen.add(address);
+
+    const share = Number(draft.share);
+    if (!Number.isInteger(share) || share < 0 || share > 100) {
+      return "Shares must be whole percentages between 0 and 100";
+    }
+    total += share;
+  }
+
+  if (total !== 100) {
+    return `Shares must add up to 100% (currently ${total}%)`;
+  }
+  return null;
+}
+
+// Convert validated creator rows to the split written on chain and in the JSON
+export function toCreatorSplits(drafts: CreatorDraft[]): CreatorSplit[] {
+  return drafts.map((draft) => ({ address: draft.address.trim(), share: Number(draft.share) }));
+}
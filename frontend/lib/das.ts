@@ -0,0 +1,64 @@
+// Digital Asset Standard (DAS) RPC methods, offered by indexing RPC providers
+// such as Helius and Triton but not by the public Solana endpoints. Callers
+// fall back to what they can find without an index when these return null.
+
+// An asset in a collection with its current owner
+export interface CollectionAsset {
+  mint: string;
+  owner: string;
+}
+
+const PAGE_LIMIT = 1000;
+// Stop paging after this many assets
+const MAX_ASSETS = 10_000;
+
+interface DasAsset {
+  id: string;
+  burnt?: boolean;
+  ownership?: { owner?: string };
+}
+
+// Every asset verified into a collection, or null when the RPC at the
+// endpoint (a Connection's rpcEndpoint) has no DAS
+export async function fetchCollectionAssets(
+  collectionMint: string,
+  endpoint: string
+): Promise<CollectionAsset[] | null> {
+  const assets: CollectionAsset[] = [];
+
+  for (let page = 1; assets.length < MAX_ASSETS; page++) {
+    let body: { result?: { items?: DasAsset[] }; error?: unknown };
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: "pixelmart",
+          method: "getAssetsByGroup",
+          params: {
+            groupKey: "collection",
+            groupValue: collectionMint,
+            page,
+            limit: PAGE_LIMIT,
+          },
+        }),
+      });
+      body = await response.json();
+    } catch {
+      return null;
+    }
+    if (body.error || !body.result) {
+      return null;
+    }
+
+    const items = body.result.items ?? [];
+    for (const item of items) {
+      if (!item.burnt && item.ownership?.owner) {
+        assets.push({ mint: item.id, owner: item.ownership.owner });
+      }
+    }
+    if (items.length < PAGE_LIMIT) break;
+  }
+  return assets;
+}
@@ -0,0 +1,92 @@
+import { AnchorError } from "@coral-xyz/anchor";
+import { TransactionExpiredBlockheightExceededError } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import { PixelMartError, decodeTransactionError } from "./errors";
+
+function withLogs(message: string, logs: string[]): Error {
+  return Object.assign(new Error(message), { logs });
+}
+
+describe("decodeTransactionError", () => {
+  it("passes PixelMartErrors through", () => {
+    const error = new PixelMartError("network", "Offline", "No connection");
+    expect(decodeTransactionError(error)).toBe(error);
+  });
+
+  it("names program errors from logs, custom error codes and AnchorErrors", () => {
+    const fromLogs = decodeTransactionError(
+      withLogs("Simulation failed", [
+        "Program log: AnchorError occurred. Error Code: ListingNotActive. Error Number: 6000.",
+      ])
+    );
+    expect(fromLogs).toMatchObject({
+      kind: "program",
+      code: "ListingNotActive",
+      title: "Listing Unavailable",
+    });
+
+    // 0x1771 is 6001, Unauthorized
+    const fromCustom = decodeTransactionError(
+      new Error("failed to send transaction: custom program error: 0x1771")
+    );
+    expect(fromCustom).toMatchObject({ kind: "program", code: "Unauthorized" });
+
+    const anchorError = new AnchorError(
+      { code: "InvalidPrice", number: 6002 },
+      "Invalid price",
+      [],
+      []
+    );
+    expect(decodeTransactionError(anchorError)).toMatchObject({
+      kind: "program",
+      code: "InvalidPrice",
+      cause: anchorError,
+    });
+  });
+
+  it("reports a repriced listing", () => {
+    const error = decodeTransactionError(
+      withLogs("Simulation failed", ["Program log: Error Code: PriceChanged. Error Number: 6011."])
+    );
+    expect(error).toMatchObject({ kind: "price-changed", code: "PriceChanged" });
+  });
+
+  it("recognizes wallet rejections", () => {
+    const rejected = Object.assign(new Error("User rejected the request."), {
+      name: "WalletSignTransactionError",
+    });
+    expect(decodeTransactionError(rejected).kind).toBe("wallet-rejected");
+    expect(decodeTransactionError(Object.assign(new Error("Denied"), { code: 4001 })).kind).toBe(
+      "wallet-rejected"
+    );
+    const disconnected = Object.assign(new Error("Wallet not connected"), {
+      name: "WalletNotConnectedError",
+    });
+    expect(decodeTransactionError(disconnected).kind).toBe("wallet");
+  });
+
+  it("sorts out funds, expiry and network failures", () => {
+    expect(
+      decodeTransactionError(
+        withLogs("Simulation failed", ["Transfer: insufficient lamports 10, need 20"])
+      ).kind
+    ).toBe("insufficient-funds");
+    expect(
+      decodeTransactionError(new TransactionExpiredBlockheightExceededError("sig")).kind
+    ).toBe("blockhash-expired");
+    expect(decodeTransactionError(new Error("Blockhash not found")).kind).toBe(
+      "blockhash-expired"
+    );
+    expect(decodeTransactionError(new TypeError("Failed to fetch")).kind).toBe("network");
+    expect(decodeTransactionError(new Error("429 Too Many Requests")).kind).toBe("network");
+  });
+
+  it("keeps the first line of anything else", () => {
+    const error = decodeTransactionError(new Error(`${"x".repeat(250)}\nmore logs`));
+    expect(error.kind).toBe("unknown");
+    expect(error.message).toBe(`${"x".repeat(197)}...`);
+    expect(decodeTransactionError(undefined).message).toBe(
+      "Something went wrong while sending the transaction."
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import { AnchorError, BN, ProgramError } from "@coral-xyz/anchor";
+import idl from "./marketplace.json";
+
+// Broad categories of transaction failures the UI can react to
+export type PixelMartErrorKind =
+  | "program"
+  | "price-changed"
+  | "wallet-rejected"
+  | "wallet"
+  | "blockhash-expired"
+  | "insufficient-funds"
+  | "network"
+  | "unknown";
+
+// A transaction failure translated into something a user can act on
+export class PixelMartError extends Error {
+  constructor(
+    readonly kind: PixelMartErrorKind,
+    readonly title: string,
+    message: string,
+    readonly suggestion?: string,
+    // Program error name (e.g. "ListingNotActive") for kind "program"
+    readonly code?: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "PixelMartError";
+  }
+}
+
+// Thrown by buyNft when the listing price no longer matches the price the
+// buyer was shown
+export class PriceChangedError extends PixelMartError {
+  constructor(
+    readonly expectedPrice: BN,
+    readonly currentPrice: BN | null
+  ) {
+    super(
+      "price-changed",
+      "Price Changed",
+      "The price changed since you opened this listing. Please review the new price and try again.",
+      "Check the updated price before buying.",
+      "PriceChanged"
+    );
+    this.name = "PriceChangedError";
+  }
+}
+
+interface ErrorText {
+  title: string;
+  message: string;
+  suggestion: string;
+}
+
+// Friendly text for each ErrorCode variant of the marketplace program
+const PROGRAM_ERRORS: Record<string, ErrorText> = {
+  ListingNotActive: {
+    title: "Listing Unavailable",
+    message: "This NFT is no longer listed for sale.",
+    suggestion: "Refresh the page to see its current status.",
+  },
+  Unauthorized: {
+    title: "Not Allowed",
+    message: "Only the seller can change this listing.",
+    suggestion: "Switch to the wallet that created the listing.",
+  },
+  InvalidPrice: {
+    title: "Invalid Price",
+    message: "The price must be greater than 0 SOL.",
+    suggestion: "Enter a higher price and try again.",
+  },
+  InsufficientNftBalance: {
+    title: "NFT Not in Wallet",
+    message: "The connected wallet does not hold this NFT.",
+    suggestion: "Make sure this wallet owns the NFT and it is not listed already.",
+  },
+  InvalidNftMint: {
+    title: "Wrong NFT",
+    message: "The token account does not belong to this NFT.",
+    suggestion: "Refresh the page and try again.",
+  },
+  InvalidTokenOwner: {
+    title: "Wrong Token Owner",
+    message: "The NFT's token account is owned by a different wallet.",
+    suggestion: "Switch to the wallet that owns the NFT.",
+  },
+  ArithmeticOverflow: {
+    title: "Amount Too Large",
+    message: "The amount is too large for the marketplace to process.",
+    suggestion: "Try a lower price.",
+  },
+  InvalidFeePercentage: {
+    title: "Invalid Fee",
+    message: "Marketplace fees can be at most 10% (1000 basis points).",
+    suggestion: "Choose a lower fee.",
+  },
+  InvalidSeller: {
+    title: "Seller Mismatch",
+    message: "The seller on this listing does not match the transaction.",
+    suggestion: "Refresh the listing and try again.",
+  },
+  InvalidAdmin: {
+    title: "Wrong Marketplace",
+    message: "The fee recipient does not match this marketplace.",
+    suggestion: "Refresh the page; if it keeps happening the app is configured for a different marketplace.",
+  },
+  ListingAlreadyActive: {
+    title: "Already Listed",
+    message: "This NFT is already listed for sale.",
+    suggestion: "Update the price of the existing listing or cancel it first.",
+  },
+  MissingCreatorAccount: {
+    title: "Royalty Accounts Missing",
+    message: "A creator account needed to pay royalties was not included.",
+    suggestion: "Refresh the page and try again.",
+  },
+};
+
+// Program error names by code, taken from the IDL so new variants only need
+// an entry in PROGRAM_ERRORS
+const PROGRAM_ERROR_NAMES = new Map<number, string>(
+  idl.errors.map((e) => [e.code, e.name])
+);
+
+const CUSTOM_ERROR_PATTERN = /custom program error: (0x[0-9a-f]+)/i;
+const ERROR_NUMBER_PATTERN = /Error Number: (\d+)/;
+
+// Translate anything thrown while sending a transaction into a PixelMartError
+export function decodeTransactionError(error: unknown): PixelMartError {
+  if (error instanceof PixelMartError) {
+    return error;
+  }
+
+  const text = errorText(error);
+  const name = error instanceof Error ? error.name : "";
+
+  const programError = programErrorName(error, text);
+  if (programError === "PriceChanged") {
+    return new PixelMartError(
+      "price-changed",
+      "Price Changed",
+      "The price changed since you opened this listing.",
+      "Review the new price and try again.",
+      programError,
+      error
+    );
+  }
+  if (programError && PROGRAM_ERRORS[programError]) {
+    const { title, message, suggestion } = PROGRAM_ERRORS[programError];
+    return new PixelMartError("program", title, message, suggestion, programError, error);
+  }
+
+  if (isWalletRejection(error, name, text)) {
+    return new PixelMartError(
+      "wallet-rejected",
+      "Transaction Cancelled",
+      "You declined the request in your wallet.",
+      "Approve the transaction in your wallet to continue.",
+      undefined,
+      error
+    );
+  }
+
+  if (/insufficient lamports|insufficient funds|no record of a prior credit/i.test(text)) {
+    return new PixelMartError(
+      "insufficient-funds",
+      "Insufficient SOL",
+      "Your wallet does not have enough SOL to cover this transaction and its fees.",
+      "Add SOL to your wallet and try again.",
+      undefined,
+      error
+    );
+  }
+
+  if (
+    name === "TransactionExpiredBlockheightExceededError" ||
+    name === "TransactionExpiredTimeoutError" ||
+    /blockhash not found|block height exceeded|has expired/i.test(text)
+  ) {
+    return new PixelMartError(
+      "blockhash-expired",
+      "Transaction Expired",
+      "The network did not confirm the transaction in time.",
+      "Check your wallet activity before retrying; if the network is busy, wait a moment first.",
+      undefined,
+      error
+    );
+  }
+
+  if (name.startsWith("Wallet") || /wallet not connected/i.test(text)) {
+    return new PixelMartError(
+      "wallet",
+      "Wallet Error",
+      firstLine(text) || "Your wallet could not complete the request.",
+      "Reconnect your wallet and try again.",
+      undefined,
+      error
+    );
+  }
+
+  if (/failed to fetch|network request failed|429|too many requests|ECONNREFUSED/i.test(text)) {
+    return new PixelMartError(
+      "network",
+      "Network Error",
+      "Could not reach the Solana network.",
+      "Check your connection and try again in a moment.",
+      undefined,
+      error
+    );
+  }
+
+  return new PixelMartError(
+    "unknown",
+    "Transaction Failed",
+    firstLine(text) || "Something went wrong while sending the transaction.",
+    "Please try again.",
+    undefined,
+    error
+  );
+}
+
+// Resolve the marketplace program error name from an Anchor error or from
+// the "custom program error" code in simulation output
+function programErrorName(error: unknown, text: string): string | undefined {
+  if (error instanceof AnchorError) {
+    return PROGRAM_ERROR_NAMES.get(error.error.errorCode.number) ?? error.error.errorCode.code;
+  }
+  if (error instanceof ProgramError) {
+    return PROGRAM_ERROR_NAMES.get(error.code);
+  }
+
+  const numberMatch = text.match(ERROR_NUMBER_PATTERN);
+  if (numberMatch) {
+    return PROGRAM_ERROR_NAMES.get(parseInt(numberMatch[1], 10));
+  }
+  const customMatch = text.match(CUSTOM_ERROR_PATTERN);
+  if (customMatch) {
+    return PROGRAM_ERROR_NAMES.get(parseInt(customMatch[1], 16));
+  }
+  return undefined;
+}
+
+function isWalletRejection(error: unknown, name: string, text: string): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === 4001) {
+    return true;
+  }
+  return (
+    (name.startsWith("Wallet") || /wallet/i.test(text)) &&
+    /reject|declin|denied|cancel/i.test(text)
+  );
+}
+
+// Message plus any transaction logs attached to the error
+function errorText(error: unknown): string {
+  if (error instanceof Error) {
+    const logs = (error as { logs?: unknown }).logs;
+    return Array.isArray(logs) ? `${error.message}\n${logs.join("\n")}` : error.message;
+  }
+  return typeof error === "string" ? error : "";
+}
+
+// Raw errors often carry a multi-line simulation log; keep the summary line
+function firstLine(text: string): string {
+  const line = text.split("\n")[0].trim();
+  return line.length > 200 ? `${line.slice(0, 197)}...` : line;
+}
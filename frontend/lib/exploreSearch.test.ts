@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EXPLORE_SEARCH,
+  ExploreSearch,
+  MAX_SAVED_SEARCHES,
+  addSavedSearch,
+  exploreSearchString,
+  parseExploreSearch,
+  parseSavedSearches,
+} from "./exploreSearch";
+
+describe("explore search strings", () => {
+  it("leave defaults out of the URL", () => {
+    expect(exploreSearchString(DEFAULT_EXPLORE_SEARCH)).toBe("");
+    expect(parseExploreSearch("")).toEqual(DEFAULT_EXPLORE_SEARCH);
+  });
+
+  it("round-trip every field", () => {
+    const search: ExploreSearch = {
+      query: "pixel cat & co",
+      sort: "rarest",
+      minPrice: "0.5",
+      maxPrice: "12",
+      minRank: "1",
+      maxRank: "100",
+      collection: "verified:Coll111",
+      traits: { Background: ["Red", "Blue"], "Eye Color": ["50%"] },
+      page: 3,
+      filters: true,
+    };
+
+    const string = exploreSearchString(search);
+    expect(string).toContain("trait.Background=Red&trait.Background=Blue");
+    expect(parseExploreSearch(string)).toEqual(search);
+    expect(parseExploreSearch(`?${string}`)).toEqual(search);
+  });
+
+  it("fall back to defaults for values that do not parse", () => {
+    expect(
+      parseExploreSearch(
+        "sort=cheapest&minPrice=abc&maxRank=%201e2%20&page=0&filters=yes&collection=&trait.=x"
+      )
+    ).toEqual({ ...DEFAULT_EXPLORE_SEARCH, maxRank: "1e2" });
+    expect(parseExploreSearch("page=2.5&sort=constructor").page).toBe(1);
+    expect(parseExploreSearch("sort=constructor").sort).toBe("newest");
+  });
+
+  it("drop repeated trait values", () => {
+    expect(parseExploreSearch("trait.Hat=Cap&trait.Hat=Cap").traits).toEqual({ Hat: ["Cap"] });
+  });
+});
+
+describe("saved searches", () => {
+  it("save from the first page and replace searches with the same name", () => {
+    const first = addSavedSearch([], "Cheap cats", {
+      ...DEFAULT_EXPLORE_SEARCH,
+      query: "cat",
+      page: 4,
+    });
+    expect(first).toEqual([{ name: "Cheap cats", search: "q=cat", savedAt: expect.any(Number) }]);
+
+    const second = addSavedSearch(first, "cheap CATS", {
+      ...DEFAULT_EXPLORE_SEARCH,
+      maxPrice: "1",
+    });
+    expect(second.map((saved) => saved.search)).toEqual(["maxPrice=1"]);
+  });
+
+  it("keep at most the newest searches", () => {
+    let searches = parseSavedSearches(null);
+    for (let i = 0; i <= MAX_SAVED_SEARCHES; i++) {
+      searches = addSavedSearch(searches, `Search ${i}`, DEFAULT_EXPLORE_SEARCH);
+    }
+    expect(searches).toHaveLength(MAX_SAVED_SEARCHES);
+    expect(searches[0].name).toBe(`Search ${MAX_SAVED_SEARCHES}`);
+  });
+
+  it("ignore stored entries that are not searches", () => {
+    const stored = JSON.stringify([
+      { name: "Cats", search: "q=cat", savedAt: 1 },
+      { name: "Broken" },
+      null,
+    ]);
+    expect(parseSavedSearches(stored)).toEqual([{ name: "Cats", search: "q=cat", savedAt: 1 }]);
+    expect(parseSavedSearches("{")).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+// Explore page state as a URL query string, so searches survive a refresh,
+// can be shared and are stepped through with back and forward. Defaults are
+// left out of the URL; values that do not parse fall back to them.
+
+import { TraitFilter } from "./attributes";
+
+export type SortOption =
+  | "newest"
+  | "oldest"
+  | "repriced"
+  | "price-low"
+  | "price-high"
+  | "rarest";
+
+export const SORT_OPTIONS: Record<SortOption, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  repriced: "Recently Repriced",
+  "price-low": "Price: Low to High",
+  "price-high": "Price: High to Low",
+  rarest: "Rarest First",
+};
+
+// NFTs per page of results
+export const EXPLORE_PAGE_SIZE = 24;
+
+export interface ExploreSearch {
+  query: string;
+  sort: SortOption;
+  // Prices in SOL and ranks as typed, empty when unset
+  minPrice: string;
+  maxPrice: string;
+  minRank: string;
+  maxRank: string;
+  // Key of the collection facet, see CollectionRef
+  collection: string | null;
+  traits: TraitFilter;
+  // 1-based
+  page: number;
+  // Whether the filter panel is open
+  filters: boolean;
+}
+
+export const DEFAULT_EXPLORE_SEARCH: ExploreSearch = {
+  query: "",
+  sort: "newest",
+  minPrice: "",
+  maxPrice: "",
+  minRank: "",
+  maxRank: "",
+  collection: null,
+  traits: {},
+  page: 1,
+  filters: false,
+};
+
+// Trait selections are repeated "trait.<type>=<value>" parameters
+const TRAIT_PARAM_PREFIX = "trait.";
+
+export function parseExploreSearch(search: string): ExploreSearch {
+  const params = new URLSearchParams(search);
+  const number = (name: string) => {
+    const value = params.get(name)?.trim() ?? "";
+    return value && Number.isFinite(Number(value)) ? value : "";
+  };
+
+  const traits: TraitFilter = {};
+  for (const [name, value] of params) {
+    if (name.startsWith(TRAIT_PARAM_PREFIX) && name.length > TRAIT_PARAM_PREFIX.length) {
+      const traitType = name.slice(TRAIT_PARAM_PREFIX.length);
+      if (!traits[traitType]?.includes(value)) {
+        traits[traitType] = [...(traits[traitType] ?? []), value];
+      }
+    }
+  }
+
+  const sort = params.get("sort");
+  const page = Number(params.get("page"));
+  return {
+    query: params.get("q") ?? "",
+    sort:
+      sort && Object.hasOwn(SORT_OPTIONS, sort)
+        ? (sort as SortOption)
+        : DEFAULT_EXPLORE_SEARCH.sort,
+    minPrice: number("minPrice"),
+    maxPrice: number("maxPrice"),
+    minRank: number("minRank"),
+    maxRank: number("maxRank"),
+    collection: params.get("collection") || null,
+    traits,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+    filters: params.get("filters") === "1",
+  };
+}
+
+// The query string for a search, without the leading "?"
+export function exploreSearchString(search: ExploreSearch): string {
+  const params = new URLSearchParams();
+  if (search.query) params.set("q", search.query);
+  if (search.sort !== DEFAULT_EXPLORE_SEARCH.sort) params.set("sort", search.sort);
+  if (search.minPrice) params.set("minPrice", search.minPrice);
+  if (search.maxPrice) params.set("maxPrice", search.maxPrice);
+  if (search.minRank) params.set("minRank", search.minRank);
+  if (search.maxRank) params.set("maxRank", search.maxRank);
+  if (search.collection) params.set("collection", search.collection);
+  for (const [traitType, values] of Object.entries(search.traits)) {
+    for (const value of values) {
+      params.append(`${TRAIT_PARAM_PREFIX}${traitType}`, value);
+    }
+  }
+  if (search.page > 1) params.set("page", String(search.page));
+  if (search.filters) params.set("filters", "1");
+  return params.toString();
+}
+
+// Whether anything narrows or reorders the results
+export function hasActiveFilters(search: ExploreSearch): boolean {
+  return (
+    !!search.query ||
+    !!search.minPrice ||
+    !!search.maxPrice ||
+    !!search.minRank ||
+    !!search.maxRank ||
+    !!search.collection ||
+    Object.keys(search.traits).length > 0 ||
+    search.sort !== DEFAULT_EXPLORE_SEARCH.sort
+  );
+}
+
+// A search saved under a name by a wallet
+export interface SavedSearch {
+  name: string;
+  // Query string of the search, starting on the first page
+  search: string;
+  savedAt: number;
+}
+
+// Most searches kept per wallet; the oldest are dropped
+export const MAX_SAVED_SEARCHES = 20;
+
+const SAVED_SEARCHES_KEY_PREFIX = "pixelmart_saved_searches_";
+
+export function savedSearchesKey(owner: string): string {
+  return `${SAVED_SEARCHES_KEY_PREFIX}${owner}`;
+}
+
+export function parseSavedSearches(stored: string | null): SavedSearch[] {
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (entry): entry is SavedSearch =>
+            entry &&
+            typeof entry.name === "string" &&
+            typeof entry.search === "string" &&
+            typeof entry.savedAt === "number"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Add a search, replacing one saved under the same name
+export function addSavedSearch(
+  searches: SavedSearch[],
+  name: string,
+  search: ExploreSearch
+): SavedSearch[] {
+  const entry: SavedSearch = {
+    name,
+    search: exploreSearchString({ ...search, page: 1 }),
+    savedAt: Date.now(),
+  };
+  return [
+    entry,
+    ...searches.filter((saved) => saved.name.toLowerCase() !== name.toLowerCase()),
+  ].slice(0, MAX_SAVED_SEARCHES);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  ARWEAVE_GATEWAYS,
+  IPFS_GATEWAYS,
+  parseStorageUri,
+  resolveUri,
+  resolveUriCandidates,
+} from "./gateways";
+
+const CID_V0 = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+const CID_V1 = "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+const ARWEAVE_ID = "bNbA3TEQVL60xlgCcqdz4ZPHFZ711cZ3hmkpGttDt_U";
+
+describe("parseStorageUri", () => {
+  it("reads IPFS URIs, paths and bare CIDs", () => {
+    expect(parseStorageUri(`ipfs://${CID_V0}/1.json`)).toEqual({
+      kind: "ipfs",
+      path: `${CID_V0}/1.json`,
+    });
+    expect(parseStorageUri(`ipfs://ipfs/${CID_V0}`)).toEqual({ kind: "ipfs", path: CID_V0 });
+    expect(parseStorageUri(`/ipfs/${CID_V1}`)).toEqual({ kind: "ipfs", path: CID_V1 });
+    expect(parseStorageUri(` ${CID_V1}/image.png `)).toEqual({
+      kind: "ipfs",
+      path: `${CID_V1}/image.png`,
+    });
+  });
+
+  it("recognizes IPFS gateway URLs by path or subdomain", () => {
+    expect(parseStorageUri(`https://gateway.pinata.cloud/ipfs/${CID_V0}/a.png?x=1`)).toEqual({
+      kind: "ipfs",
+      path: `${CID_V0}/a.png?x=1`,
+    });
+    expect(parseStorageUri(`https://${CID_V1}.ipfs.nftstorage.link/`)).toEqual({
+      kind: "ipfs",
+      path: CID_V1,
+    });
+    // Not a CID, so just a URL
+    expect(parseStorageUri("https://example.com/ipfs/not-a-cid")).toEqual({
+      kind: "url",
+      url: "https://example.com/ipfs/not-a-cid",
+    });
+  });
+
+  it("reads Arweave URIs and gateway URLs", () => {
+    expect(parseStorageUri(`ar://${ARWEAVE_ID}`)).toEqual({ kind: "arweave", path: ARWEAVE_ID });
+    expect(parseStorageUri(`https://gateway.irys.xyz/${ARWEAVE_ID}/0.png`)).toEqual({
+      kind: "arweave",
+      path: `${ARWEAVE_ID}/0.png`,
+    });
+    // Other hosts serving the same path are left alone
+    expect(parseStorageUri(`https://example.com/${ARWEAVE_ID}`)).toEqual({
+      kind: "url",
+      url: `https://example.com/${ARWEAVE_ID}`,
+    });
+  });
+
+  it("keeps data URLs and relative paths, and rejects other schemes", () => {
+    expect(parseStorageUri("data:image/png;base64,AAAA")).toEqual({
+      kind: "url",
+      url: "data:image/png;base64,AAAA",
+    });
+    expect(parseStorageUri("/placeholder.png")).toEqual({ kind: "url", url: "/placeholder.png" });
+    expect(parseStorageUri("javascript:alert(1)")).toBeNull();
+    expect(parseStorageUri("file:///etc/passwd")).toBeNull();
+    expect(parseStorageUri("image.png")).toBeNull();
+    expect(parseStorageUri("  ")).toBeNull();
+  });
+});
+
+describe("resolveUriCandidates", () => {
+  it("lists every gateway in order", () => {
+    expect(resolveUriCandidates(`ipfs://${CID_V0}`)).toEqual(
+      IPFS_GATEWAYS.map((gateway) => `${gateway}${CID_V0}`)
+    );
+    expect(resolveUriCandidates(`https://arweave.net/${ARWEAVE_ID}`)).toEqual(
+      ARWEAVE_GATEWAYS.map((gateway) => `${gateway}${ARWEAVE_ID}`)
+    );
+    expect(resolveUri(`ipfs://${CID_V0}`)).toBe(`${IPFS_GATEWAYS[0]}${CID_V0}`);
+  });
+
+  it("passes other URLs through and drops what cannot be fetched", () => {
+    expect(resolveUriCandidates("https://example.com/1.json")).toEqual([
+      "https://example.com/1.json",
+    ]);
+    expect(resolveUriCandidates(undefined)).toEqual([]);
+    expect(resolveUriCandidates("ftp://example.com/1.json")).toEqual([]);
+    expect(resolveUri("")).toBeUndefined();
+  });
+});
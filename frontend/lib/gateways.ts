@@ -0,0 +1,162 @@
+// Resolution of decentralized storage URIs (ipfs://, ar://, bare CIDs and
+// known gateway URLs) to an ordered list of HTTP gateway URLs. Shared by the
+// browser and the /api/image route, so keep this module free of app imports.
+
+// Gateways are tried in order. Override with a comma-separated list of base
+// URLs, e.g. NEXT_PUBLIC_IPFS_GATEWAYS=https://my.gateway/ipfs/,https://ipfs.io/ipfs/
+export const IPFS_GATEWAYS = parseGateways(process.env.NEXT_PUBLIC_IPFS_GATEWAYS, [
+  "https://ipfs.io/ipfs/",
+  "https://nftstorage.link/ipfs/",
+  "https://dweb.link/ipfs/",
+]);
+
+export const ARWEAVE_GATEWAYS = parseGateways(process.env.NEXT_PUBLIC_ARWEAVE_GATEWAYS, [
+  "https://arweave.net/",
+  "https://gateway.irys.xyz/",
+]);
+
+// How long to wait on one gateway before trying the next
+export const GATEWAY_TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_GATEWAY_TIMEOUT_MS) || 8000;
+
+// Hosts whose /<id> paths are Arweave transaction ids, so a URL on one of
+// them can fall back to the other Arweave gateways
+const ARWEAVE_HOSTS = [
+  "arweave.net",
+  "www.arweave.net",
+  "gateway.irys.xyz",
+  "node1.irys.xyz",
+  "node2.irys.xyz",
+];
+
+// CIDv0 (base58 "Qm...") and CIDv1 (base32 "b...")
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})$/;
+// Path-style and subdomain-style IPFS gateway URLs
+const IPFS_PATH_PATTERN = /\/ipfs\/([^/?#]+)(\/[^?#]*)?/;
+const IPFS_SUBDOMAIN_PATTERN = /^([^.]+)\.ipfs\./;
+const ARWEAVE_ID_PATTERN = /^\/([A-Za-z0-9_-]{43})(\/[^?#]*)?$/;
+
+export type StorageLocation =
+  | { kind: "ipfs"; path: string } // CID plus optional path
+  | { kind: "arweave"; path: string } // Transaction id plus optional path
+  | { kind: "url"; url: string }; // Any other http(s) or data URL
+
+// Work out where a URI points, recognizing gateway URLs as their underlying
+// IPFS or Arweave content
+export function parseStorageUri(uri: string): StorageLocation | null {
+  const value = uri.trim();
+  if (!value) {
+    return null;
+  }
+
+  if (value.startsWith("ipfs://")) {
+    return { kind: "ipfs", path: value.slice("ipfs://".length).replace(/^ipfs\//, "") };
+  }
+  if (value.startsWith("ar://")) {
+    return { kind: "arweave", path: value.slice("ar://".length) };
+  }
+  if (value.startsWith("/ipfs/")) {
+    return { kind: "ipfs", path: value.slice("/ipfs/".length) };
+  }
+  if (CID_PATTERN.test(value.split("/")[0])) {
+    return { kind: "ipfs", path: value };
+  }
+  if (value.startsWith("data:")) {
+    return { kind: "url", url: value };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    // Relative paths such as the local placeholder image
+    return value.startsWith("/") ? { kind: "url", url: value } : null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return null;
+  }
+
+  const pathMatch = url.pathname.match(IPFS_PATH_PATTERN);
+  if (pathMatch && CID_PATTERN.test(pathMatch[1])) {
+    return { kind: "ipfs", path: pathMatch[1] + (pathMatch[2] ?? "") + url.search };
+  }
+  const subdomainMatch = url.hostname.match(IPFS_SUBDOMAIN_PATTERN);
+  if (subdomainMatch && CID_PATTERN.test(subdomainMatch[1])) {
+    const path = url.pathname === "/" ? "" : url.pathname;
+    return { kind: "ipfs", path: subdomainMatch[1] + path + url.search };
+  }
+  const arweaveMatch = ARWEAVE_HOSTS.includes(url.hostname) && url.pathname.match(ARWEAVE_ID_PATTERN);
+  if (arweaveMatch) {
+    return { kind: "arweave", path: arweaveMatch[1] + (arweaveMatch[2] ?? "") + url.search };
+  }
+
+  return { kind: "url", url: value };
+}
+
+// Every URL the content of a URI can be fetched from, in preference order
+export function resolveUriCandidates(uri: string | undefined): string[] {
+  const location = uri ? parseStorageUri(uri) : null;
+  if (!location) {
+    return [];
+  }
+
+  switch (location.kind) {
+    case "ipfs":
+      return IPFS_GATEWAYS.map((gateway) => gateway + location.path);
+    case "arweave":
+      return ARWEAVE_GATEWAYS.map((gateway) => gateway + location.path);
+    case "url":
+      return [location.url];
+  }
+}
+
+// The preferred HTTP URL for a URI, or undefined if it cannot be fetched
+export function resolveUri(uri: string | undefined): string | undefined {
+  return resolveUriCandidates(uri)[0];
+}
+
+// Fetch a URI from the first gateway that answers in time. Throws the last
+// failure if no gateway succeeds.
+export async function fetchWithFallback(uri: string, init: RequestInit = {}): Promise<Response> {
+  const candidates = resolveUriCandidates(uri);
+  if (candidates.length === 0) {
+    throw new Error(`Unsupported URI: ${uri}`);
+  }
+
+  let lastError: unknown;
+  for (const candidate of candidates) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), GATEWAY_TIMEOUT_MS);
+    try {
+      const response = await fetch(candidate, { ...init, signal: controller.signal });
+      if (response.ok) {
+        return response;
+      }
+      lastError = new Error(`HTTP ${response.status} from ${candidate}`);
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new Error(`Timed out after ${GATEWAY_TIMEOUT_MS}ms fetching ${candidate}`)
+        : error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+  throw lastError;
+}
+
+// URL of a resized copy of an image, served by the /api/image proxy
+export function imageProxyUrl(uri: string, width?: number): string {
+  const params = new URLSearchParams({ url: uri });
+  if (width) {
+    params.set("w", String(width));
+  }
+  return `/api/image?${params}`;
+}
+
+function parseGateways(value: string | undefined, defaults: string[]): string[] {
+  const gateways = value
+    ?.split(",")
+    .map((gateway) => gateway.trim())
+    .filter(Boolean)
+    .map((gateway) => (gateway.endsWith("/") ? gateway : `${gateway}/`));
+  return gateways?.length ? gateways : defaults;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { isPrivateAddress } from "./imageProxy";
+
+// Host name of a URL as the proxy sees it, after WHATWG normalization
+function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^\[|\]$/g, "");
+}
+
+describe("isPrivateAddress", () => {
+  it("rejects private and reserved IPv4 addresses", () => {
+    for (const address of [
+      "0.0.0.0",
+      "10.1.2.3",
+      "100.64.0.1",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.0.0.8",
+      "192.0.2.1",
+      "192.168.1.1",
+      "198.18.0.1",
+      "224.0.0.1",
+      "255.255.255.255",
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("accepts public IPv4 addresses", () => {
+    for (const address of ["8.8.8.8", "1.1.1.1", "172.32.0.1", "192.0.78.9", "100.128.0.1"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it("rejects private IPv6 addresses", () => {
+    for (const address of ["::", "::1", "fc00::1", "fd12:3456::1", "fe80::1", "fe80::1%eth0", "ff02::1"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("rejects IPv4-mapped addresses of private hosts in every notation", () => {
+    expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:7f00:1")).toBe(true);
+    expect(isPrivateAddress("0:0:0:0:0:ffff:a00:1")).toBe(true);
+    expect(isPrivateAddress(hostOf("http://[::ffff:127.0.0.1]/"))).toBe(true);
+    expect(isPrivateAddress(hostOf("http://[::ffff:169.254.169.254]/"))).toBe(true);
+  });
+
+  it("rejects IPv4-compatible, NAT64 and 6to4 addresses of private hosts", () => {
+    expect(isPrivateAddress("::7f00:1")).toBe(true);
+    expect(isPrivateAddress("::127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("64:ff9b::7f00:1")).toBe(true);
+    expect(isPrivateAddress("64:ff9b::10.0.0.1")).toBe(true);
+    expect(isPrivateAddress("64:ff9b:1::1")).toBe(true);
+    expect(isPrivateAddress("2002:c0a8:101::1")).toBe(true);
+  });
+
+  it("accepts public IPv6 addresses, including embedded public IPv4", () => {
+    for (const address of ["2606:4700:4700::1111", "::ffff:8.8.8.8", "::ffff:808:808", "64:ff9b::808:808"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it("rejects anything that is not an IP address", () => {
+    expect(isPrivateAddress("localhost")).toBe(true);
+    expect(isPrivateAddress("")).toBe(true);
+  });
+});
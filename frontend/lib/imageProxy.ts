@@ -0,0 +1,390 @@
+import { createHash } from "node:crypto";
+import { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { BlockList, isIP } from "node:net";
+import path from "node:path";
+import sharp from "sharp";
+import { Agent, Response, fetch } from "undici";
+import { GATEWAY_TIMEOUT_MS, parseStorageUri, resolveUriCandidates } from "./gateways";
+
+// Server side of /api/image: fetches NFT images from arbitrary hosts, checks
+// them and serves cached, resized copies from our own origin.
+
+// Widths the proxy renders; requests are rounded up to the next one so the
+// cache holds a handful of variants per image
+export const IMAGE_WIDTHS = [64, 128, 256, 384, 640, 828, 1080, 1200, 1920];
+
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024; // 15 MB
+const MAX_REDIRECTS = 3;
+const CACHE_DIR =
+  process.env.IMAGE_CACHE_DIR || path.join(process.cwd(), ".next", "cache", "nft-images");
+// IPFS and Arweave content never changes; anything else is re-fetched daily
+const MUTABLE_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+// Formats accepted from upstream, as detected by sharp from the bytes
+const FORMATS: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  heif: "image/avif",
+  svg: "image/svg+xml",
+};
+
+// Upstream content types worth downloading; gateways often serve images as
+// octet-stream, so the bytes are what really decides
+const ACCEPTED_CONTENT_TYPE = /^(image\/|application\/octet-stream|binary\/octet-stream)/i;
+
+export class ImageProxyError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "ImageProxyError";
+  }
+}
+
+export interface ProxiedImage {
+  body: Buffer;
+  contentType: string;
+  // Whether the source is content-addressed and can be cached forever
+  immutable: boolean;
+}
+
+interface CacheMeta {
+  contentType: string;
+  immutable: boolean;
+}
+
+const inFlight = new Map<string, Promise<ProxiedImage>>();
+
+// Fetch (or load from the disk cache) an image at the given width. Without a
+// width the original is served, re-encoded if it is an SVG.
+export function getProxiedImage(uri: string, width?: number): Promise<ProxiedImage> {
+  const location = parseStorageUri(uri);
+  if (!location || (location.kind === "url" && !/^https?:\/\//i.test(location.url))) {
+    throw new ImageProxyError(400, "Unsupported image URL");
+  }
+
+  const variant = width ? snapWidth(width) : undefined;
+  const key = createHash("sha256").update(`${uri}\n${variant ?? "original"}`).digest("hex");
+
+  const existing = inFlight.get(key);
+  if (existing) {
+    return existing;
+  }
+  const promise = loadImage(key, uri, location.kind !== "url", variant).finally(() =>
+    inFlight.delete(key)
+  );
+  inFlight.set(key, promise);
+  return promise;
+}
+
+function snapWidth(width: number): number {
+  return IMAGE_WIDTHS.find((w) => w >= width) ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+async function loadImage(
+  key: string,
+  uri: string,
+  immutable: boolean,
+  width: number | undefined
+): Promise<ProxiedImage> {
+  const cached = await readCache(key);
+  if (cached) {
+    return cached;
+  }
+
+  const source = await downloadImage(uri);
+  const image = await renderImage(source, width);
+  const result = { ...image, immutable };
+  await writeCache(key, result);
+  return result;
+}
+
+// Try each gateway for the URI until one returns an acceptable image
+async function downloadImage(uri: string): Promise<Buffer> {
+  let lastError: unknown;
+  for (const candidate of resolveUriCandidates(uri)) {
+    try {
+      return await fetchImage(candidate);
+    } catch (error) {
+      // Problems with the image itself are the same on every gateway
+      if (error instanceof ImageProxyError && error.status !== 502) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+  throw lastError instanceof ImageProxyError
+    ? lastError
+    : new ImageProxyError(502, "Could not fetch image");
+}
+
+async function fetchImage(url: string): Promise<Buffer> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), GATEWAY_TIMEOUT_MS);
+
+  try {
+    let current = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+      // Connect only to the addresses checked here, so a second DNS answer
+      // cannot point the request somewhere private
+      const dispatcher = pinnedAgent(await resolvePublicHost(current));
+      try {
+        // Follow redirects by hand so every hop is checked against private addresses
+        const response = await fetch(current, {
+          redirect: "manual",
+          signal: controller.signal,
+          headers: { accept: "image/*" },
+          dispatcher,
+        });
+
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          if (redirects >= MAX_REDIRECTS) {
+            throw new ImageProxyError(502, "Too many redirects");
+          }
+          current = new URL(location, current);
+          continue;
+        }
+        if (!response.ok) {
+          throw new ImageProxyError(502, `Upstream returned ${response.status}`);
+        }
+
+        const contentType = response.headers.get("content-type") ?? "";
+        if (contentType && !ACCEPTED_CONTENT_TYPE.test(contentType)) {
+          throw new ImageProxyError(415, `Unsupported content type ${contentType}`);
+        }
+        const length = Number(response.headers.get("content-length"));
+        if (length > MAX_IMAGE_BYTES) {
+          throw new ImageProxyError(413, "Image is too large");
+        }
+        return await readLimited(response, MAX_IMAGE_BYTES);
+      } finally {
+        // Drops any unread body along with the connection
+        void dispatcher.destroy();
+      }
+    }
+  } catch (error) {
+    if (error instanceof ImageProxyError) {
+      throw error;
+    }
+    throw new ImageProxyError(
+      502,
+      controller.signal.aborted ? "Timed out fetching image" : "Could not fetch image"
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Read a response body, giving up as soon as it exceeds the limit
+async function readLimited(response: Response, limit: number): Promise<Buffer> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new ImageProxyError(502, "Empty response");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new ImageProxyError(413, "Image is too large");
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Identify the image from its bytes and resize it. SVGs are always rasterized,
+// since serving them from our origin would let them run scripts.
+async function renderImage(
+  source: Buffer,
+  width: number | undefined
+): Promise<Omit<ProxiedImage, "immutable">> {
+  let format: string | undefined;
+  try {
+    format = (await sharp(source).metadata()).format;
+  } catch {
+    throw new ImageProxyError(415, "Not an image");
+  }
+  if (!format || !FORMATS[format]) {
+    throw new ImageProxyError(415, `Unsupported image format ${format ?? "unknown"}`);
+  }
+
+  if (!width && format !== "svg") {
+    return { body: source, contentType: FORMATS[format] };
+  }
+
+  const pipeline = sharp(source, { animated: format === "gif" || format === "webp" });
+  if (width) {
+    pipeline.resize({ width, withoutEnlargement: true });
+  }
+  return { body: await pipeline.webp().toBuffer(), contentType: "image/webp" };
+}
+
+// Resolve a URL's host, rejecting it if any address is loopback, private or
+// link-local
+async function resolvePublicHost(url: URL): Promise<LookupAddress[]> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new ImageProxyError(400, "Unsupported image URL");
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: LookupAddress[];
+  try {
+    const family = isIP(hostname);
+    addresses = family
+      ? [{ address: hostname, family }]
+      : await lookup(hostname, { all: true });
+  } catch {
+    throw new ImageProxyError(502, `Could not resolve ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new ImageProxyError(403, "Image host is not allowed");
+  }
+  return addresses;
+}
+
+// An agent whose connections go to the given addresses whatever the host
+// name resolves to by then
+function pinnedAgent(addresses: LookupAddress[]): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+    },
+  });
+}
+
+// Loopback, private, link-local, multicast and reserved ranges. IPv6
+// addresses that embed an IPv4 one are also checked against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 3], // Multicast and reserved
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // Unspecified and loopback
+  ["64:ff9b:1::", 48], // Local-use NAT64
+  ["100::", 64], // Discard
+  ["2001:db8::", 32], // Documentation
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["fec0::", 10], // Site-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // Zone IDs ("fe80::1%eth0") do not change where an address points
+  const host = address.replace(/%.*$/, "");
+  const version = isIP(host);
+  if (version === 4) {
+    return PRIVATE_RANGES.check(host, "ipv4");
+  }
+  if (version === 6) {
+    const embedded = embeddedIPv4(ipv6Bytes(host));
+    return (
+      (embedded !== null && PRIVATE_RANGES.check(embedded, "ipv4")) ||
+      PRIVATE_RANGES.check(host, "ipv6")
+    );
+  }
+  return true;
+}
+
+// The 16 bytes of a valid IPv6 address, which may end in dotted IPv4
+function ipv6Bytes(address: string): number[] {
+  const text = address.replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_, a, b, c, d) =>
+    [Number(a) * 256 + Number(b), Number(c) * 256 + Number(d)]
+      .map((group) => group.toString(16))
+      .join(":")
+  );
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array<string>(zeros).fill("0"), ...tailGroups].flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+// The IPv4 address inside an IPv4-mapped (::ffff:0:0/96), IPv4-compatible
+// (::/96), NAT64 (64:ff9b::/96) or 6to4 (2002::/16) address
+function embeddedIPv4(bytes: number[]): string | null {
+  const zero = (from: number, to: number) => bytes.slice(from, to).every((byte) => byte === 0);
+  let start: number | null = null;
+  if (zero(0, 10) && (zero(10, 12) || (bytes[10] === 0xff && bytes[11] === 0xff))) {
+    start = 12;
+  } else if (
+    bytes[0] === 0x00 &&
+    bytes[1] === 0x64 &&
+    bytes[2] === 0xff &&
+    bytes[3] === 0x9b &&
+    zero(4, 12)
+  ) {
+    start = 12;
+  } else if (bytes[0] === 0x20 && bytes[1] === 0x02) {
+    start = 2;
+  }
+  return start === null ? null : bytes.slice(start, start + 4).join(".");
+}
+
+// Disk cache: <key> holds the bytes and <key>.json the content type
+
+async function readCache(key: string): Promise<ProxiedImage | null> {
+  const file = path.join(CACHE_DIR, key);
+  try {
+    const [meta, info] = await Promise.all([
+      readFile(`${file}.json`, "utf8").then((text) => JSON.parse(text) as CacheMeta),
+      stat(file),
+    ]);
+    if (!meta.immutable && Date.now() - info.mtimeMs > MUTABLE_CACHE_TTL) {
+      return null;
+    }
+    return { body: await readFile(file), ...meta };
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(key: string, image: ProxiedImage): Promise<void> {
+  const file = path.join(CACHE_DIR, key);
+  const meta: CacheMeta = { contentType: image.contentType, immutable: image.immutable };
+  try {
+    await mkdir(CACHE_DIR, { recursive: true });
+    // Write then rename so concurrent readers never see a partial file
+    await writeFile(`${file}.tmp`, image.body);
+    await rename(`${file}.tmp`, file);
+    await writeFile(`${file}.json`, JSON.stringify(meta));
+  } catch (error) {
+    console.error("Error writing image cache:", error);
+  }
+}
@@ -0,0 +1,74 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SUPPORTED_MEDIA_TYPES } from "./media";
+
+// Server side of the local uploader (NEXT_PUBLIC_UPLOADER=local): a
+// content-addressed file store on the dev server's disk standing in for Irys.
+
+export const LOCAL_UPLOADS_ENABLED = process.env.NEXT_PUBLIC_UPLOADER === "local";
+
+const UPLOAD_DIR =
+  process.env.LOCAL_UPLOAD_DIR || path.join(process.cwd(), ".next", "cache", "local-uploads");
+const MAX_LOCAL_UPLOAD_BYTES = 100 * 1024 * 1024; // 100 MB
+// Stored names are <sha256>.<extension>
+const ID_PATTERN = /^[0-9a-f]{64}\.[a-z0-9]+$/;
+
+// File extension stored for each accepted content type
+const EXTENSIONS: Record<string, string> = {
+  "application/json": "json",
+  ...Object.fromEntries(
+    Object.entries(SUPPORTED_MEDIA_TYPES).map(([type, { extensions }]) => [type, extensions[0]])
+  ),
+};
+
+export class LocalUploadError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "LocalUploadError";
+  }
+}
+
+// Store a file and return its id. Identical content gets the same id, so
+// re-uploading after a failed mint does not duplicate files.
+export async function saveLocalUpload(body: Buffer, contentType: string): Promise<string> {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  const extension = EXTENSIONS[type];
+  if (!extension) {
+    throw new LocalUploadError(415, `Unsupported content type ${type || "(none)"}`);
+  }
+  if (body.length === 0) {
+    throw new LocalUploadError(400, "Empty upload");
+  }
+  if (body.length > MAX_LOCAL_UPLOAD_BYTES) {
+    throw new LocalUploadError(413, "Upload is too large");
+  }
+
+  const id = `${createHash("sha256").update(body).digest("hex")}.${extension}`;
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  await writeFile(path.join(UPLOAD_DIR, id), body);
+  return id;
+}
+
+// Load a stored file by id, or null if there is none
+export async function readLocalUpload(
+  id: string
+): Promise<{ body: Buffer; contentType: string } | null> {
+  if (!ID_PATTERN.test(id)) {
+    return null;
+  }
+  const extension = id.slice(id.lastIndexOf(".") + 1);
+  const contentType = Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === extension);
+  if (!contentType) {
+    return null;
+  }
+
+  try {
+    return { body: await readFile(path.join(UPLOAD_DIR, id)), contentType };
+  } catch {
+    return null;
+  }
+}
@@ -208,6 +208,38 @@ export type Marketplace = {
         {
           "name": "nftMint"
         },
+        {
+          "name": "metadata",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  109,
+                  101,
+                  116,
+                  97,
+                  100,
+                  97,
+                  116,
+                  97
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "metadataProgram"
+              },
+              {
+                "kind": "account",
+                "path": "nftMint"
+              }
+            ],
+            "program": {
+              "kind": "account",
+              "path": "metadataProgram"
+            }
+          }
+        },
         {
           "name": "tokenProgram",
           "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
@@ -219,9 +251,18 @@ export type Marketplace = {
         {
           "name": "systemProgram",
           "address": "11111111111111111111111111111111"
+        },
+        {
+          "name": "metadataProgram",
+          "address": "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
         }
       ],
-      "args": []
+      "args": [
+        {
+          "name": "expectedPrice",
+          "type": "u64"
+        }
+      ]
     },
     {
       "name": "cancelListing",
@@ -600,6 +641,58 @@ export type Marketplace = {
         }
       ]
     },
+    {
+      "name": "migrateListing",
+      "discriminator": [
+        202,
+        10,
+        210,
+        83,
+        249,
+        147,
+        116,
+        173
+      ],
+      "accounts": [
+        {
+          "name": "listing",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  108,
+                  105,
+                  115,
+                  116,
+                  105,
+                  110,
+                  103
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "nftMint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payer",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "nftMint"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
     {
       "name": "updateFee",
       "discriminator": [
@@ -787,6 +880,21 @@ export type Marketplace = {
       "code": 6009,
       "name": "invalidAdmin",
       "msg": "Invalid admin account"
+    },
+    {
+      "code": 6010,
+      "name": "listingAlreadyActive",
+      "msg": "NFT is already listed"
+    },
+    {
+      "code": 6011,
+      "name": "priceChanged",
+      "msg": "Listing price changed since it was displayed"
+    },
+    {
+      "code": 6012,
+      "name": "missingCreatorAccount",
+      "msg": "A verified creator account is missing or not writable"
     }
   ],
   "types": [
@@ -814,6 +922,14 @@ export type Marketplace = {
           {
             "name": "isActive",
             "type": "bool"
+          },
+          {
+            "name": "createdAt",
+            "type": "i64"
+          },
+          {
+            "name": "priceUpdatedAt",
+            "type": "i64"
           }
         ]
       }
@@ -0,0 +1,104 @@
+// Media types an NFT can carry, following the Metaplex JSON standard:
+// `image` is always a still or animated image, `animation_url` points at the
+// rich media, and `properties.files` lists every file with its MIME type.
+
+// Metaplex `properties.category` values
+export type MediaCategory = "image" | "video" | "audio" | "vr" | "html";
+
+export interface MetadataFile {
+  uri: string;
+  type: string;
+  cdn?: boolean;
+}
+
+export interface NFTMedia {
+  uri: string;
+  mimeType: string;
+  category: MediaCategory;
+}
+
+// File types creators can attach when minting, by MIME type
+export const SUPPORTED_MEDIA_TYPES: Record<string, { label: string; extensions: string[] }> = {
+  "image/png": { label: "PNG image", extensions: ["png"] },
+  "image/jpeg": { label: "JPEG image", extensions: ["jpg", "jpeg"] },
+  "image/gif": { label: "GIF", extensions: ["gif"] },
+  "image/webp": { label: "WebP image", extensions: ["webp"] },
+  "image/svg+xml": { label: "SVG image", extensions: ["svg"] },
+  "video/mp4": { label: "MP4 video", extensions: ["mp4", "m4v"] },
+  "video/webm": { label: "WebM video", extensions: ["webm"] },
+  "video/quicktime": { label: "QuickTime video", extensions: ["mov"] },
+  "audio/mpeg": { label: "MP3 audio", extensions: ["mp3"] },
+  "audio/wav": { label: "WAV audio", extensions: ["wav"] },
+  "audio/ogg": { label: "OGG audio", extensions: ["ogg", "oga"] },
+  "audio/flac": { label: "FLAC audio", extensions: ["flac"] },
+  "text/html": { label: "HTML page", extensions: ["html", "htm"] },
+  "model/gltf-binary": { label: "3D model (GLB)", extensions: ["glb"] },
+  "model/gltf+json": { label: "3D model (glTF)", extensions: ["gltf"] },
+};
+
+// Guess a MIME type from the file extension of a URI
+export function inferMimeType(uri: string): string | undefined {
+  const path = uri.split(/[?#]/)[0];
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  if (!extension || extension === path.toLowerCase()) {
+    return undefined;
+  }
+  return Object.keys(SUPPORTED_MEDIA_TYPES).find((type) =>
+    SUPPORTED_MEDIA_TYPES[type].extensions.includes(extension)
+  );
+}
+
+export function mediaCategory(mimeType: string): MediaCategory | undefined {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType === "text/html") return "html";
+  if (mimeType.startsWith("model/")) return "vr";
+  return undefined;
+}
+
+// The media to render for an NFT: its animation_url when it has one (typed
+// from properties.files, the file extension or properties.category), else its
+// image. Returns null when there is nothing to show.
+export function getPrimaryMedia(metadata: {
+  image?: string;
+  animationUrl?: string;
+  files?: MetadataFile[];
+  category?: string;
+}): NFTMedia | null {
+  const { image, animationUrl, files = [], category } = metadata;
+
+  if (animationUrl) {
+    const mimeType =
+      files.find((file) => file.uri === animationUrl)?.type ??
+      inferMimeType(animationUrl) ??
+      defaultMimeType(category);
+    const animationCategory = mimeType ? mediaCategory(mimeType) : undefined;
+    if (mimeType && animationCategory) {
+      return { uri: animationUrl, mimeType, category: animationCategory };
+    }
+  }
+
+  if (image) {
+    const mimeType =
+      files.find((file) => file.uri === image)?.type ?? inferMimeType(image) ?? "image/png";
+    return { uri: image, mimeType, category: "image" };
+  }
+  return null;
+}
+
+// Fallback type for an animation_url with no file entry or extension
+function defaultMimeType(category: string | undefined): string | undefined {
+  switch (category) {
+    case "video":
+      return "video/mp4";
+    case "audio":
+      return "audio/mpeg";
+    case "html":
+      return "text/html";
+    case "vr":
+      return "model/gltf-binary";
+    default:
+      return undefined;
+  }
+}
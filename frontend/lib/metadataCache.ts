@@ -0,0 +1,350 @@
+import { AccountInfo, Connection, PublicKey } from "@solana/web3.js";
+import {
+  METADATA_PROGRAM_ID,
+  NFTMetadata,
+  decodeMetadataAccount,
+  getMetadataPDA,
+  getOnChainFields,
+  resolveNFTMetadata,
+} from "./program";
+
+// Shared NFT metadata cache. Entries live in memory and in IndexedDB, so
+// navigating between pages (or reloading) does not re-download the same JSON.
+// Lookups made within a few milliseconds are batched into getMultipleAccountsInfo
+// calls, and concurrent lookups of a mint share one request.
+
+const MUTABLE_TTL = 10 * 60 * 1000; // 10 minutes
+const IMMUTABLE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MISSING_TTL = 60 * 1000; // 1 minute, for mints without metadata
+// After MUTABLE_TTL the account is re-read; its JSON is only downloaded again
+// if the URI changed or the JSON is older than this
+const JSON_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+// How long to collect lookups into one batch; long enough for the
+// IndexedDB reads of a page's worth of mints to finish
+const BATCH_WINDOW_MS = 10;
+// getMultipleAccountsInfo accepts at most 100 accounts
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+const DB_NAME = "pixelmart_metadata";
+const DB_VERSION = 1;
+const STORE_NAME = "metadata";
+
+interface CacheEntry {
+  metadata: NFTMetadata | undefined;
+  fetchedAt: number;
+  jsonFetchedAt: number;
+}
+
+// CacheEntry with public keys as base58 strings, for IndexedDB
+interface StoredEntry {
+  metadata:
+    | (Omit<NFTMetadata, "updateAuthority" | "creators" | "onChainCollection"> & {
+        updateAuthority?: string;
+        creators?: { address: string; share: number; verified: boolean }[];
+        onChainCollection?: { address: string; verified: boolean } | null;
+      })
+    | null;
+  fetchedAt: number;
+  jsonFetchedAt: number;
+}
+
+interface BatchRequest {
+  mint: PublicKey;
+  stale?: CacheEntry;
+}
+
+interface PendingBatch {
+  requests: Map<string, BatchRequest>;
+  results: Promise<Map<string, CacheEntry>>;
+}
+
+const memory = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<NFTMetadata | undefined>>();
+const pendingBatches = new Map<Connection, PendingBatch>();
+
+export interface MetadataLookupOptions {
+  // Ignore cached entries and read the account again
+  force?: boolean;
+}
+
+// Cached metadata for a mint, or undefined if it has none
+export async function getNFTMetadata(
+  connection: Connection,
+  mint: PublicKey,
+  options: MetadataLookupOptions = {}
+): Promise<NFTMetadata | undefined> {
+  return load(connection, mint, options.force ?? false);
+}
+
+// Cached metadata for several mints, keyed by base58 mint address
+export async function getNFTMetadataBatch(
+  connection: Connection,
+  mints: PublicKey[],
+  options: MetadataLookupOptions = {}
+): Promise<Map<string, NFTMetadata | undefined>> {
+  const entries = await Promise.all(
+    mints.map(async (mint) => {
+      const metadata = await load(connection, mint, options.force ?? false);
+      return [mint.toBase58(), metadata] as const;
+    })
+  );
+  return new Map(entries);
+}
+
+// Drop cached metadata, e.g. after an update to the metadata account
+export async function invalidateMetadata(mints: PublicKey[]): Promise<void> {
+  const keys = mints.map((mint) => mint.toBase58());
+  keys.forEach((key) => memory.delete(key));
+  await deleteStored(keys);
+}
+
+export async function clearMetadataCache(): Promise<void> {
+  memory.clear();
+  await clearStored();
+}
+
+function load(
+  connection: Connection,
+  mint: PublicKey,
+  force: boolean
+): Promise<NFTMetadata | undefined> {
+  const key = mint.toBase58();
+  const existing = inFlight.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const promise = (async () => {
+    const cached = memory.get(key) ?? (await readStored(key));
+    if (cached && !force && isFresh(cached)) {
+      memory.set(key, cached);
+      return cached.metadata;
+    }
+
+    try {
+      const entry = await enqueue(connection, { mint, stale: cached });
+      memory.set(key, entry);
+      void writeStored(key, entry);
+      return entry.metadata;
+    } catch (error) {
+      console.error(`Error fetching metadata for ${key}:`, error);
+      // Serve stale metadata rather than nothing while the RPC is failing
+      return cached?.metadata;
+    }
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+function isFresh(entry: CacheEntry): boolean {
+  const ttl =
+    entry.metadata === undefined
+      ? MISSING_TTL
+      : entry.metadata.isMutable === false
+      ? IMMUTABLE_TTL
+      : MUTABLE_TTL;
+  return Date.now() - entry.fetchedAt < ttl;
+}
+
+// Add a mint to the open batch, starting one if needed
+async function enqueue(connection: Connection, request: BatchRequest): Promise<CacheEntry> {
+  let batch = pendingBatches.get(connection);
+  if (!batch) {
+    const requests = new Map<string, BatchRequest>();
+    const results = new Promise<void>((resolve) => setTimeout(resolve, BATCH_WINDOW_MS)).then(
+      () => {
+        pendingBatches.delete(connection);
+        return loadBatch(connection, [...requests.values()]);
+      }
+    );
+    batch = { requests, results };
+    pendingBatches.set(connection, batch);
+  }
+
+  const key = request.mint.toBase58();
+  batch.requests.set(key, request);
+  const entry = (await batch.results).get(key);
+  if (!entry) {
+    throw new Error(`Metadata batch did not include ${key}`);
+  }
+  return entry;
+}
+
+async function loadBatch(
+  connection: Connection,
+  requests: BatchRequest[]
+): Promise<Map<string, CacheEntry>> {
+  const results = new Map<string, CacheEntry>();
+
+  for (let i = 0; i < requests.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const chunk = requests.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+    const accounts = await connection.getMultipleAccountsInfo(
+      chunk.map((request) => getMetadataPDA(request.mint))
+    );
+
+    await Promise.all(
+      chunk.map(async (request, index) => {
+        results.set(request.mint.toBase58(), await resolveEntry(accounts[index], request.stale));
+      })
+    );
+  }
+
+  return results;
+}
+
+// Decode a metadata account and attach its JSON, reusing the JSON of a stale
+// entry when the URI has not changed
+async function resolveEntry(
+  account: AccountInfo<Buffer> | null,
+  stale: CacheEntry | undefined
+): Promise<CacheEntry> {
+  const now = Date.now();
+  if (!account || !account.owner.equals(METADATA_PROGRAM_ID)) {
+    return { metadata: undefined, fetchedAt: now, jsonFetchedAt: now };
+  }
+
+  let onChain;
+  try {
+    onChain = decodeMetadataAccount(account.data);
+  } catch (error) {
+    // One malformed account should not fail the rest of the batch
+    console.error("Error decoding metadata account:", error);
+    return { metadata: undefined, fetchedAt: now, jsonFetchedAt: now };
+  }
+
+  if (
+    stale?.metadata &&
+    stale.metadata.uri === onChain.uri &&
+    now - stale.jsonFetchedAt < JSON_TTL
+  ) {
+    return {
+      metadata: { ...stale.metadata, ...getOnChainFields(onChain) },
+      fetchedAt: now,
+      jsonFetchedAt: stale.jsonFetchedAt,
+    };
+  }
+
+  return { metadata: await resolveNFTMetadata(onChain), fetchedAt: now, jsonFetchedAt: now };
+}
+
+function toStored(entry: CacheEntry): StoredEntry {
+  const { metadata } = entry;
+  return {
+    ...entry,
+    metadata: metadata
+      ? {
+          ...metadata,
+          updateAuthority: metadata.updateAuthority?.toBase58(),
+          creators: metadata.creators?.map((creator) => ({
+            ...creator,
+            address: creator.address.toBase58(),
+          })),
+          onChainCollection: metadata.onChainCollection && {
+            ...metadata.onChainCollection,
+            address: metadata.onChainCollection.address.toBase58(),
+          },
+        }
+      : null,
+  };
+}
+
+function fromStored(stored: StoredEntry): CacheEntry {
+  const { metadata } = stored;
+  return {
+    ...stored,
+    metadata: metadata
+      ? {
+          ...metadata,
+          updateAuthority: metadata.updateAuthority
+            ? new PublicKey(metadata.updateAuthority)
+            : undefined,
+          creators: metadata.creators?.map((creator) => ({
+            ...creator,
+            address: new PublicKey(creator.address),
+          })),
+          onChainCollection: metadata.onChainCollection && {
+            ...metadata.onChainCollection,
+            address: new PublicKey(metadata.onChainCollection.address),
+          },
+        }
+      : undefined,
+  };
+}
+
+// IndexedDB persistence. Every operation is best effort: without IndexedDB
+// (server rendering, private browsing) the cache is memory only.
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.resolve(null);
+  }
+  dbPromise ??= new Promise((resolve) => {
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+  fallback: T
+): Promise<T> {
+  const db = await openDb();
+  if (!db) {
+    return fallback;
+  }
+  return new Promise((resolve) => {
+    try {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : fallback);
+      transaction.onerror = () => resolve(fallback);
+      transaction.onabort = () => resolve(fallback);
+    } catch {
+      resolve(fallback);
+    }
+  });
+}
+
+async function readStored(key: string): Promise<CacheEntry | undefined> {
+  const stored = await withStore<StoredEntry | undefined>(
+    "readonly",
+    (store) => store.get(key),
+    undefined
+  );
+  try {
+    return stored ? fromStored(stored) : undefined;
+  } catch {
+    // Written by an incompatible version; refetch
+    return undefined;
+  }
+}
+
+async function writeStored(key: string, entry: CacheEntry): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.put(toStored(entry), key);
+  }, undefined);
+}
+
+async function deleteStored(keys: string[]): Promise<void> {
+  await withStore("readwrite", (store) => {
+    keys.forEach((key) => store.delete(key));
+  }, undefined);
+}
+
+async function clearStored(): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.clear();
+  }, undefined);
+}
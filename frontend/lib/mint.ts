@@ -0,0 +1,156 @@
+import {
+  createNft,
+  findMetadataPda,
+  verifyCollectionV1,
+} from "@metaplex-foundation/mpl-token-metadata";
+import {
+  GenericFile,
+  KeypairSigner,
+  TransactionBuilder,
+  Umi,
+  createAmount,
+  createGenericFileFromJson,
+  publicKey,
+  some,
+} from "@metaplex-foundation/umi";
+import { NFTAttribute } from "./attributes";
+import { CreatorSplit } from "./creators";
+import { MediaCategory, MetadataFile, mediaCategory } from "./media";
+import { UploadQuote, fileMimeType, quoteUpload } from "./uploader";
+
+export interface NFTMetadata {
+  name: string;
+  symbol: string;
+  description: string;
+  // Cover image, uploaded with the metadata
+  image: File;
+  // Optional video, audio, HTML or 3D file shown in place of the image
+  animation?: File;
+  attributes?: NFTAttribute[];
+  // Royalty on secondary sales; defaults to 5%
+  sellerFeeBasisPoints?: number;
+  // Creator split; defaults to the minting wallet alone
+  creators?: CreatorSplit[];
+  // Mint a collection NFT that other NFTs can be minted into
+  isCollection?: boolean;
+  // Collection to mint into; the wallet must be its update authority
+  collection?: { mint: string; name: string };
+}
+
+// Token Metadata limits on the on-chain name and symbol, in bytes
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+
+const DEFAULT_SELLER_FEE_BASIS_POINTS = 500;
+
+// Stand-in for an uploaded file's URI when pricing the metadata JSON
+const PLACEHOLDER_URI = `https://gateway.irys.xyz/${"x".repeat(43)}`;
+
+// The royalty and creators an NFT is minted with, defaulting to a 5% royalty
+// paid to the minting wallet
+function resolveSplit(metadata: NFTMetadata, minter: string) {
+  return {
+    sellerFeeBasisPoints: metadata.sellerFeeBasisPoints ?? DEFAULT_SELLER_FEE_BASIS_POINTS,
+    creators: metadata.creators?.length ? metadata.creators : [{ address: minter, share: 100 }],
+  };
+}
+
+// Metaplex metadata JSON for an NFT whose files are already uploaded
+export function buildMetadataJson(
+  metadata: NFTMetadata,
+  minter: string,
+  image: MetadataFile,
+  animation?: MetadataFile
+) {
+  const category: MediaCategory = (animation && mediaCategory(animation.type)) || "image";
+  const { sellerFeeBasisPoints, creators } = resolveSplit(metadata, minter);
+  return {
+    name: metadata.name,
+    symbol: metadata.symbol,
+    description: metadata.description,
+    seller_fee_basis_points: sellerFeeBasisPoints,
+    image: image.uri,
+    ...(animation && { animation_url: animation.uri }),
+    attributes: metadata.attributes || [],
+    ...(metadata.collection && { collection: { name: metadata.collection.name } }),
+    properties: {
+      files: animation ? [image, animation] : [image],
+      category,
+      creators,
+    },
+  };
+}
+
+// The files an NFT uploads, in the order image, animation
+export function mintFiles(metadata: NFTMetadata): File[] {
+  return metadata.animation ? [metadata.image, metadata.animation] : [metadata.image];
+}
+
+// Pair uploaded URIs with the real MIME types of the files they came from
+export function uploadedFiles(sources: File[], uris: string[]): MetadataFile[] {
+  return sources.map((file, i) => ({
+    uri: uris[i],
+    type: fileMimeType(file) ?? "application/octet-stream",
+  }));
+}
+
+// Price the media files plus the metadata JSON of each NFT that will point at
+// them; `files` holds every NFT's media files in order
+export async function quoteMint(
+  umi: Umi,
+  metadata: NFTMetadata[],
+  files: GenericFile[]
+): Promise<UploadQuote> {
+  const placeholder = { uri: PLACEHOLDER_URI, type: "application/octet-stream" };
+  const minter = umi.identity.publicKey.toString();
+  const jsons = metadata.map((nft) =>
+    createGenericFileFromJson(
+      buildMetadataJson(nft, minter, placeholder, nft.animation && placeholder)
+    )
+  );
+  return quoteUpload(umi.uploader, [...files, ...jsons]);
+}
+
+// Create the NFT with its uploaded metadata URI and mint it to the wallet.
+// The account carries the same royalty and creators as the JSON.
+export function createMintBuilder(
+  umi: Umi,
+  metadata: NFTMetadata,
+  mint: KeypairSigner,
+  uri: string
+): TransactionBuilder {
+  const minter = umi.identity.publicKey;
+  const { sellerFeeBasisPoints, creators } = resolveSplit(metadata, minter.toString());
+  const collectionMint = metadata.collection && publicKey(metadata.collection.mint);
+  const builder = createNft(umi, {
+    mint,
+    name: metadata.name,
+    symbol: metadata.symbol,
+    uri,
+    sellerFeeBasisPoints: createAmount(sellerFeeBasisPoints, "%", 2),
+    // Only the minting wallet can sign now; co-creators verify later
+    creators: some(
+      creators.map((creator) => ({
+        address: publicKey(creator.address),
+        verified: creator.address === minter.toString(),
+        share: creator.share,
+      }))
+    ),
+    // Collection NFTs are sized, so their metadata counts verified items
+    isCollection: metadata.isCollection,
+    collection: collectionMint ? some({ key: collectionMint, verified: false }) : undefined,
+  });
+  if (!collectionMint) {
+    return builder;
+  }
+
+  // Verify the item in the same transaction, signed as the collection's
+  // update authority, so it never exists unverified
+  return builder.add(
+    verifyCollectionV1(umi, {
+      metadata: findMetadataPda(umi, { mint: mint.publicKey }),
+      collectionMint,
+      authority: umi.identity,
+    })
+  );
+}
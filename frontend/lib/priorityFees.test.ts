@@ -0,0 +1,68 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { describe, expect, it, vi } from "vitest";
+import { getComputeUnitLimit, getPriorityFee } from "./priorityFees";
+
+function connectionWithFees(fees: number[] | Error) {
+  return {
+    getRecentPrioritizationFees: vi.fn(async () => {
+      if (fees instanceof Error) throw fees;
+      return fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+    }),
+  };
+}
+
+describe("getComputeUnitLimit", () => {
+  it("adds a margin to the simulated units", () => {
+    expect(getComputeUnitLimit(50_000, 2)).toBe(60_000);
+    expect(getComputeUnitLimit(33_333, 1)).toBe(40_000);
+  });
+
+  it("falls back to the default per instruction without a simulation", () => {
+    expect(getComputeUnitLimit(undefined, 2)).toBe(400_000);
+    expect(getComputeUnitLimit(null, 1)).toBe(200_000);
+    expect(getComputeUnitLimit(0, 3)).toBe(600_000);
+  });
+
+  it("never exceeds the maximum compute budget", () => {
+    expect(getComputeUnitLimit(1_300_000, 1)).toBe(1_400_000);
+    expect(getComputeUnitLimit(undefined, 10)).toBe(1_400_000);
+  });
+});
+
+describe("getPriorityFee", () => {
+  // 20 recent fees from 1,000 to 20,000, out of order
+  const fees = Array.from({ length: 20 }, (_, i) => ((i * 7) % 20 + 1) * 1000);
+
+  it("pays the level's percentile of recent fees on the written accounts", async () => {
+    const connection = connectionWithFees(fees);
+    const accounts = [PublicKey.unique()];
+
+    expect(await getPriorityFee(connection as unknown as Connection, accounts, "normal")).toBe(
+      11_000
+    );
+    expect(await getPriorityFee(connection as unknown as Connection, accounts, "fast")).toBe(
+      16_000
+    );
+    expect(connection.getRecentPrioritizationFees).toHaveBeenCalledWith({
+      lockedWritableAccounts: accounts,
+    });
+  });
+
+  it("applies each level's floor and the overall cap", async () => {
+    const quiet = connectionWithFees(fees) as unknown as Connection;
+    expect(await getPriorityFee(quiet, [], "turbo")).toBe(100_000);
+
+    const spiking = connectionWithFees([50_000_000]) as unknown as Connection;
+    expect(await getPriorityFee(spiking, [], "normal")).toBe(5_000_000);
+  });
+
+  it("falls back to the floor when fees cannot be fetched", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const failing = connectionWithFees(new Error("429 Too Many Requests")) as unknown as Connection;
+
+    expect(await getPriorityFee(failing, [], "normal")).toBe(0);
+    expect(await getPriorityFee(failing, [], "fast")).toBe(10_000);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
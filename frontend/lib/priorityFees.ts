@@ -0,0 +1,91 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+// How aggressively transactions bid for block space
+export type PriorityLevel = "normal" | "fast" | "turbo";
+
+export const DEFAULT_PRIORITY_LEVEL: PriorityLevel = "normal";
+
+// Each level pays a percentile of recent priority fees on the accounts the
+// transaction writes to, with a floor so Fast and Turbo still bid on quiet
+// clusters. Fees are in micro-lamports per compute unit.
+export const PRIORITY_LEVELS: Record<
+  PriorityLevel,
+  { label: string; percentile: number; minMicroLamports: number }
+> = {
+  normal: { label: "Normal", percentile: 50, minMicroLamports: 0 },
+  fast: { label: "Fast", percentile: 75, minMicroLamports: 10_000 },
+  turbo: { label: "Turbo", percentile: 95, minMicroLamports: 100_000 },
+};
+
+// Upper bound on the priority fee, so a fee spike cannot drain a wallet
+const MAX_MICRO_LAMPORTS = 5_000_000;
+
+// Solana's default and maximum compute budget per transaction
+export const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+// Headroom on top of the simulated compute units, since account state can
+// change between simulation and execution
+const COMPUTE_UNIT_MARGIN = 1.2;
+
+// Priority fee for the given level from getRecentPrioritizationFees
+export async function getPriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  level: PriorityLevel
+): Promise<number> {
+  const { percentile, minMicroLamports } = PRIORITY_LEVELS[level];
+
+  let recent: number[] = [];
+  try {
+    const fees = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    });
+    recent = fees.map((fee) => fee.prioritizationFee).sort((a, b) => a - b);
+  } catch (error) {
+    console.error("Error fetching priority fees:", error);
+  }
+
+  const estimate = recent.length
+    ? recent[Math.min(recent.length - 1, Math.floor((recent.length * percentile) / 100))]
+    : 0;
+  return Math.min(Math.max(estimate, minMicroLamports), MAX_MICRO_LAMPORTS);
+}
+
+// Compute unit limit for a transaction that used unitsConsumed in simulation
+export function getComputeUnitLimit(unitsConsumed: number | null | undefined, instructionCount: number): number {
+  if (!unitsConsumed) {
+    return Math.min(DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION * instructionCount, MAX_COMPUTE_UNITS);
+  }
+  return Math.min(Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNITS);
+}
+
+// ComputeBudget instructions to prepend to a transaction
+export function buildComputeBudgetInstructions(
+  computeUnitLimit: number,
+  microLamports: number
+): TransactionInstruction[] {
+  const instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit })];
+  if (microLamports > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+  return instructions;
+}
+
+// Writable accounts of a set of instructions, for fee lookups
+export function getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const accounts = new Map<string, PublicKey>();
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) {
+        accounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+  }
+  return [...accounts.values()];
+}
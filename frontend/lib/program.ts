@@ -1,122 +1,52 @@
-import { AnchorProvider, Program, BN } from "@coral-xyz/anchor";
-import { Connection, PublicKey, SystemProgram, SYSVAR_RENT_PUBKEY } from "@solana/web3.js";
-import { 
-  TOKEN_PROGRAM_ID, 
-  ASSOCIATED_TOKEN_PROGRAM_ID,
-  getAssociatedTokenAddress 
-} from "@solana/spl-token";
+import { BN } from "@coral-xyz/anchor";
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  TokenStandard,
+  UseMethod,
+  getMetadataAccountDataSerializer,
+} from "@metaplex-foundation/mpl-token-metadata";
+import { unwrapOption } from "@metaplex-foundation/umi";
 import { Marketplace } from "./marketplace";
-import idl from "./marketplace.json";
 import { PROGRAM_ID, PLACEHOLDER_IMAGE } from "./constants";
+import { fetchWithFallback, parseStorageUri } from "./gateways";
+import { MetadataFile } from "./media";
+import { NFTAttribute, parseAttributes } from "./attributes";
 
 export type { Marketplace };
 
-// Get the program instance
-export function getProgram(provider: AnchorProvider): Program<Marketplace> {
-  return new Program(idl as Marketplace, provider);
-}
-
 // Derive marketplace PDA
-export function getMarketplacePDA(admin: PublicKey): [PublicKey, number] {
+export function getMarketplacePDA(
+  admin: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
   return PublicKey.findProgramAddressSync(
     [Buffer.from("marketplace"), admin.toBuffer()],
-    PROGRAM_ID
+    programId
   );
 }
 
 // Derive listing PDA
-export function getListingPDA(nftMint: PublicKey): [PublicKey, number] {
+export function getListingPDA(
+  nftMint: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
   return PublicKey.findProgramAddressSync(
     [Buffer.from("listing"), nftMint.toBuffer()],
-    PROGRAM_ID
+    programId
   );
 }
 
 // Derive escrow token account PDA
-export function getEscrowPDA(nftMint: PublicKey): [PublicKey, number] {
+export function getEscrowPDA(
+  nftMint: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
   return PublicKey.findProgramAddressSync(
     [Buffer.from("escrow"), nftMint.toBuffer()],
-    PROGRAM_ID
+    programId
   );
 }
 
-// Initialize marketplace (one-time setup)
-export async function initializeMarketplace(
-  program: Program<Marketplace>,
-  feePercentage: number = 200 // Default 2% fee (200 basis points)
-): Promise<string> {
-  const admin = program.provider.publicKey!;
-  const [marketplacePDA] = getMarketplacePDA(admin);
-  
-  const tx = await program.methods
-    .initializeMarketplace(feePercentage)
-    .accountsPartial({
-      marketplace: marketplacePDA,
-      admin,
-      systemProgram: SystemProgram.programId,
-    })
-    .rpc();
-  
-  return tx;
-}
-
-// Find marketplace for a given listing (by finding admin from listing data)
-export async function findMarketplaceForListing(
-  program: Program<Marketplace>,
-  nftMint: PublicKey
-): Promise<{ marketplacePDA: PublicKey; admin: PublicKey; feePercent: number } | null> {
-  try {
-    // Fetch all marketplace accounts
-    const marketplaces = await program.account.marketplace.all();
-    if (marketplaces.length > 0) {
-      const mp = marketplaces[0];
-      const admin = mp.account.admin as PublicKey;
-      const [marketplacePDA] = getMarketplacePDA(admin);
-      return {
-        marketplacePDA,
-        admin,
-        feePercent: mp.account.feePercentage as number,
-      };
-    }
-    return null;
-  } catch (error) {
-    console.error("Error finding marketplace:", error);
-    return null;
-  }
-}
-
-// Get marketplace by admin
-export async function getMarketplace(
-  program: Program<Marketplace>,
-  admin: PublicKey
-): Promise<{ admin: PublicKey; feePercent: number; totalListings: number } | null> {
-  try {
-    const [marketplacePDA] = getMarketplacePDA(admin);
-    const marketplace = await program.account.marketplace.fetch(marketplacePDA);
-    return {
-      admin: marketplace.admin as PublicKey,
-      feePercent: marketplace.feePercentage as number,
-      totalListings: (marketplace.totalListings as BN).toNumber(),
-    };
-  } catch (error) {
-    // Try to find any marketplace
-    try {
-      const marketplaces = await program.account.marketplace.all();
-      if (marketplaces.length > 0) {
-        const mp = marketplaces[0].account;
-        return {
-          admin: mp.admin as PublicKey,
-          feePercent: mp.feePercentage as number,
-          totalListings: (mp.totalListings as BN).toNumber(),
-        };
-      }
-    } catch (e) {
-      console.error("Error fetching marketplaces:", e);
-    }
-    return null;
-  }
-}
-
 // Listing account data type
 export interface ListingAccount {
   seller: PublicKey;
@@ -124,6 +54,10 @@ export interface ListingAccount {
   price: BN;
   bump: number;
   isActive: boolean;
+  // Unix timestamps of listing and of the last price change; 0 for listings
+  // created before they were recorded
+  createdAt: BN;
+  priceUpdatedAt: BN;
   feePercent?: number; // Added from marketplace for convenience
 }
 
@@ -135,20 +69,35 @@ export interface MarketplaceAccount {
   bump: number;
 }
 
-// NFT metadata type
+// NFT metadata type: the off-chain JSON merged with the decoded on-chain
+// metadata account
 export interface NFTMetadata {
   name: string;
   symbol: string;
   description: string;
   image: string;
-  attributes?: Array<{
-    trait_type: string;
-    value: string;
-  }>;
+  attributes?: NFTAttribute[];
+  // Collection as described in the JSON
   collection?: {
     name: string;
     family?: string;
   };
+  // Rich media from the JSON's animation_url and properties
+  animationUrl?: string;
+  files?: MetadataFile[];
+  category?: string;
+  uri?: string;
+  updateAuthority?: PublicKey;
+  sellerFeeBasisPoints?: number;
+  creators?: CreatorShare[];
+  primarySaleHappened?: boolean;
+  isMutable?: boolean;
+  tokenStandard?: TokenStandardName | null;
+  // Collection recorded on chain; only trust it when verified
+  onChainCollection?: MetadataCollection | null;
+  // Set when this NFT is itself a collection
+  collectionDetails?: MetadataCollectionDetails | null;
+  uses?: MetadataUses | null;
 }
 
 // Extended listing with metadata
@@ -158,201 +107,80 @@ export interface ListingWithMetadata {
   metadata?: NFTMetadata;
 }
 
-// Fetch all active listings
-export async function fetchAllListings(
-  program: Program<Marketplace>
-): Promise<ListingWithMetadata[]> {
-  try {
-    const listings = await program.account.listing.all();
-    
-    // Get fee percent from marketplace
-    let feePercent = 2; // Default fee
-    try {
-      const marketplaces = await program.account.marketplace.all();
-      if (marketplaces.length > 0) {
-        feePercent = marketplaces[0].account.feePercentage as number;
-      }
-    } catch {
-      // Use default fee
-    }
-    
-    return listings
-      .filter((l) => l.account.isActive)
-      .map((l) => ({
-        publicKey: l.publicKey,
-        account: {
-          ...(l.account as unknown as ListingAccount),
-          feePercent,
-        },
-      }));
-  } catch (error) {
-    console.error("Error fetching listings:", error);
-    return [];
-  }
+export type TokenStandardName = keyof typeof TokenStandard;
+
+export interface MetadataCollection {
+  address: PublicKey;
+  verified: boolean;
 }
 
-// Fetch single listing
-export async function fetchListing(
-  program: Program<Marketplace>,
-  nftMint: PublicKey
-): Promise<ListingWithMetadata | null> {
-  try {
-    const [listingPDA] = getListingPDA(nftMint);
-    const listing = await program.account.listing.fetch(listingPDA);
-    
-    // Get fee percent from marketplace
-    let feePercent = 2; // Default fee
-    try {
-      const marketplaces = await program.account.marketplace.all();
-      if (marketplaces.length > 0) {
-        feePercent = marketplaces[0].account.feePercentage as number;
-      }
-    } catch {
-      // Use default fee
-    }
-    
-    return {
-      publicKey: listingPDA,
-      account: {
-        ...(listing as unknown as ListingAccount),
-        feePercent,
-      },
-    };
-  } catch (error) {
-    console.error("Error fetching listing:", error);
-    return null;
-  }
+// Present on collection NFTs; size counts the verified items of sized
+// collections and is null for unsized ones
+export interface MetadataCollectionDetails {
+  size: number | null;
 }
 
-// List NFT for sale (auto-initializes marketplace if needed)
-export async function listNft(
-  program: Program<Marketplace>,
-  nftMint: PublicKey,
-  priceInLamports: number
-): Promise<string> {
-  const seller = program.provider.publicKey!;
-  
-  // Find or initialize the marketplace
-  let mpInfo = await findMarketplaceForListing(program, nftMint);
-  if (!mpInfo) {
-    if (process.env.NODE_ENV === "development") {
-      console.log("No marketplace found, initializing...");
-    }
-    try {
-      await initializeMarketplace(program);
-      // Fetch the newly created marketplace
-      mpInfo = await findMarketplaceForListing(program, nftMint);
-      if (!mpInfo) {
-        throw new Error("Failed to initialize marketplace");
-      }
-    } catch (error) {
-      if (process.env.NODE_ENV === "development") {
-        console.error("Error initializing marketplace:", error);
-      }
-      throw new Error("Failed to initialize marketplace. Please try again.");
-    }
-  }
-  
-  // Get seller's token account
-  const sellerTokenAccount = await getAssociatedTokenAddress(nftMint, seller);
-  
-  const tx = await program.methods
-    .listNft(new BN(priceInLamports))
-    .accountsPartial({
-      marketplace: mpInfo.marketplacePDA,
-      seller,
-      sellerTokenAccount,
-      nftMint,
-    })
-    .rpc();
-  
-  return tx;
+export interface MetadataUses {
+  useMethod: keyof typeof UseMethod;
+  remaining: number;
+  total: number;
 }
 
-// Buy NFT (simplified - auto-derives PDAs)
-export async function buyNft(
-  program: Program<Marketplace>,
-  nftMint: PublicKey
-): Promise<string> {
-  const buyer = program.provider.publicKey!;
-  
-  // Get listing info
-  const listing = await fetchListing(program, nftMint);
-  if (!listing) {
-    throw new Error("Listing not found");
-  }
-  
-  // Find marketplace
-  const mpInfo = await findMarketplaceForListing(program, nftMint);
-  if (!mpInfo) {
-    throw new Error("Marketplace not found");
-  }
-  
-  const tx = await program.methods
-    .buyNft()
-    .accountsPartial({
-      marketplace: mpInfo.marketplacePDA,
-      buyer,
-      seller: listing.account.seller,
-      admin: mpInfo.admin,
-      nftMint,
-    })
-    .rpc();
-  
-  return tx;
+// Decoded Token Metadata account
+export interface OnChainMetadata {
+  mint: PublicKey;
+  updateAuthority: PublicKey;
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: CreatorShare[];
+  primarySaleHappened: boolean;
+  isMutable: boolean;
+  tokenStandard: TokenStandardName | null;
+  collection: MetadataCollection | null;
+  collectionDetails: MetadataCollectionDetails | null;
+  uses: MetadataUses | null;
 }
 
-// Cancel listing (simplified - auto-derives PDAs)
-export async function cancelListing(
-  program: Program<Marketplace>,
-  nftMint: PublicKey
-): Promise<string> {
-  const seller = program.provider.publicKey!;
-  
-  // Find marketplace
-  const mpInfo = await findMarketplaceForListing(program, nftMint);
-  if (!mpInfo) {
-    throw new Error("Marketplace not found");
-  }
-  
-  // Get seller's token account
-  const sellerTokenAccount = await getAssociatedTokenAddress(nftMint, seller);
-  
-  const tx = await program.methods
-    .cancelListing()
-    .accountsPartial({
-      marketplace: mpInfo.marketplacePDA,
-      seller,
-      sellerTokenAccount,
-      nftMint,
-    })
-    .rpc();
-  
-  return tx;
+// Creator entry from the Metaplex metadata account
+export interface CreatorShare {
+  address: PublicKey;
+  share: number;
+  verified: boolean;
 }
 
-// Update listing price
-export async function updateListingPrice(
-  program: Program<Marketplace>,
-  nftMint: PublicKey,
-  newPriceInLamports: number
-): Promise<string> {
-  const tx = await program.methods
-    .updateListingPrice(new BN(newPriceInLamports))
-    .accountsPartial({
-      seller: program.provider.publicKey,
-      nftMint,
-    })
-    .rpc();
-  
-  return tx;
+// Royalty settings of a mint, as enforced by buy_nft
+export interface RoyaltyInfo {
+  sellerFeeBasisPoints: number;
+  creators: CreatorShare[];
+}
+
+// How a sale price is split between marketplace, creators and seller
+export interface SaleBreakdown {
+  price: BN;
+  marketplaceFee: BN;
+  royalties: BN;
+  sellerProceeds: BN;
+  creatorPayouts: Array<{ address: PublicKey; amount: BN }>;
+}
+
+// A completed buy_nft purchase, read from transaction history
+export interface Sale {
+  signature: string;
+  nftMint: PublicKey;
+  seller: PublicKey;
+  buyer: PublicKey;
+  price: BN;
+  // Unix seconds, when the RPC knows it
+  blockTime: number | null;
 }
 
 // Metaplex metadata constants
-const METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+export const METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
 
 // Derive Metaplex metadata PDA
-function getMetadataPDA(mint: PublicKey): PublicKey {
+export function getMetadataPDA(mint: PublicKey): PublicKey {
   const [pda] = PublicKey.findProgramAddressSync(
     [
       Buffer.from("metadata"),
@@ -364,132 +192,291 @@ function getMetadataPDA(mint: PublicKey): PublicKey {
   return pda;
 }
 
+// Borsh-decode a Token Metadata account. Names, symbols and URIs written by
+// older programs are padded with null bytes, which are stripped here.
+export function decodeMetadataAccount(data: Uint8Array): OnChainMetadata {
+  const [metadata] = getMetadataAccountDataSerializer().deserialize(data);
+  const collection = unwrapOption(metadata.collection);
+  const collectionDetails = unwrapOption(metadata.collectionDetails);
+  const uses = unwrapOption(metadata.uses);
+  const tokenStandard = unwrapOption(metadata.tokenStandard);
+
+  return {
+    mint: new PublicKey(metadata.mint),
+    updateAuthority: new PublicKey(metadata.updateAuthority),
+    name: stripPadding(metadata.name),
+    symbol: stripPadding(metadata.symbol),
+    uri: stripPadding(metadata.uri),
+    sellerFeeBasisPoints: metadata.sellerFeeBasisPoints,
+    creators: (unwrapOption(metadata.creators) ?? []).map((creator) => ({
+      address: new PublicKey(creator.address),
+      share: creator.share,
+      verified: creator.verified,
+    })),
+    primarySaleHappened: metadata.primarySaleHappened,
+    isMutable: metadata.isMutable,
+    tokenStandard: tokenStandard === null ? null : (TokenStandard[tokenStandard] as TokenStandardName),
+    collection: collection
+      ? { address: new PublicKey(collection.key), verified: collection.verified }
+      : null,
+    collectionDetails: collectionDetails
+      ? { size: collectionDetails.__kind === "V1" ? Number(collectionDetails.size) : null }
+      : null,
+    uses: uses
+      ? {
+          useMethod: UseMethod[uses.useMethod] as keyof typeof UseMethod,
+          remaining: Number(uses.remaining),
+          total: Number(uses.total),
+        }
+      : null,
+  };
+}
+
+// Fetch and decode the metadata account of a mint. Returns null for mints
+// without metadata.
+export async function fetchOnChainMetadata(
+  connection: Connection,
+  mint: PublicKey
+): Promise<OnChainMetadata | null> {
+  const metadataAccount = await connection.getAccountInfo(getMetadataPDA(mint));
+  if (!metadataAccount || !metadataAccount.owner.equals(METADATA_PROGRAM_ID)) {
+    return null;
+  }
+  return decodeMetadataAccount(metadataAccount.data);
+}
+
+// getTokenLargestAccounts calls in flight at once; there is no batch form
+const TOKEN_HOLDER_CONCURRENCY = 10;
+
+// Current holder of each NFT: the owner of the token account holding its
+// single token. Listed NFTs are held by the marketplace escrow, so callers
+// should prefer the listing's seller for those.
+export async function fetchTokenOwners(
+  connection: Connection,
+  mints: PublicKey[]
+): Promise<Map<string, PublicKey>> {
+  const holders: (PublicKey | null)[] = [];
+  for (let i = 0; i < mints.length; i += TOKEN_HOLDER_CONCURRENCY) {
+    const batch = await Promise.all(
+      mints.slice(i, i + TOKEN_HOLDER_CONCURRENCY).map(async (mint) => {
+        try {
+          const { value } = await connection.getTokenLargestAccounts(mint);
+          const holder = value.find((account) => account.uiAmount && account.uiAmount > 0);
+          return holder?.address ?? null;
+        } catch {
+          return null;
+        }
+      })
+    );
+    holders.push(...batch);
+  }
+
+  const owners = new Map<string, PublicKey>();
+  const found = mints.flatMap((mint, i) => {
+    const holder = holders[i];
+    return holder ? [{ mint, holder }] : [];
+  });
+  // Token account owner sits at byte 32
+  for (let i = 0; i < found.length; i += 100) {
+    const batch = found.slice(i, i + 100);
+    const infos = await connection.getMultipleAccountsInfo(
+      batch.map((entry) => entry.holder),
+      { dataSlice: { offset: 32, length: 32 } }
+    );
+    infos.forEach((info, j) => {
+      if (info && info.data.length === 32) {
+        owners.set(batch[j].mint.toBase58(), new PublicKey(info.data));
+      }
+    });
+  }
+  return owners;
+}
+
+// Royalty settings recorded in decoded metadata
+export function royaltyInfoFromMetadata(
+  metadata: Pick<NFTMetadata, "sellerFeeBasisPoints" | "creators"> | undefined
+): RoyaltyInfo | null {
+  if (metadata?.sellerFeeBasisPoints === undefined) {
+    return null;
+  }
+  return {
+    sellerFeeBasisPoints: metadata.sellerFeeBasisPoints,
+    creators: metadata.creators ?? [],
+  };
+}
+
+// Fetch seller fee and creators from the Metaplex metadata account.
+// Returns null for mints without metadata, which pay no royalties.
+export async function fetchRoyaltyInfo(
+  connection: Connection,
+  mint: PublicKey
+): Promise<RoyaltyInfo | null> {
+  const metadata = await fetchOnChainMetadata(connection, mint);
+  return metadata ? royaltyInfoFromMetadata(metadata) : null;
+}
+
+// Split a sale price the same way buy_nft does: the marketplace fee, then
+// each verified creator's share of the royalty (rounded down), and the rest
+// to the seller. Shares of unverified creators stay with the seller.
+export function computeSaleBreakdown(
+  price: BN,
+  feeBps: number,
+  royalty: RoyaltyInfo | null
+): SaleBreakdown {
+  const marketplaceFee = price.muln(feeBps).divn(10000);
+  // buy_nft caps royalties at what is left after the fee
+  const royaltyAmount = royalty
+    ? BN.min(price.muln(royalty.sellerFeeBasisPoints).divn(10000), price.sub(marketplaceFee))
+    : new BN(0);
+
+  const creatorPayouts = (royalty?.creators ?? [])
+    .filter((creator) => creator.verified && creator.share > 0)
+    .map((creator) => ({
+      address: creator.address,
+      amount: royaltyAmount.muln(creator.share).divn(100),
+    }))
+    .filter((payout) => !payout.amount.isZero());
+  const royalties = creatorPayouts.reduce((sum, payout) => sum.add(payout.amount), new BN(0));
+
+  return {
+    price,
+    marketplaceFee,
+    royalties,
+    sellerProceeds: price.sub(marketplaceFee).sub(royalties),
+    creatorPayouts,
+  };
+}
+
 // Fetch NFT metadata from on-chain using Metaplex standard
 export async function fetchNFTMetadataFromChain(
   connection: Connection,
   mint: PublicKey
 ): Promise<NFTMetadata | undefined> {
   try {
-    // Get metadata account PDA
-    const metadataPDA = getMetadataPDA(mint);
-    
-    // Fetch the metadata account
-    const metadataAccount = await connection.getAccountInfo(metadataPDA);
-    
-    if (!metadataAccount) {
-      return undefined;
+    const onChain = await fetchOnChainMetadata(connection, mint);
+    return onChain ? resolveNFTMetadata(onChain) : undefined;
+  } catch (error) {
+    console.error('Error fetching metadata from chain:', error);
+    return undefined;
+  }
+}
+
+// Load the off-chain JSON for decoded metadata and merge the two
+export async function resolveNFTMetadata(onChain: OnChainMetadata): Promise<NFTMetadata> {
+  const { name, symbol, uri } = onChain;
+  const onChainFields = getOnChainFields(onChain);
+
+  // If URI is a data URI, parse it directly
+  if (uri.startsWith('data:application/json')) {
+    try {
+      const base64Data = uri.split(',')[1];
+      const jsonString = atob(base64Data);
+      const metadata = JSON.parse(jsonString);
+
+      return { ...fromMetadataJson(metadata, name, symbol), ...onChainFields };
+    } catch (err) {
+      console.error('Error parsing data URI:', err);
     }
+  } else if (parseStorageUri(uri)) {
+    // Fetch external metadata JSON, falling back across IPFS/Arweave gateways
+    try {
+      const response = await fetchWithFallback(uri);
+
+      // Try to parse as JSON first (Irys returns application/octet-stream for JSON)
+      const text = await response.text();
 
-    // Parse the metadata account data
-    // Metaplex metadata layout: key(1) + update_authority(32) + mint(32) + name(36) + symbol(14) + uri(204) + ...
-    const data = metadataAccount.data;
-    
-    // Skip key (1 byte)
-    let offset = 1;
-    
-    // Skip update authority (32 bytes)
-    offset += 32;
-    
-    // Skip mint (32 bytes)
-    offset += 32;
-    
-    // Read name (4 bytes length + string)
-    const nameLength = data.readUInt32LE(offset);
-    offset += 4;
-    const nameBytes = data.slice(offset, offset + nameLength);
-    const name = nameBytes.toString('utf8').replace(/\0/g, '').trim();
-    offset += 32; // Name field is padded to 32 bytes
-    
-    // Read symbol (4 bytes length + string)
-    const symbolLength = data.readUInt32LE(offset);
-    offset += 4;
-    const symbolBytes = data.slice(offset, offset + symbolLength);
-    const symbol = symbolBytes.toString('utf8').replace(/\0/g, '').trim();
-    offset += 10; // Symbol field is padded to 10 bytes
-    
-    // Read URI (4 bytes length + string)
-    const uriLength = data.readUInt32LE(offset);
-    offset += 4;
-    const uriBytes = data.slice(offset, offset + uriLength);
-    const uri = uriBytes.toString('utf8').replace(/\0/g, '').trim();
-    
-    // If URI is a data URI, parse it directly
-    if (uri.startsWith('data:application/json')) {
-      try {
-        const base64Data = uri.split(',')[1];
-        const jsonString = atob(base64Data);
-        const metadata = JSON.parse(jsonString);
-        
-        return {
-          name: metadata.name || name,
-          symbol: metadata.symbol || symbol,
-          description: metadata.description || '',
-          image: metadata.image || PLACEHOLDER_IMAGE,
-          attributes: metadata.attributes || [],
-          collection: metadata.collection,
-        };
-      } catch (err) {
-        console.error('Error parsing data URI:', err);
-      }
-    } else if (uri.startsWith('http')) {
-      // Try to fetch external metadata JSON
       try {
-        const response = await fetch(uri);
-        
-        if (!response.ok) {
-          console.error(`Failed to fetch metadata: ${response.status} ${response.statusText}`);
-          throw new Error(`HTTP ${response.status}`);
-        }
-        
-        const contentType = response.headers.get('content-type');
-        
-        // Try to parse as JSON first (Irys returns application/octet-stream for JSON)
-        const text = await response.text();
-        
-        try {
-          const metadata = JSON.parse(text);
-          
-          // If it parses as JSON, it's metadata
-          if (metadata && typeof metadata === 'object') {
-            return {
-              name: metadata.name || name,
-              symbol: metadata.symbol || symbol,
-              description: metadata.description || '',
-              image: metadata.image || PLACEHOLDER_IMAGE,
-              attributes: metadata.attributes || [],
-              collection: metadata.collection,
-            };
-          }
-        } catch (jsonErr) {
-          // Not JSON, treat as direct image URL
-          return {
-            name,
-            symbol,
-            description: '',
-            image: uri,
-          };
+        const metadata = JSON.parse(text);
+
+        // If it parses as JSON, it's metadata
+        if (metadata && typeof metadata === 'object') {
+          return { ...fromMetadataJson(metadata, name, symbol), ...onChainFields };
         }
-      } catch (err) {
-        console.error('Error fetching external metadata:', err);
-        // Fallback: assume URI is a direct image link
+      } catch {
+        // Not JSON, treat as direct image URL
         return {
           name,
           symbol,
           description: '',
           image: uri,
+          ...onChainFields,
         };
       }
+    } catch (err) {
+      console.error('Error fetching external metadata:', err);
+      // Fallback: assume URI is a direct image link
+      return {
+        name,
+        symbol,
+        description: '',
+        image: uri,
+        ...onChainFields,
+      };
     }
-    
-    // Fallback: return basic metadata from on-chain data
-    return {
-      name,
-      symbol,
-      description: '',
-      image: PLACEHOLDER_IMAGE,
-    };
-  } catch (error) {
-    console.error('Error fetching metadata from chain:', error);
-    return undefined;
   }
+
+  // Fallback: return basic metadata from on-chain data
+  return {
+    name,
+    symbol,
+    description: '',
+    image: PLACEHOLDER_IMAGE,
+    ...onChainFields,
+  };
+}
+
+// Metaplex metadata JSON, as far as the marketplace reads it
+interface MetadataJson {
+  name?: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+  animation_url?: string;
+  attributes?: unknown;
+  collection?: NFTMetadata['collection'];
+  properties?: {
+    files?: unknown[];
+    category?: string;
+  };
+}
+
+// The NFTMetadata fields that come from the off-chain JSON
+function fromMetadataJson(json: MetadataJson, name: string, symbol: string) {
+  const files = (json.properties?.files ?? []).filter(
+    (file): file is MetadataFile =>
+      typeof (file as MetadataFile)?.uri === 'string' &&
+      typeof (file as MetadataFile)?.type === 'string'
+  );
+
+  return {
+    name: json.name || name,
+    symbol: json.symbol || symbol,
+    description: json.description || '',
+    image: json.image || PLACEHOLDER_IMAGE,
+    animationUrl: json.animation_url || undefined,
+    files,
+    category: json.properties?.category,
+    attributes: parseAttributes(json.attributes),
+    collection: json.collection,
+  } satisfies Partial<NFTMetadata>;
+}
+
+// The NFTMetadata fields that come from the metadata account rather than the JSON
+export function getOnChainFields(onChain: OnChainMetadata) {
+  return {
+    uri: onChain.uri,
+    updateAuthority: onChain.updateAuthority,
+    sellerFeeBasisPoints: onChain.sellerFeeBasisPoints,
+    creators: onChain.creators,
+    primarySaleHappened: onChain.primarySaleHappened,
+    isMutable: onChain.isMutable,
+    tokenStandard: onChain.tokenStandard,
+    onChainCollection: onChain.collection,
+    collectionDetails: onChain.collectionDetails,
+    uses: onChain.uses,
+  } satisfies Partial<NFTMetadata>;
+}
+
+function stripPadding(value: string): string {
+  return value.replace(/\0/g, '').trim();
 }
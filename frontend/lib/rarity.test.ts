@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { computeRarity, rankBy } from "./rarity";
+
+describe("rankBy", () => {
+  it("gives ties the same rank and skips the ranks they take", () => {
+    expect(rankBy([5, 9, 7, 9, 1], (a, b) => b - a)).toEqual([4, 1, 3, 1, 5]);
+  });
+
+  it("handles no entries", () => {
+    expect(rankBy([], (a: number, b: number) => a - b)).toEqual([]);
+  });
+});
+
+describe("computeRarity", () => {
+  const items = [
+    {
+      mint: "a",
+      attributes: [
+        { trait_type: "Color", value: "Red" },
+        { trait_type: "Hat", value: "Cap" },
+      ],
+    },
+    { mint: "b", attributes: [{ trait_type: "Color", value: "Red" }] },
+    { mint: "c", attributes: [{ trait_type: "Color", value: "Blue" }] },
+    // Missing traits count as "None"
+    { mint: "d" },
+  ];
+
+  it("ranks by rarity score and by statistical rarity", () => {
+    const rarity = computeRarity(items, true);
+
+    expect(rarity.get("a")).toEqual({
+      rank: 1,
+      // 1 / 0.5 for Red plus 1 / 0.25 for Cap
+      score: 6,
+      statisticalRank: 1,
+      probability: 0.125,
+      total: 4,
+      complete: true,
+      traitShares: { Color: 0.5, Hat: 0.25 },
+    });
+    // c and d both have a one-off color and no hat
+    expect(["a", "b", "c", "d"].map((mint) => rarity.get(mint)!.rank)).toEqual([1, 4, 2, 2]);
+    expect(["a", "b", "c", "d"].map((mint) => rarity.get(mint)!.statisticalRank)).toEqual([
+      1, 4, 2, 2,
+    ]);
+    expect(rarity.get("d")!.traitShares).toEqual({ Color: 0.25, Hat: 0.75 });
+  });
+
+  it("uses the first value of a repeated trait", () => {
+    const rarity = computeRarity(
+      [
+        {
+          mint: "a",
+          attributes: [
+            { trait_type: "Color", value: "Red" },
+            { trait_type: "Color", value: "Blue" },
+          ],
+        },
+        { mint: "b", attributes: [{ trait_type: "Color", value: "Red" }] },
+      ],
+      false
+    );
+    // Both read as Red; taking Blue would score each 2
+    expect(rarity.get("a")).toMatchObject({ rank: 1, score: 1, complete: false });
+    expect(rarity.get("b")).toMatchObject({ rank: 1, score: 1 });
+  });
+
+  it("gives no ranks without two items or any traits", () => {
+    expect(computeRarity(items.slice(0, 1), true).size).toBe(0);
+    expect(computeRarity([{ mint: "a" }, { mint: "b", attributes: [] }], true).size).toBe(0);
+  });
+});
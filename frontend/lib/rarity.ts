@@ -0,0 +1,103 @@
+// Rarity of NFTs within a collection, from their decoded attributes. Every
+// item is given a value for each trait type the collection uses, "None" when
+// it lacks the trait, so a missing trait counts towards rarity too.
+//
+// - Rarity score (trait frequency): the sum over traits of 1 / the share of
+//   items with the same value. Higher is rarer; ranks follow it.
+// - Statistical rarity: the product of those shares, the chance of the
+//   combination coming up at random. Lower is rarer.
+
+import { NFTAttribute, traitFilterValue } from "./attributes";
+
+// Value given to items without a trait
+export const MISSING_TRAIT_VALUE = "None";
+
+export interface RarityScore {
+  // 1 is the rarest; equal scores share a rank
+  rank: number;
+  score: number;
+  statisticalRank: number;
+  probability: number;
+  // Items ranked against each other
+  total: number;
+  // Whether they are the whole collection, so the rank is final
+  complete: boolean;
+  // Share of items with the same value, by trait type
+  traitShares: Record<string, number>;
+}
+
+// Score and rank items of one collection, keyed by mint. Fewer than two items
+// or no traits at all give no ranks.
+export function computeRarity(
+  items: Array<{ mint: string; attributes?: NFTAttribute[] }>,
+  complete: boolean
+): Map<string, RarityScore> {
+  const result = new Map<string, RarityScore>();
+  // One value per trait type for each item; the first wins if repeated
+  const values = items.map((item) => {
+    const byTrait = new Map<string, string>();
+    for (const attribute of item.attributes ?? []) {
+      if (!byTrait.has(attribute.trait_type)) {
+        byTrait.set(attribute.trait_type, traitFilterValue(attribute));
+      }
+    }
+    return byTrait;
+  });
+  const traitTypes = [...new Set(values.flatMap((byTrait) => [...byTrait.keys()]))];
+  if (items.length < 2 || traitTypes.length === 0) {
+    return result;
+  }
+
+  const counts = new Map<string, Map<string, number>>();
+  for (const traitType of traitTypes) {
+    const valueCounts = new Map<string, number>();
+    for (const byTrait of values) {
+      const value = byTrait.get(traitType) ?? MISSING_TRAIT_VALUE;
+      valueCounts.set(value, (valueCounts.get(value) ?? 0) + 1);
+    }
+    counts.set(traitType, valueCounts);
+  }
+
+  const scored = items.map((item, i) => {
+    const traitShares: Record<string, number> = {};
+    let score = 0;
+    let probability = 1;
+    for (const traitType of traitTypes) {
+      const value = values[i].get(traitType) ?? MISSING_TRAIT_VALUE;
+      const share = (counts.get(traitType)?.get(value) ?? 0) / items.length;
+      traitShares[traitType] = share;
+      score += 1 / share;
+      probability *= share;
+    }
+    return { mint: item.mint, score, probability, traitShares };
+  });
+
+  const ranks = rankBy(scored, (a, b) => b.score - a.score);
+  const statisticalRanks = rankBy(scored, (a, b) => a.probability - b.probability);
+  scored.forEach((entry, i) => {
+    result.set(entry.mint, {
+      rank: ranks[i],
+      score: entry.score,
+      statisticalRank: statisticalRanks[i],
+      probability: entry.probability,
+      total: items.length,
+      complete,
+      traitShares: entry.traitShares,
+    });
+  });
+  return result;
+}
+
+// Rank of each entry in order, giving ties the same rank ("1, 2, 2, 4")
+export function rankBy<T>(entries: T[], compare: (a: T, b: T) => number): number[] {
+  const order = entries.map((_, i) => i).sort((a, b) => compare(entries[a], entries[b]));
+  const ranks = new Array<number>(entries.length);
+  order.forEach((index, position) => {
+    const previous = order[position - 1];
+    ranks[index] =
+      position > 0 && compare(entries[previous], entries[index]) === 0
+        ? ranks[previous]
+        : position + 1;
+  });
+  return ranks;
+}
@@ -0,0 +1,258 @@
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  SendTransactionError,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { utils } from "@coral-xyz/anchor";
+
+// Lifecycle of a transaction from the wallet prompt to finalization
+export type TransactionStage =
+  | "awaiting-signature"
+  | "sent"
+  | "processed"
+  | "confirmed"
+  | "finalized";
+
+export const TRANSACTION_STAGES: { stage: TransactionStage; label: string }[] = [
+  { stage: "awaiting-signature", label: "Awaiting signature" },
+  { stage: "sent", label: "Sent" },
+  { stage: "processed", label: "Processed" },
+  { stage: "confirmed", label: "Confirmed" },
+  { stage: "finalized", label: "Finalized" },
+];
+
+export interface SendOptions {
+  // Skip the RPC's preflight simulation on the first send. Rebroadcasts
+  // always skip it.
+  skipPreflight?: boolean;
+  // Stage to wait for before resolving; later stages are still reported
+  commitment?: "confirmed" | "finalized";
+  // How many times to re-sign with a fresh blockhash after expiry
+  maxResigns?: number;
+  onStage?: (stage: TransactionStage, signature?: string) => void;
+}
+
+// A serialized, signed transaction and the block height after which its
+// blockhash is no longer valid
+export interface SignedTransaction {
+  serialized: Uint8Array;
+  signature: string;
+  lastValidBlockHeight: number;
+}
+
+// Produces a freshly signed transaction; called again after expiry
+export type SignTransactionFn = () => Promise<SignedTransaction>;
+
+interface LegacySigner {
+  publicKey: PublicKey;
+  signTransaction<T extends Transaction>(tx: T): Promise<T>;
+}
+
+const REBROADCAST_INTERVAL_MS = 2000;
+// How long to keep reporting progress towards finalized after resolving
+const FINALIZATION_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RESIGNS = 2;
+
+const STAGE_ORDER: TransactionStage[] = TRANSACTION_STAGES.map((s) => s.stage);
+
+// A transaction that landed on chain but failed; it will not land again
+export class TransactionFailedError extends Error {
+  constructor(
+    readonly signature: string,
+    err: unknown,
+    readonly logs: string[]
+  ) {
+    super(`Transaction ${signature} failed: ${JSON.stringify(err)}`);
+    this.name = "TransactionFailedError";
+  }
+}
+
+// Sign web3.js instructions as a legacy transaction with a fresh blockhash
+export function signInstructions(
+  connection: Connection,
+  signer: LegacySigner,
+  instructions: TransactionInstruction[],
+  commitment: Commitment = "confirmed"
+): SignTransactionFn {
+  return async () => {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+    const transaction = new Transaction({
+      feePayer: signer.publicKey,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(...instructions);
+
+    const signed = await signer.signTransaction(transaction);
+    return {
+      serialized: signed.serialize(),
+      signature: utils.bytes.bs58.encode(signed.signature!),
+      lastValidBlockHeight,
+    };
+  };
+}
+
+// Send a transaction and rebroadcast it until it lands or its blockhash
+// expires. Expired transactions are re-signed and retried up to maxResigns
+// times. Resolves with the signature once the requested commitment is reached.
+export async function sendWithRetry(
+  connection: Connection,
+  sign: SignTransactionFn,
+  options: SendOptions = {}
+): Promise<string> {
+  const commitment = options.commitment ?? "confirmed";
+  const maxResigns = options.maxResigns ?? DEFAULT_MAX_RESIGNS;
+  const report = stageReporter(options.onStage);
+
+  for (let attempt = 0; ; attempt++) {
+    report("awaiting-signature");
+    const signed = await sign();
+
+    let signature: string;
+    try {
+      signature = await connection.sendRawTransaction(signed.serialized, {
+        skipPreflight: options.skipPreflight ?? false,
+        preflightCommitment: commitment,
+        maxRetries: 0,
+      });
+    } catch (error) {
+      throw await withLogs(connection, error);
+    }
+    report("sent", signature);
+
+    const landed = await waitForCommitment(connection, signed, commitment, report);
+    if (landed) {
+      if (commitment !== "finalized") {
+        // Keep the UI informed without holding up the caller
+        void waitForFinalized(connection, signed.signature, report);
+      }
+      return signature;
+    }
+
+    if (attempt >= maxResigns) {
+      throw new TransactionExpiredBlockheightExceededError(signature);
+    }
+  }
+}
+
+// Poll the signature status, rebroadcasting between polls. Returns false
+// once the blockhash has expired without the transaction landing.
+async function waitForCommitment(
+  connection: Connection,
+  signed: SignedTransaction,
+  commitment: "confirmed" | "finalized",
+  report: (stage: TransactionStage, signature?: string) => void
+): Promise<boolean> {
+  for (;;) {
+    await sleep(REBROADCAST_INTERVAL_MS);
+
+    const { value } = await connection.getSignatureStatuses([signed.signature]);
+    const status = value[0];
+    if (status?.err) {
+      throw await failedTransactionError(connection, signed.signature, status.err);
+    }
+    if (status?.confirmationStatus) {
+      report(status.confirmationStatus, signed.signature);
+      if (reached(status.confirmationStatus, commitment)) {
+        return true;
+      }
+      // Landed in a block; no need to rebroadcast while it gains confirmations
+      continue;
+    }
+
+    const blockHeight = await connection.getBlockHeight("confirmed");
+    if (blockHeight > signed.lastValidBlockHeight) {
+      // One last look in case it landed just before the blockhash expired
+      const { value: latest } = await connection.getSignatureStatuses([signed.signature]);
+      if (!latest[0]) {
+        return false;
+      }
+      continue;
+    }
+
+    try {
+      await connection.sendRawTransaction(signed.serialized, {
+        skipPreflight: true,
+        maxRetries: 0,
+      });
+    } catch {
+      // The next status poll decides whether the transaction landed
+    }
+  }
+}
+
+async function waitForFinalized(
+  connection: Connection,
+  signature: string,
+  report: (stage: TransactionStage, signature?: string) => void
+): Promise<void> {
+  const deadline = Date.now() + FINALIZATION_TIMEOUT_MS;
+  try {
+    while (Date.now() < deadline) {
+      await sleep(REBROADCAST_INTERVAL_MS);
+      const { value } = await connection.getSignatureStatuses([signature]);
+      if (value[0]?.confirmationStatus === "finalized") {
+        report("finalized", signature);
+        return;
+      }
+    }
+  } catch (error) {
+    console.error("Error waiting for finalization:", error);
+  }
+}
+
+// Report each stage once and never go backwards
+function stageReporter(onStage?: SendOptions["onStage"]) {
+  let current = -1;
+  return (stage: TransactionStage, signature?: string) => {
+    const index = STAGE_ORDER.indexOf(stage);
+    if (stage === "awaiting-signature" || index > current) {
+      current = index;
+      onStage?.(stage, signature);
+    }
+  };
+}
+
+function reached(status: TransactionStage, target: "confirmed" | "finalized"): boolean {
+  return STAGE_ORDER.indexOf(status) >= STAGE_ORDER.indexOf(target);
+}
+
+// Errors from a failed preflight carry the simulation logs; keep them on
+// the error so callers can decode program errors
+async function withLogs(connection: Connection, error: unknown): Promise<unknown> {
+  if (error instanceof SendTransactionError && !error.logs) {
+    try {
+      const logs = await error.getLogs(connection);
+      return Object.assign(new Error(error.message), { logs });
+    } catch {
+      return error;
+    }
+  }
+  return error;
+}
+
+// A transaction that landed but failed; attach its logs from the ledger
+async function failedTransactionError(
+  connection: Connection,
+  signature: string,
+  err: unknown
+): Promise<TransactionFailedError> {
+  let logs: string[] = [];
+  try {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    logs = transaction?.meta?.logMessages ?? [];
+  } catch {
+    // Logs are best effort
+  }
+  return new TransactionFailedError(signature, err, logs);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
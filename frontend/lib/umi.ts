@@ -0,0 +1,27 @@
+import { WalletContextState } from "@solana/wallet-adapter-react";
+import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
+import { walletAdapterIdentity } from "@metaplex-foundation/umi-signer-wallet-adapters";
+import { mplTokenMetadata } from "@metaplex-foundation/mpl-token-metadata";
+import { TransactionBuilder, Umi } from "@metaplex-foundation/umi";
+import { base58 } from "@metaplex-foundation/umi/serializers";
+import { RPC_ENDPOINT } from "./constants";
+import { SignTransactionFn } from "./transactionManager";
+
+// Umi instance for Token Metadata instructions, signing with the connected wallet
+export function createWalletUmi(wallet: WalletContextState): Umi {
+  return createUmi(RPC_ENDPOINT).use(mplTokenMetadata()).use(walletAdapterIdentity(wallet));
+}
+
+// Adapts a umi transaction builder to the transaction manager, which calls
+// this again to re-sign with a fresh blockhash when one expires
+export function signUmiBuilder(umi: Umi, builder: TransactionBuilder): SignTransactionFn {
+  return async () => {
+    const latest = await umi.rpc.getLatestBlockhash();
+    const signed = await builder.setBlockhash(latest).buildAndSign(umi);
+    return {
+      serialized: umi.transactions.serialize(signed),
+      signature: base58.deserialize(signed.signatures[0])[0],
+      lastValidBlockHeight: latest.lastValidBlockHeight,
+    };
+  };
+}
@@ -0,0 +1,152 @@
+import {
+  GenericFile,
+  SolAmount,
+  UmiPlugin,
+  UploaderInterface,
+  createGenericFile,
+  createGenericFileFromBrowserFile,
+  isGreaterThanAmount,
+  lamports,
+  subtractAmounts,
+} from "@metaplex-foundation/umi";
+import { irysUploader, isIrysUploader } from "@metaplex-foundation/umi-uploader-irys";
+import { MediaCategory, SUPPORTED_MEDIA_TYPES, inferMimeType, mediaCategory } from "./media";
+
+// Storage for minted files. "irys" uploads to Arweave and is paid in SOL;
+// "local" writes to the dev server's disk through /api/uploads, for testing
+// without funding Irys. Set NEXT_PUBLIC_UPLOADER=local to use it.
+export type UploaderKind = "irys" | "local";
+
+export const UPLOADER: UploaderKind =
+  process.env.NEXT_PUBLIC_UPLOADER === "local" ? "local" : "irys";
+
+// Largest file accepted per media category
+export const MAX_UPLOAD_BYTES: Record<MediaCategory, number> = {
+  image: 15 * 1024 * 1024, // Matches the image proxy limit
+  video: 100 * 1024 * 1024,
+  audio: 50 * 1024 * 1024,
+  html: 5 * 1024 * 1024,
+  vr: 100 * 1024 * 1024,
+};
+
+// What an upload will cost and what the uploader already holds. Irys is paid
+// from a prefunded balance; the shortfall is what funding has to top up.
+export interface UploadQuote {
+  price: SolAmount;
+  balance: SolAmount | null;
+  shortfall: SolAmount;
+}
+
+// Installs the configured uploader on a umi instance
+export function storageUploader(kind: UploaderKind = UPLOADER): UmiPlugin {
+  return {
+    install(umi) {
+      if (kind === "local") {
+        umi.uploader = createLocalUploader();
+      } else {
+        umi.use(irysUploader());
+      }
+    },
+  };
+}
+
+// The MIME type of a browser file: what the browser reports, else a guess
+// from the extension (browsers leave glTF and some audio types blank)
+export function fileMimeType(file: File): string | undefined {
+  if (file.type && SUPPORTED_MEDIA_TYPES[file.type]) {
+    return file.type;
+  }
+  return inferMimeType(file.name);
+}
+
+// Supported MIME types in the given categories, e.g. for an input's accept list
+export function supportedTypes(categories: MediaCategory[]): string[] {
+  return Object.keys(SUPPORTED_MEDIA_TYPES).filter((type) => {
+    const category = mediaCategory(type);
+    return category !== undefined && categories.includes(category);
+  });
+}
+
+// Check a file before uploading it; returns an error message or null
+export function validateUploadFile(file: File, allowed: MediaCategory[]): string | null {
+  const type = fileMimeType(file);
+  const category = type ? mediaCategory(type) : undefined;
+  if (!type || !category || !allowed.includes(category)) {
+    const extensions = supportedTypes(allowed).flatMap(
+      (supported) => SUPPORTED_MEDIA_TYPES[supported].extensions
+    );
+    return `Unsupported file type. Use ${extensions.map((e) => `.${e}`).join(", ")}`;
+  }
+  if (file.size === 0) {
+    return "The file is empty";
+  }
+  if (file.size > MAX_UPLOAD_BYTES[category]) {
+    return `File is too large (max ${MAX_UPLOAD_BYTES[category] / 1024 / 1024} MB)`;
+  }
+  return null;
+}
+
+// Convert a browser file to a umi GenericFile tagged with its MIME type
+export async function toGenericFile(file: File): Promise<GenericFile> {
+  const generic = await createGenericFileFromBrowserFile(file);
+  const contentType = fileMimeType(file);
+  return contentType ? { ...generic, contentType } : generic;
+}
+
+// Price the given files against the uploader's current balance
+export async function quoteUpload(
+  uploader: UploaderInterface,
+  files: GenericFile[]
+): Promise<UploadQuote> {
+  const price = (await uploader.getUploadPrice(files)) as SolAmount;
+  if (!isIrysUploader(uploader)) {
+    return { price, balance: null, shortfall: lamports(0) };
+  }
+
+  const balance = await uploader.getBalance();
+  const shortfall = isGreaterThanAmount(price, balance)
+    ? subtractAmounts(price, balance)
+    : lamports(0);
+  return { price, balance, shortfall };
+}
+
+// Top up the uploader's balance; the wallet is asked to sign the transfer
+export async function fundUpload(uploader: UploaderInterface, amount: SolAmount): Promise<void> {
+  if (isIrysUploader(uploader) && isGreaterThanAmount(amount, lamports(0))) {
+    await uploader.fund(amount, true);
+  }
+}
+
+// Uploader backed by /api/uploads. Files are stored on the Next.js server's
+// disk and served back from relative /api/uploads/<id> URIs, so NFTs minted
+// with it only resolve against the same dev server.
+export function createLocalUploader(endpoint = "/api/uploads"): UploaderInterface {
+  const upload = async (files: GenericFile[]) =>
+    Promise.all(
+      files.map(async (file) => {
+        const response = await fetch(endpoint, {
+          method: "POST",
+          headers: { "content-type": file.contentType ?? "application/octet-stream" },
+          body: new Uint8Array(file.buffer),
+        });
+        if (!response.ok) {
+          const { error } = await response.json().catch(() => ({ error: undefined }));
+          throw new Error(error || `Local upload failed with status ${response.status}`);
+        }
+        const { uri } = (await response.json()) as { uri: string };
+        return uri;
+      })
+    );
+
+  return {
+    upload,
+    uploadJson: async (json) => {
+      const file = createGenericFile(JSON.stringify(json), "metadata.json", {
+        contentType: "application/json",
+      });
+      const [uri] = await upload([file]);
+      return uri;
+    },
+    getUploadPrice: async () => lamports(0),
+  };
+}
@@ -0,0 +1,19 @@
+import type { DetailedHTMLProps, HTMLAttributes } from "react";
+
+// <model-viewer> is registered by @google/model-viewer once it loads; see
+// ModelViewer in components/nft/MediaRenderer.tsx
+type ModelViewerAttributes = DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> & {
+  src?: string;
+  poster?: string;
+  alt?: string;
+  "camera-controls"?: string;
+  "auto-rotate"?: string;
+};
+
+declare module "react" {
+  namespace JSX {
+    interface IntrinsicElements {
+      "model-viewer": ModelViewerAttributes;
+    }
+  }
+}
@@ -3,6 +3,7 @@
 use anchor_lang::prelude::*;
 use anchor_spl::token::{self, Token, TokenAccount, Mint, Transfer, CloseAccount};
 use anchor_spl::associated_token::AssociatedToken;
+use anchor_spl::metadata::{Metadata, MetadataAccount};
 
 declare_id!("DHpGDWHEo3ubcRBcuDBaMR3KDYGH1j9rcSsYxcMsqzA9");
 
@@ -42,6 +43,7 @@ pub mod marketplace {
         
         let old_price = listing.price;
         listing.price = new_price;
+        listing.price_updated_at = Clock::get()?.unix_timestamp;
         
         msg!("Listing price updated from {} to {}", old_price, new_price);
         Ok(())
@@ -51,12 +53,18 @@ pub mod marketplace {
         require!(price > 0, ErrorCode::InvalidPrice);
         
         let listing = &mut ctx.accounts.listing;
+        // The listing account is either freshly created or a legacy inactive
+        // listing left behind before buy/cancel closed listing accounts
+        require!(!listing.is_active, ErrorCode::ListingAlreadyActive);
         
         listing.seller = ctx.accounts.seller.key();
         listing.nft_mint = ctx.accounts.nft_mint.key();
         listing.price = price;
         listing.bump = ctx.bumps.listing;
         listing.is_active = true;
+        let now = Clock::get()?.unix_timestamp;
+        listing.created_at = now;
+        listing.price_updated_at = now;
         
         // Update marketplace total_listings
         ctx.accounts.marketplace.total_listings = ctx.accounts.marketplace.total_listings
@@ -77,10 +85,16 @@ pub mod marketplace {
         Ok(())
     }
 
-    pub fn buy_nft(ctx: Context<BuyNft>) -> Result<()> {
-        let listing = &mut ctx.accounts.listing;
+    pub fn buy_nft<'info>(
+        ctx: Context<'_, '_, 'info, 'info, BuyNft<'info>>,
+        expected_price: u64,
+    ) -> Result<()> {
+        let listing = &ctx.accounts.listing;
         // Validation is now done in account constraints
         
+        // Reject the purchase if the seller repriced after the buyer saw the listing
+        require!(listing.price == expected_price, ErrorCode::PriceChanged);
+        
         // Store values we need before borrowing marketplace mutably
         let price = listing.price;
         let nft_mint = listing.nft_mint;
@@ -93,8 +107,67 @@ pub mod marketplace {
             .checked_div(10000)
             .ok_or(ErrorCode::ArithmeticOverflow)? as u64;
         
+        // Pay creator royalties from the mint's Metaplex metadata. Mints without
+        // metadata pay none. Shares of unverified creators stay with the seller.
+        let mut royalty_paid: u64 = 0;
+        let metadata_info = ctx.accounts.metadata.to_account_info();
+        if metadata_info.owner == &ctx.accounts.metadata_program.key() && !metadata_info.data_is_empty() {
+            let metadata = {
+                let data = metadata_info.try_borrow_data()?;
+                MetadataAccount::try_deserialize(&mut &data[..])?
+            };
+            // Royalties are paid out of what is left after the fee, so a
+            // royalty near 100% cannot make the purchase impossible
+            let royalty_amount = (price as u128)
+                .checked_mul(metadata.seller_fee_basis_points as u128)
+                .ok_or(ErrorCode::ArithmeticOverflow)?
+                .checked_div(10000)
+                .ok_or(ErrorCode::ArithmeticOverflow)?
+                .min(price.checked_sub(fee_amount).ok_or(ErrorCode::ArithmeticOverflow)? as u128);
+            
+            if let Some(creators) = &metadata.creators {
+                for creator in creators.iter().filter(|c| c.verified && c.share > 0) {
+                    // Creator accounts are passed as remaining accounts
+                    let creator_account = ctx.remaining_accounts
+                        .iter()
+                        .find(|account| account.key() == creator.address)
+                        .ok_or(ErrorCode::MissingCreatorAccount)?;
+                    require!(creator_account.is_writable, ErrorCode::MissingCreatorAccount);
+                    
+                    let creator_amount = royalty_amount
+                        .checked_mul(creator.share as u128)
+                        .ok_or(ErrorCode::ArithmeticOverflow)?
+                        .checked_div(100)
+                        .ok_or(ErrorCode::ArithmeticOverflow)? as u64;
+                    if creator_amount == 0 {
+                        continue;
+                    }
+                    
+                    let royalty_transfer = anchor_lang::solana_program::system_instruction::transfer(
+                        &ctx.accounts.buyer.key(),
+                        &creator.address,
+                        creator_amount,
+                    );
+                    anchor_lang::solana_program::program::invoke(
+                        &royalty_transfer,
+                        &[
+                            ctx.accounts.buyer.to_account_info(),
+                            creator_account.clone(),
+                            ctx.accounts.system_program.to_account_info(),
+                        ],
+                    )?;
+                    
+                    royalty_paid = royalty_paid
+                        .checked_add(creator_amount)
+                        .ok_or(ErrorCode::ArithmeticOverflow)?;
+                }
+            }
+        }
+        
         let seller_amount = price
             .checked_sub(fee_amount)
+            .ok_or(ErrorCode::ArithmeticOverflow)?
+            .checked_sub(royalty_paid)
             .ok_or(ErrorCode::ArithmeticOverflow)?;
         
         // Store marketplace info before mutable borrow
@@ -162,8 +235,7 @@ pub mod marketplace {
         );
         token::close_account(close_ctx.with_signer(signer_seeds))?;
         
-        // Update listing and marketplace
-        listing.is_active = false;
+        // Update marketplace; the listing account is closed to the seller
         ctx.accounts.marketplace.total_listings = ctx.accounts.marketplace.total_listings
             .checked_sub(1)
             .ok_or(ErrorCode::ArithmeticOverflow)?;
@@ -173,7 +245,7 @@ pub mod marketplace {
     }
 
     pub fn cancel_listing(ctx: Context<CancelListing>) -> Result<()> {
-        let listing = &mut ctx.accounts.listing;
+        let listing = &ctx.accounts.listing;
         // Validation is now done in account constraints
         
         // Store values before mutable borrow
@@ -210,8 +282,7 @@ pub mod marketplace {
         );
         token::close_account(close_ctx.with_signer(signer_seeds))?;
         
-        // Update listing and marketplace
-        listing.is_active = false;
+        // Update marketplace; the listing account is closed to the seller
         ctx.accounts.marketplace.total_listings = ctx.accounts.marketplace.total_listings
             .checked_sub(1)
             .ok_or(ErrorCode::ArithmeticOverflow)?;
@@ -219,6 +290,14 @@ pub mod marketplace {
         msg!("Listing cancelled for NFT: {:?}", nft_mint);
         Ok(())
     }
+
+    // Grow a listing account created before listings recorded their
+    // timestamps so the current program can read it; the new fields start at
+    // 0. Anyone may pay the extra rent. Does nothing for current accounts.
+    pub fn migrate_listing(ctx: Context<MigrateListing>) -> Result<()> {
+        msg!("Listing account migrated: {:?}", ctx.accounts.listing.key());
+        Ok(())
+    }
 }
 
 #[derive(Accounts)]
@@ -245,9 +324,9 @@ pub struct ListNft<'info> {
     )]
     pub marketplace: Account<'info, Marketplace>,
     #[account(
-        init,
+        init_if_needed,
         payer = seller,
-        space = 8 + 32 + 32 + 8 + 1 + 1,
+        space = Listing::LEN,
         seeds = [b"listing", nft_mint.key().as_ref()],
         bump
     )]
@@ -288,6 +367,7 @@ pub struct BuyNft<'info> {
         mut,
         seeds = [b"listing", nft_mint.key().as_ref()],
         bump = listing.bump,
+        close = seller,
         constraint = listing.is_active @ ErrorCode::ListingNotActive,
         constraint = listing.seller == seller.key() @ ErrorCode::InvalidSeller
     )]
@@ -320,9 +400,17 @@ pub struct BuyNft<'info> {
     )]
     pub buyer_token_account: Account<'info, TokenAccount>,
     pub nft_mint: Account<'info, Mint>,
+    #[account(
+        seeds = [b"metadata", metadata_program.key().as_ref(), nft_mint.key().as_ref()],
+        seeds::program = metadata_program.key(),
+        bump
+    )]
+    /// CHECK: Metaplex metadata PDA of nft_mint; may be uninitialized for mints without metadata
+    pub metadata: UncheckedAccount<'info>,
     pub token_program: Program<'info, Token>,
     pub associated_token_program: Program<'info, AssociatedToken>,
     pub system_program: Program<'info, System>,
+    pub metadata_program: Program<'info, Metadata>,
 }
 
 #[derive(Accounts)]
@@ -337,6 +425,7 @@ pub struct CancelListing<'info> {
         mut,
         seeds = [b"listing", nft_mint.key().as_ref()],
         bump = listing.bump,
+        close = seller,
         constraint = listing.is_active @ ErrorCode::ListingNotActive,
         constraint = listing.seller == seller.key() @ ErrorCode::Unauthorized
     )]
@@ -384,6 +473,26 @@ pub struct UpdateListingPrice<'info> {
     pub nft_mint: Account<'info, Mint>,
 }
 
+#[derive(Accounts)]
+pub struct MigrateListing<'info> {
+    /// CHECK: The listing PDA of nft_mint, owned by this program; it is only
+    /// resized, since the old layout does not deserialize as Listing
+    #[account(
+        mut,
+        seeds = [b"listing", nft_mint.key().as_ref()],
+        bump,
+        owner = crate::ID,
+        realloc = Listing::LEN,
+        realloc::payer = payer,
+        realloc::zero = false
+    )]
+    pub listing: UncheckedAccount<'info>,
+    #[account(mut)]
+    pub payer: Signer<'info>,
+    pub nft_mint: Account<'info, Mint>,
+    pub system_program: Program<'info, System>,
+}
+
 #[account]
 pub struct Marketplace {
     pub admin: Pubkey,
@@ -399,6 +508,13 @@ pub struct Listing {
     pub price: u64,
     pub bump: u8,
     pub is_active: bool,
+    // Unix timestamps; 0 on listings migrated from before they were recorded
+    pub created_at: i64,
+    pub price_updated_at: i64,
+}
+
+impl Listing {
+    pub const LEN: usize = 8 + 32 + 32 + 8 + 1 + 1 + 8 + 8;
 }
 
 #[error_code]
@@ -423,4 +539,10 @@ pub enum ErrorCode {
     InvalidSeller,
     #[msg("Invalid admin account")]
     InvalidAdmin,
+    #[msg("NFT is already listed")]
+    ListingAlreadyActive,
+    #[msg("Listing price changed since it was displayed")]
+    PriceChanged,
+    #[msg("A verified creator account is missing or not writable")]
+    MissingCreatorAccount,
 }
\ No newline at end of file
@@ -22,6 +22,7 @@ describe("NFT Marketplace", () => {
   const seller = web3.Keypair.generate();
   const buyer = web3.Keypair.generate();
   const price = new BN(1000000000); // 1 SOL
+  const newPrice = new BN(1500000000); // 1.5 SOL
 
   before(async () => {
     // Airdrop SOL to seller and buyer
@@ -113,6 +114,8 @@ describe("NFT Marketplace", () => {
     expect(listingAccount.nftMint.toString()).to.equal(nftMint.toString());
     expect(listingAccount.price.toString()).to.equal(price.toString());
     expect(listingAccount.isActive).to.be.true;
+    expect(listingAccount.createdAt.toNumber()).to.be.greaterThan(0);
+    expect(listingAccount.priceUpdatedAt.toString()).to.equal(listingAccount.createdAt.toString());
 
     const marketplaceAccount = await program.account.marketplace.fetch(marketplace);
     expect(marketplaceAccount.totalListings.toString()).to.equal("1");
@@ -120,9 +123,12 @@ describe("NFT Marketplace", () => {
 
   it("Buys NFT", async () => {
     // Note: Buyer ATA will be created automatically by init_if_needed
+    const sellerBalanceBefore = await connection.getBalance(seller.publicKey);
+    const listingRent = (await connection.getAccountInfo(listing)).lamports;
+    const escrowRent = (await connection.getAccountInfo(escrowTokenAccount)).lamports;
 
     await program.methods
-      .buyNft()
+      .buyNft(price)
       .accountsPartial({
         marketplace,
         buyer: buyer.publicKey,
@@ -133,8 +139,9 @@ describe("NFT Marketplace", () => {
       .signers([buyer])
       .rpc();
 
-    const listingAccount = await program.account.listing.fetch(listing);
-    expect(listingAccount.isActive).to.be.false;
+    // Listing account is closed and its rent returned to the seller
+    const listingAccount = await program.account.listing.fetchNullable(listing);
+    expect(listingAccount).to.be.null;
 
     const marketplaceAccount = await program.account.marketplace.fetch(marketplace);
     expect(marketplaceAccount.totalListings.toString()).to.equal("0");
@@ -142,6 +149,93 @@ describe("NFT Marketplace", () => {
     // Check buyer received NFT
     const buyerTokenAccountInfo = await connection.getTokenAccountBalance(buyerTokenAccount);
     expect(buyerTokenAccountInfo.value.amount).to.equal("1");
+
+    // The test mint has no Metaplex metadata, so no royalties are paid and
+    // the seller gets the price minus the 2.5% fee plus both rent refunds
+    const fee = price.muln(250).divn(10000);
+    const sellerBalanceAfter = await connection.getBalance(seller.publicKey);
+    expect(sellerBalanceAfter - sellerBalanceBefore).to.equal(
+      price.sub(fee).toNumber() + listingRent + escrowRent
+    );
+  });
+
+  it("Relists a purchased NFT from the new owner", async () => {
+    await program.methods
+      .listNft(price)
+      .accountsPartial({
+        marketplace,
+        seller: buyer.publicKey,
+        sellerTokenAccount: buyerTokenAccount,
+        nftMint,
+      })
+      .signers([buyer])
+      .rpc();
+
+    const listingAccount = await program.account.listing.fetch(listing);
+    expect(listingAccount.seller.toString()).to.equal(buyer.publicKey.toString());
+    expect(listingAccount.isActive).to.be.true;
+
+    const escrowTokenAccountInfo = await connection.getTokenAccountBalance(escrowTokenAccount);
+    expect(escrowTokenAccountInfo.value.amount).to.equal("1");
+
+    const marketplaceAccount = await program.account.marketplace.fetch(marketplace);
+    expect(marketplaceAccount.totalListings.toString()).to.equal("1");
+  });
+
+  it("Rejects a purchase after the price changed", async () => {
+    await program.methods
+      .updateListingPrice(newPrice)
+      .accountsPartial({
+        seller: buyer.publicKey,
+        nftMint,
+      })
+      .signers([buyer])
+      .rpc();
+
+    try {
+      // Buyer still expects the old price
+      await program.methods
+        .buyNft(price)
+        .accountsPartial({
+          marketplace,
+          buyer: seller.publicKey,
+          seller: buyer.publicKey,
+          admin: provider.publicKey,
+          nftMint,
+        })
+        .signers([seller])
+        .rpc();
+      expect.fail("Purchase should have failed");
+    } catch (err) {
+      expect(err).to.be.instanceOf(anchor.AnchorError);
+      expect((err as anchor.AnchorError).error.errorCode.code).to.equal("PriceChanged");
+    }
+
+    const listingAccount = await program.account.listing.fetch(listing);
+    expect(listingAccount.isActive).to.be.true;
+    expect(listingAccount.price.toString()).to.equal(newPrice.toString());
+    expect(listingAccount.priceUpdatedAt.gte(listingAccount.createdAt)).to.be.true;
+  });
+
+  it("Buys a relisted NFT", async () => {
+    // The original seller buys the NFT back from the new owner
+    await program.methods
+      .buyNft(newPrice)
+      .accountsPartial({
+        marketplace,
+        buyer: seller.publicKey,
+        seller: buyer.publicKey,
+        admin: provider.publicKey,
+        nftMint,
+      })
+      .signers([seller])
+      .rpc();
+
+    const listingAccount = await program.account.listing.fetchNullable(listing);
+    expect(listingAccount).to.be.null;
+
+    const sellerTokenAccountInfo = await connection.getTokenAccountBalance(sellerTokenAccount);
+    expect(sellerTokenAccountInfo.value.amount).to.equal("1");
   });
 
   it("Cancels listing", async () => {
@@ -204,11 +298,344 @@ describe("NFT Marketplace", () => {
       .signers([seller])
       .rpc();
 
-    const listingAccount = await program.account.listing.fetch(newListing);
-    expect(listingAccount.isActive).to.be.false;
+    const listingAccount = await program.account.listing.fetchNullable(newListing);
+    expect(listingAccount).to.be.null;
+
+    const escrowAccountInfo = await connection.getAccountInfo(newEscrowTokenAccount);
+    expect(escrowAccountInfo).to.be.null;
 
     // Check seller got NFT back
     const sellerTokenAccountInfo = await connection.getTokenAccountBalance(newSellerTokenAccount);
     expect(sellerTokenAccountInfo.value.amount).to.equal("1");
+
+    // A cancelled NFT can be listed again
+    await program.methods
+      .listNft(price)
+      .accountsPartial({
+        marketplace,
+        seller: seller.publicKey,
+        sellerTokenAccount: newSellerTokenAccount,
+        nftMint: newNftMint,
+      })
+      .signers([seller])
+      .rpc();
+
+    const relistedAccount = await program.account.listing.fetch(newListing);
+    expect(relistedAccount.isActive).to.be.true;
+  });
+
+  describe("Legacy listings", () => {
+    // Its listing PDA is preloaded with an inactive 82-byte listing, see
+    // Anchor.toml and tests/fixtures/legacy-listing.json
+    const legacyMint = web3.Keypair.fromSeed(new Uint8Array(32).fill(82));
+    const owner = web3.Keypair.generate();
+    const legacyBuyer = web3.Keypair.generate();
+
+    let legacyListing: web3.PublicKey;
+    let ownerTokenAccount: web3.PublicKey;
+
+    before(async () => {
+      const airdrops = await Promise.all([
+        connection.requestAirdrop(owner.publicKey, 2 * web3.LAMPORTS_PER_SOL),
+        connection.requestAirdrop(legacyBuyer.publicKey, 2 * web3.LAMPORTS_PER_SOL),
+      ]);
+      await Promise.all(airdrops.map((signature) => connection.confirmTransaction(signature)));
+
+      await createMint(connection, owner, owner.publicKey, null, 0, legacyMint);
+      ownerTokenAccount = await createAssociatedTokenAccount(
+        connection,
+        owner,
+        legacyMint.publicKey,
+        owner.publicKey
+      );
+      await mintTo(connection, owner, legacyMint.publicKey, ownerTokenAccount, owner, 1);
+
+      [legacyListing] = web3.PublicKey.findProgramAddressSync(
+        [Buffer.from("listing"), legacyMint.publicKey.toBuffer()],
+        program.programId
+      );
+    });
+
+    it("Migrates a legacy listing account", async () => {
+      const legacyInfo = await connection.getAccountInfo(legacyListing);
+      expect(legacyInfo.data.length).to.equal(82);
+
+      const migrate = () =>
+        program.methods
+          .migrateListing()
+          .accountsPartial({ payer: owner.publicKey, nftMint: legacyMint.publicKey })
+          .signers([owner])
+          .rpc();
+      await migrate();
+
+      const migratedInfo = await connection.getAccountInfo(legacyListing);
+      expect(migratedInfo.data.length).to.equal(98);
+      expect(migratedInfo.lamports).to.equal(
+        await connection.getMinimumBalanceForRentExemption(98)
+      );
+
+      // Existing fields are kept and the new timestamps read as 0
+      const listingAccount = await program.account.listing.fetch(legacyListing);
+      expect(listingAccount.nftMint.toString()).to.equal(legacyMint.publicKey.toString());
+      expect(listingAccount.price.toString()).to.equal(price.toString());
+      expect(listingAccount.isActive).to.be.false;
+      expect(listingAccount.createdAt.toNumber()).to.equal(0);
+      expect(listingAccount.priceUpdatedAt.toNumber()).to.equal(0);
+
+      // Migrating a current account changes nothing
+      await migrate();
+      const unchangedInfo = await connection.getAccountInfo(legacyListing);
+      expect(unchangedInfo.data.equals(migratedInfo.data)).to.be.true;
+      expect(unchangedInfo.lamports).to.equal(migratedInfo.lamports);
+    });
+
+    it("Relists and sells an NFT with a migrated listing", async () => {
+      await program.methods
+        .listNft(price)
+        .accountsPartial({
+          marketplace,
+          seller: owner.publicKey,
+          sellerTokenAccount: ownerTokenAccount,
+          nftMint: legacyMint.publicKey,
+        })
+        .signers([owner])
+        .rpc();
+
+      const listingAccount = await program.account.listing.fetch(legacyListing);
+      expect(listingAccount.seller.toString()).to.equal(owner.publicKey.toString());
+      expect(listingAccount.isActive).to.be.true;
+      expect(listingAccount.createdAt.toNumber()).to.be.greaterThan(0);
+      expect(listingAccount.priceUpdatedAt.toString()).to.equal(listingAccount.createdAt.toString());
+
+      await program.methods
+        .buyNft(price)
+        .accountsPartial({
+          marketplace,
+          buyer: legacyBuyer.publicKey,
+          seller: owner.publicKey,
+          admin: provider.publicKey,
+          nftMint: legacyMint.publicKey,
+        })
+        .signers([legacyBuyer])
+        .rpc();
+
+      expect(await program.account.listing.fetchNullable(legacyListing)).to.be.null;
+      const buyerTokenAccountInfo = await connection.getTokenAccountBalance(
+        await getAssociatedTokenAddress(legacyMint.publicKey, legacyBuyer.publicKey)
+      );
+      expect(buyerTokenAccountInfo.value.amount).to.equal("1");
+    });
+  });
+
+  describe("Creator royalties", () => {
+    const royaltySeller = web3.Keypair.generate();
+    const royaltyBuyer = web3.Keypair.generate();
+    // Update authority of the test NFTs, so it can verify itself as a creator
+    const verifiedCreator = web3.Keypair.generate();
+    const unverifiedCreator = web3.Keypair.generate();
+    const salePrice = new BN(web3.LAMPORTS_PER_SOL / 10); // 0.1 SOL
+    const fee = salePrice.muln(250).divn(10000);
+
+    let royaltyMint: web3.PublicKey;
+
+    before(async () => {
+      const airdrops = await Promise.all([
+        connection.requestAirdrop(royaltySeller.publicKey, 2 * web3.LAMPORTS_PER_SOL),
+        connection.requestAirdrop(royaltyBuyer.publicKey, 2 * web3.LAMPORTS_PER_SOL),
+      ]);
+      await Promise.all(airdrops.map((signature) => connection.confirmTransaction(signature)));
+    });
+
+    // Mint an NFT with Metaplex metadata to royaltySeller and list it
+    async function listNftWithMetadata(
+      sellerFeeBasisPoints: number,
+      creators: MetadataCreator[]
+    ): Promise<web3.PublicKey> {
+      const mint = await createMint(connection, royaltySeller, royaltySeller.publicKey, null, 0);
+      const tokenAccount = await createAssociatedTokenAccount(
+        connection,
+        royaltySeller,
+        mint,
+        royaltySeller.publicKey
+      );
+      await mintTo(connection, royaltySeller, mint, tokenAccount, royaltySeller, 1);
+      await web3.sendAndConfirmTransaction(
+        connection,
+        new web3.Transaction().add(
+          createMetadataInstruction(
+            mint,
+            royaltySeller.publicKey,
+            verifiedCreator.publicKey,
+            sellerFeeBasisPoints,
+            creators
+          )
+        ),
+        [royaltySeller, verifiedCreator]
+      );
+
+      await program.methods
+        .listNft(salePrice)
+        .accountsPartial({
+          marketplace,
+          seller: royaltySeller.publicKey,
+          sellerTokenAccount: tokenAccount,
+          nftMint: mint,
+        })
+        .signers([royaltySeller])
+        .rpc();
+      return mint;
+    }
+
+    function buyRoyaltyNft(mint: web3.PublicKey, creatorAccounts: web3.PublicKey[]) {
+      return program.methods
+        .buyNft(salePrice)
+        .accountsPartial({
+          marketplace,
+          buyer: royaltyBuyer.publicKey,
+          seller: royaltySeller.publicKey,
+          admin: provider.publicKey,
+          nftMint: mint,
+        })
+        .remainingAccounts(
+          creatorAccounts.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true }))
+        )
+        .signers([royaltyBuyer])
+        .rpc();
+    }
+
+    it("Rejects a purchase without the verified creator's account", async () => {
+      // 10% royalty split 70/30 between a verified and an unverified creator
+      royaltyMint = await listNftWithMetadata(1000, [
+        { address: verifiedCreator.publicKey, verified: true, share: 70 },
+        { address: unverifiedCreator.publicKey, verified: false, share: 30 },
+      ]);
+
+      try {
+        await buyRoyaltyNft(royaltyMint, []);
+        expect.fail("Purchase should have failed");
+      } catch (err) {
+        expect(err).to.be.instanceOf(anchor.AnchorError);
+        expect((err as anchor.AnchorError).error.errorCode.code).to.equal("MissingCreatorAccount");
+      }
+    });
+
+    it("Pays verified creators and leaves unverified shares with the seller", async () => {
+      const [listingAddress] = web3.PublicKey.findProgramAddressSync(
+        [Buffer.from("listing"), royaltyMint.toBuffer()],
+        program.programId
+      );
+      const [escrowAddress] = web3.PublicKey.findProgramAddressSync(
+        [Buffer.from("escrow"), royaltyMint.toBuffer()],
+        program.programId
+      );
+      const rents =
+        (await connection.getAccountInfo(listingAddress)).lamports +
+        (await connection.getAccountInfo(escrowAddress)).lamports;
+      const sellerBefore = await connection.getBalance(royaltySeller.publicKey);
+      const creatorBefore = await connection.getBalance(verifiedCreator.publicKey);
+
+      await buyRoyaltyNft(royaltyMint, [verifiedCreator.publicKey]);
+
+      const creatorShare = salePrice.muln(1000).divn(10000).muln(70).divn(100);
+      expect((await connection.getBalance(verifiedCreator.publicKey)) - creatorBefore).to.equal(
+        creatorShare.toNumber()
+      );
+      expect(await connection.getBalance(unverifiedCreator.publicKey)).to.equal(0);
+      expect((await connection.getBalance(royaltySeller.publicKey)) - sellerBefore).to.equal(
+        salePrice.sub(fee).sub(creatorShare).toNumber() + rents
+      );
+    });
+
+    it("Caps royalties at the price left after the fee", async () => {
+      // A 100% royalty would leave less than nothing for the seller
+      const mint = await listNftWithMetadata(10000, [
+        { address: verifiedCreator.publicKey, verified: true, share: 100 },
+      ]);
+      const [listingAddress] = web3.PublicKey.findProgramAddressSync(
+        [Buffer.from("listing"), mint.toBuffer()],
+        program.programId
+      );
+      const [escrowAddress] = web3.PublicKey.findProgramAddressSync(
+        [Buffer.from("escrow"), mint.toBuffer()],
+        program.programId
+      );
+      const rents =
+        (await connection.getAccountInfo(listingAddress)).lamports +
+        (await connection.getAccountInfo(escrowAddress)).lamports;
+      const sellerBefore = await connection.getBalance(royaltySeller.publicKey);
+      const creatorBefore = await connection.getBalance(verifiedCreator.publicKey);
+
+      await buyRoyaltyNft(mint, [verifiedCreator.publicKey]);
+
+      expect((await connection.getBalance(verifiedCreator.publicKey)) - creatorBefore).to.equal(
+        salePrice.sub(fee).toNumber()
+      );
+      expect((await connection.getBalance(royaltySeller.publicKey)) - sellerBefore).to.equal(rents);
+    });
   });
 });
+
+const TOKEN_METADATA_PROGRAM_ID = new web3.PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+
+interface MetadataCreator {
+  address: web3.PublicKey;
+  verified: boolean;
+  share: number;
+}
+
+// Token Metadata CreateMetadataAccountV3, encoded by hand since the tests do
+// not depend on the Metaplex SDK. Only the update authority can be marked
+// verified, and it signs.
+function createMetadataInstruction(
+  mint: web3.PublicKey,
+  mintAuthority: web3.PublicKey,
+  updateAuthority: web3.PublicKey,
+  sellerFeeBasisPoints: number,
+  creators: MetadataCreator[]
+): web3.TransactionInstruction {
+  const u16 = (value: number) => {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16LE(value);
+    return buffer;
+  };
+  const u32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value);
+    return buffer;
+  };
+  const string = (value: string) => Buffer.concat([u32(Buffer.byteLength(value)), Buffer.from(value)]);
+
+  const data = Buffer.concat([
+    Buffer.from([33]), // CreateMetadataAccountV3
+    string("Royalty Test"),
+    string("RT"),
+    string(""),
+    u16(sellerFeeBasisPoints),
+    Buffer.from([1]), // Some(creators)
+    u32(creators.length),
+    ...creators.map((creator) =>
+      Buffer.concat([creator.address.toBuffer(), Buffer.from([creator.verified ? 1 : 0, creator.share])])
+    ),
+    Buffer.from([0, 0]), // No collection, no uses
+    Buffer.from([1]), // Mutable
+    Buffer.from([0]), // No collection details
+  ]);
+
+  const [metadata] = web3.PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+  return new web3.TransactionInstruction({
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    keys: [
+      { pubkey: metadata, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: mintAuthority, isSigner: true, isWritable: false },
+      { pubkey: mintAuthority, isSigner: true, isWritable: true }, // Payer
+      { pubkey: updateAuthority, isSigner: true, isWritable: false },
+      { pubkey: web3.SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: web3.SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}